@@ -0,0 +1,156 @@
+#!/usr/bin/env node
+import * as fs from 'fs';
+import * as path from 'path';
+import { DataSource } from 'typeorm';
+import { generateI18nMigration } from './migration';
+
+const USAGE = `Usage: typeorm-i18n migration:generate <path/to/Migration> -d <path/to/data-source> [--backfill]
+       [--drop <languages>]
+
+Generates a migration adding the per-language columns of @I18nColumn properties
+that are missing from the database.
+
+Options:
+  -d, --dataSource  File exporting the DataSource (default or named export).
+                    TypeScript files are loaded with ts-node when it is installed
+  --backfill        Copy the default language value into added columns
+  --drop            Drop the columns of languages that are no longer configured,
+                    as a comma-separated list (e.g. --drop fr,pt-BR)
+  -h, --help        Show this help`;
+
+/**
+ * Parsed command line arguments
+ * @internal
+ */
+export interface CliArgs {
+  command?: string;
+  output?: string;
+  dataSource?: string;
+  backfill: boolean;
+  drop: string[];
+  help: boolean;
+}
+
+/**
+ * Parse the command line arguments
+ * @internal
+ */
+export function parseArgs(argv: string[]): CliArgs {
+  const args: CliArgs = { backfill: false, drop: [], help: false };
+  const positional: string[] = [];
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '-d' || arg === '--dataSource') {
+      args.dataSource = argv[++i];
+    } else if (arg === '--backfill') {
+      args.backfill = true;
+    } else if (arg === '--drop') {
+      const languages = (argv[++i] ?? '').split(',').map((language) => language.trim()).filter(Boolean);
+      if (languages.length === 0) {
+        throw new Error('--drop requires the languages whose columns are dropped (e.g. --drop fr,pt-BR)');
+      }
+      args.drop.push(...languages);
+    } else if (arg === '-h' || arg === '--help') {
+      args.help = true;
+    } else {
+      positional.push(arg);
+    }
+  }
+
+  [args.command, args.output] = positional;
+  return args;
+}
+
+/**
+ * Register ts-node to load a TypeScript data source, unless a loader for `.ts` files is
+ * already registered (e.g. `node -r ts-node/register`)
+ */
+function registerTypeScript(file: string): void {
+  if (!/\.[cm]?ts$/.test(file) || require.extensions['.ts']) {
+    return;
+  }
+
+  let tsNode: typeof import('ts-node');
+  try {
+    tsNode = require('ts-node');
+  } catch {
+    throw new Error(`${file} is a TypeScript file: install ts-node, or compile it and pass the JavaScript file`);
+  }
+  tsNode.register({ transpileOnly: true });
+}
+
+/**
+ * Load the DataSource exported by a file (default export or first exported DataSource)
+ */
+function loadDataSource(file: string): DataSource {
+  registerTypeScript(file);
+  const exported = require(path.resolve(process.cwd(), file));
+  const candidates = [exported?.default, exported, ...Object.values(exported ?? {})];
+  const dataSource = candidates.find(
+    (candidate) => candidate && typeof candidate.initialize === 'function' && candidate.options
+  );
+
+  if (!dataSource) {
+    throw new Error(`${file} does not export a DataSource`);
+  }
+  return dataSource;
+}
+
+/**
+ * Run the command line, returning the exit code
+ * @internal
+ */
+export async function main(argv: string[], log: (message: string) => void = console.log): Promise<number> {
+  const args = parseArgs(argv);
+
+  if (args.help || args.command !== 'migration:generate' || !args.output || !args.dataSource) {
+    log(USAGE);
+    return args.help ? 0 : 1;
+  }
+
+  const dataSource = loadDataSource(args.dataSource);
+  // Never let the DataSource change the schema we are diffing against
+  dataSource.setOptions({ synchronize: false, migrationsRun: false, dropSchema: false, logging: false });
+  await dataSource.initialize();
+
+  try {
+    const timestamp = Date.now();
+    const migration = await generateI18nMigration(dataSource, {
+      name: path.basename(args.output),
+      timestamp,
+      backfill: args.backfill,
+      drop: args.drop,
+    });
+
+    if (migration.staleColumns.length > 0 && args.drop.length === 0) {
+      log(
+        'Columns of unconfigured languages (use --drop <languages> to remove): ' +
+          migration.staleColumns.join(', ')
+      );
+    }
+
+    if (migration.upQueries.length === 0) {
+      log('No changes in i18n columns were found');
+      return 0;
+    }
+
+    const file = path.join(path.dirname(args.output), `${timestamp}-${path.basename(args.output)}.ts`);
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, migration.source);
+    log(`Migration ${file} has been generated successfully.`);
+    return 0;
+  } finally {
+    await dataSource.destroy();
+  }
+}
+
+if (require.main === module) {
+  main(process.argv.slice(2)).then(
+    (code) => process.exit(code),
+    (error) => {
+      console.error(error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  );
+}
@@ -0,0 +1,89 @@
+import { DataSource } from 'typeorm';
+import { getI18nConfig } from './config';
+import { getI18nDataSourceConfig } from './data-source';
+import { matchLanguage } from './language-utils';
+import { getI18nDialect } from './storage';
+
+/**
+ * Characters ranked by the collator of a language: Latin (with its extensions), Greek and Cyrillic.
+ * Characters outside these ranges are ordered by code point after them.
+ */
+const RANKED_RANGES: Array<[number, number]> = [
+  [0x20, 0x24f],
+  [0x370, 0x4ff],
+];
+
+/**
+ * Primary collation rank of the ranked characters, by language
+ */
+const rankTables = new Map<string, Map<string, number>>();
+
+/**
+ * Rank the characters of RANKED_RANGES with the collator of a language, ignoring case and accents
+ * where the language does (`ä` ranks with `a` in German, after `z` in Swedish).
+ */
+function getRankTable(language: string): Map<string, number> {
+  let table = rankTables.get(language);
+  if (table) {
+    return table;
+  }
+
+  const collator = new Intl.Collator(language, { sensitivity: 'base' });
+  const characters = RANKED_RANGES.flatMap(([from, to]) =>
+    Array.from({ length: to - from + 1 }, (_, index) => String.fromCharCode(from + index))
+  ).sort(collator.compare);
+
+  table = new Map();
+  let rank = 0;
+  characters.forEach((character, index) => {
+    if (index > 0 && collator.compare(characters[index - 1], character) !== 0) {
+      rank++;
+    }
+    table!.set(character, rank);
+  });
+
+  rankTables.set(language, table);
+  return table;
+}
+
+/**
+ * Create a sort key of a value for a language: a string whose binary order follows the
+ * language's alphabetical order, for databases without locale collations (SQLite).
+ * Each character is encoded as 4 hex digits of its primary rank.
+ * @internal
+ */
+export function createSortKey(value: string, language: string): string {
+  const ranks = getRankTable(language);
+  const offset = 0x500;
+
+  return Array.from(value.normalize('NFC'))
+    .map((character) => {
+      const rank = ranks.get(character) ?? Math.min(offset + character.codePointAt(0)!, 0xffff);
+      return rank.toString(16).padStart(4, '0');
+    })
+    .join('');
+}
+
+/**
+ * Get the collation configured for a language, from the configuration of the DataSource or
+ * the global one. SQLite has no locale collations, so none is returned there.
+ * @internal
+ */
+export function getI18nCollation(dataSource: DataSource, language: string): string | undefined {
+  const collations = getI18nDataSourceConfig(dataSource)?.collations ?? getI18nConfig().collations;
+  if (!collations || getI18nDialect(dataSource) === 'sqlite') {
+    return undefined;
+  }
+
+  const match = matchLanguage(language, Object.keys(collations));
+  return match === undefined ? undefined : collations[match];
+}
+
+/**
+ * Apply a collation to an SQL expression, quoting the collation name as an identifier
+ * @internal
+ */
+export function collate(dataSource: DataSource, sql: string, collation: string): string {
+  const [open, close] = dataSource.driver.escape('');
+  return `${sql} COLLATE ${open}${collation.split(close).join(close + close)}${close}`;
+}
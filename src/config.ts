@@ -1,4 +1,7 @@
 import { normalizeLanguageCode, normalizeLanguageCodes } from './language-utils';
+import type { I18nNamingStrategy } from './naming-strategy';
+import type { I18nFallbacks } from './types';
+import { normalizeI18nFallbacks } from './fallback';
 
 /**
  * Callbacks to run when config is set
@@ -14,6 +17,28 @@ export function onI18nConfigSet(callback: () => void): void {
   configCallbacks.push(callback);
 }
 
+/**
+ * A named set of languages for I18n columns, selected with `@I18nColumn({ profile })`
+ */
+export interface I18nLanguageProfile {
+  /**
+   * Languages of the columns using this profile.
+   */
+  languages: readonly string[];
+
+  /**
+   * Default language of the columns using this profile.
+   * Must be included in `languages`.
+   */
+  default_language: string;
+
+  /**
+   * Languages every column using this profile must have a translation for.
+   * Defaults to the global `required` languages this profile supports.
+   */
+  required?: readonly string[];
+}
+
 /**
  * Global configuration for I18n columns
  */
@@ -29,6 +54,55 @@ export interface I18nGlobalConfig {
    * Language code is automatically normalized to lowercase.
    */
   default_language?: string;
+
+  /**
+   * Naming strategy for the per-language columns (default: `name_es`).
+   * Can be overridden per column.
+   */
+  namingStrategy?: I18nNamingStrategy;
+
+  /**
+   * Languages every I18n column must have a translation for.
+   * Languages a column doesn't support are ignored for that column.
+   * Can be overridden per column.
+   */
+  required?: readonly string[];
+
+  /**
+   * Languages that are being retired: still loaded into the translations properties,
+   * but writing them is rejected. Their columns are kept.
+   * Languages a column doesn't support are ignored for that column.
+   * Can be overridden per column.
+   */
+  deprecated?: readonly string[];
+
+  /**
+   * Retired languages: neither loaded nor written, while their columns and stored
+   * translations are kept. Requests for them use the default language.
+   * Languages a column doesn't support are ignored for that column.
+   * Can be overridden per column.
+   */
+  archived?: readonly string[];
+
+  /**
+   * Named language profiles, for entities that exist in a different set of languages
+   * than the global one. Columns select a profile with `@I18nColumn({ profile: 'legal' })`.
+   */
+  profiles?: Record<string, I18nLanguageProfile>;
+
+  /**
+   * Database collation per language, applied when ordering by I18n columns in that language
+   * (e.g. `{ de: 'de-DE-x-icu', sv: 'sv-SE-x-icu' }` on PostgreSQL, `{ de: 'utf8mb4_german2_ci' }`
+   * on MySQL). Not applied on SQLite, which has no locale collations: use `sortKey` columns there.
+   */
+  collations?: Record<string, string>;
+
+  /**
+   * Fallback chains by language, tried in order when a loaded entity has no translation in
+   * the current language (e.g. `{ 'pt-br': ['pt', 'en'], '*': ['en'] }`).
+   * Can be extended per entity and per column, and are also used by getTranslation().
+   */
+  fallbacks?: I18nFallbacks;
 }
 
 /**
@@ -36,6 +110,55 @@ export interface I18nGlobalConfig {
  */
 let globalConfig: I18nGlobalConfig = {};
 
+/**
+ * Normalize the language codes of each profile and check its default language.
+ */
+function normalizeProfiles(profiles: Record<string, I18nLanguageProfile>): Record<string, I18nLanguageProfile> {
+  const normalized: Record<string, I18nLanguageProfile> = {};
+
+  for (const [name, profile] of Object.entries(profiles)) {
+    const languages = normalizeLanguageCodes(profile.languages);
+    const default_language = normalizeLanguageCode(profile.default_language);
+    if (!languages.includes(default_language)) {
+      throw new Error(
+        `default_language "${default_language}" of I18n profile "${name}" must be included in its languages`
+      );
+    }
+
+    normalized[name] = {
+      languages,
+      default_language,
+      required: profile.required ? normalizeLanguageCodes(profile.required) : undefined,
+    };
+  }
+
+  return normalized;
+}
+
+/**
+ * Normalize the language codes of an I18n configuration.
+ * @internal
+ */
+export function normalizeI18nConfig(config: I18nGlobalConfig): I18nGlobalConfig {
+  return {
+    languages: config.languages ? normalizeLanguageCodes(config.languages) : undefined,
+    default_language: config.default_language
+      ? normalizeLanguageCode(config.default_language)
+      : undefined,
+    namingStrategy: config.namingStrategy,
+    required: config.required ? normalizeLanguageCodes(config.required) : undefined,
+    deprecated: config.deprecated ? normalizeLanguageCodes(config.deprecated) : undefined,
+    archived: config.archived ? normalizeLanguageCodes(config.archived) : undefined,
+    profiles: config.profiles ? normalizeProfiles(config.profiles) : undefined,
+    collations: config.collations
+      ? Object.fromEntries(
+          Object.entries(config.collations).map(([language, collation]) => [normalizeLanguageCode(language), collation])
+        )
+      : undefined,
+    fallbacks: config.fallbacks ? normalizeI18nFallbacks(config.fallbacks) : undefined,
+  };
+}
+
 /**
  * Set global configuration for I18n columns.
  * This configuration will be used as defaults for all @I18nColumn decorators.
@@ -65,15 +188,22 @@ let globalConfig: I18nGlobalConfig = {};
  *   type: 'text',
  * })
  * title: I18nValue<'en' | 'de' | 'ja', string>;
+ *
+ * // Or use a named profile for entities with their own set of languages
+ * setI18nConfig({
+ *   languages: ['en', 'es', 'fr'],
+ *   default_language: 'en',
+ *   profiles: {
+ *     legal: { languages: ['en', 'de'], default_language: 'en' },
+ *   },
+ * });
+ *
+ * @I18nColumn({ profile: 'legal', type: 'text' })
+ * terms: I18nValue<'en' | 'de', string>;
  * ```
  */
 export function setI18nConfig(config: I18nGlobalConfig): void {
-  globalConfig = {
-    languages: config.languages ? normalizeLanguageCodes(config.languages) : undefined,
-    default_language: config.default_language
-      ? normalizeLanguageCode(config.default_language)
-      : undefined,
-  };
+  globalConfig = normalizeI18nConfig(config);
 
   // Run registered callbacks (e.g., finalize pending I18n columns)
   for (const callback of configCallbacks) {
@@ -90,6 +220,34 @@ export function getI18nConfig(): Readonly<I18nGlobalConfig> {
   return { ...globalConfig };
 }
 
+/**
+ * Get a named language profile of the global configuration
+ *
+ * @param name - The profile name
+ * @returns The profile with normalized language codes
+ * @throws Error if the profile is not configured
+ *
+ * @example
+ * ```typescript
+ * getI18nProfile('legal'); // { languages: ['en', 'de'], default_language: 'en' }
+ * ```
+ */
+export function getI18nProfile(name: string): Readonly<I18nLanguageProfile> {
+  return resolveI18nProfile(globalConfig, name);
+}
+
+/**
+ * Get a named language profile of a configuration (the global one or a DataSource's own).
+ * @internal
+ */
+export function resolveI18nProfile(config: I18nGlobalConfig, name: string): Readonly<I18nLanguageProfile> {
+  const profile = config.profiles?.[name];
+  if (!profile) {
+    throw new Error(`I18n profile "${name}" is not configured. Add it to the profiles of setI18nConfig().`);
+  }
+  return profile;
+}
+
 /**
  * Reset global I18n configuration to empty
  */
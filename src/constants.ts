@@ -1,5 +1,5 @@
 /**
- * Delimiter used to separate the column name from the language code.
+ * Delimiter used by the default naming strategy to separate the column name from the language code.
  * Example: name_en, name_es, title_cn
  */
 export const LANGUAGE_DELIMITER = '_';
@@ -8,3 +8,9 @@ export const LANGUAGE_DELIMITER = '_';
  * Metadata key for storing I18n column information
  */
 export const I18N_METADATA_KEY = 'typeorm:i18n:columns';
+
+/**
+ * Property name of the relation to the companion translation entity
+ * of entities using `storage: 'table'`.
+ */
+export const I18N_TRANSLATIONS_RELATION = 'i18nTranslations';
@@ -0,0 +1,111 @@
+import { DataSource, getMetadataArgsStorage } from 'typeorm';
+import { EntityMetadataBuilder } from 'typeorm/metadata-builder/EntityMetadataBuilder';
+import type { MetadataArgsStorage } from 'typeorm/metadata-args/MetadataArgsStorage';
+import { getI18nConfig, I18nGlobalConfig, normalizeI18nConfig } from './config';
+import { withI18nColumns } from './decorator';
+import { i18nMetadataStorage } from './metadata';
+
+/**
+ * Configurations attached to DataSources, merged over the global configuration
+ */
+const dataSourceConfigs = new WeakMap<DataSource, I18nGlobalConfig>();
+
+let entityMetadataBuilderPatched = false;
+
+/**
+ * Build the entity metadata of DataSources with their own configuration from their language
+ * columns. TypeORM reads the process-wide metadata args in the synchronous build() of
+ * EntityMetadataBuilder, so the language columns of the configuration are only in place while
+ * it runs, and DataSources initializing at the same time keep seeing the global ones. Only
+ * patched once a configuration is attached, and tied to the TypeORM 0.3 internals the peer
+ * dependency range is pinned to.
+ */
+function patchEntityMetadataBuilder(): void {
+  if (entityMetadataBuilderPatched) {
+    return;
+  }
+  entityMetadataBuilderPatched = true;
+
+  const build = EntityMetadataBuilder.prototype.build;
+  EntityMetadataBuilder.prototype.build = function (this: EntityMetadataBuilder, entityClasses?: Function[]) {
+    const { connection: dataSource, metadataArgsStorage } = this as unknown as {
+      connection: DataSource;
+      metadataArgsStorage: MetadataArgsStorage;
+    };
+    // Entity schemas are built from their own metadata args
+    if (!entityClasses || !dataSourceConfigs.has(dataSource) || metadataArgsStorage !== getMetadataArgsStorage()) {
+      return build.call(this, entityClasses);
+    }
+
+    return withI18nColumns(resolveDataSourceConfig(dataSource), entityClasses, (metadata) => {
+      i18nMetadataStorage.setDataSourceMetadata(dataSource, metadata);
+      return build.call(this, entityClasses);
+    });
+  };
+}
+
+/**
+ * Merge the options set in the configuration of a DataSource over the global configuration
+ */
+function resolveDataSourceConfig(dataSource: DataSource): I18nGlobalConfig {
+  const config: Record<string, unknown> = { ...getI18nConfig() };
+  for (const [key, value] of Object.entries(dataSourceConfigs.get(dataSource) ?? {})) {
+    if (value !== undefined) {
+      config[key] = value;
+    }
+  }
+  return config;
+}
+
+/**
+ * Attach an I18n configuration to a DataSource, for applications with several DataSources
+ * that share entity classes but not their languages. Must be called before
+ * `dataSource.initialize()`.
+ *
+ * The configuration takes the place of setI18nConfig() for this DataSource: its language
+ * columns are generated from it, and I18nRepository, I18nQueryBuilder, I18nSubscriber,
+ * migrations and schema validation resolve languages from it. Options it doesn't set fall
+ * back to the global configuration, and column-level options still take precedence.
+ *
+ * @param dataSource - The DataSource, not yet initialized
+ * @param config - I18n configuration of this DataSource
+ * @returns The same DataSource
+ *
+ * @example
+ * ```typescript
+ * const catalog = attachI18nConfig(
+ *   new DataSource({ type: 'postgres', entities: [Product], subscribers: [I18nSubscriber] }),
+ *   { languages: ['en', 'es', 'fr', 'de'], default_language: 'en' }
+ * );
+ * const backOffice = attachI18nConfig(
+ *   new DataSource({ type: 'postgres', entities: [Product], subscribers: [I18nSubscriber] }),
+ *   { languages: ['en', 'de'], default_language: 'en' }
+ * );
+ *
+ * await catalog.initialize();    // product.name_es, name_fr, name_de
+ * await backOffice.initialize(); // product.name_de
+ * ```
+ */
+export function attachI18nConfig(dataSource: DataSource, config: I18nGlobalConfig): DataSource {
+  if (dataSource.isInitialized) {
+    throw new Error(
+      `attachI18nConfig() must be called before DataSource "${dataSource.name}" is initialized`
+    );
+  }
+
+  dataSourceConfigs.set(dataSource, normalizeI18nConfig(config));
+  patchEntityMetadataBuilder();
+
+  return dataSource;
+}
+
+/**
+ * Get the I18n configuration attached to a DataSource with attachI18nConfig()
+ *
+ * @param dataSource - The DataSource
+ * @returns The attached configuration, or undefined when the DataSource uses the global one
+ */
+export function getI18nDataSourceConfig(dataSource: DataSource): Readonly<I18nGlobalConfig> | undefined {
+  const config = dataSourceConfigs.get(dataSource);
+  return config && { ...config };
+}
@@ -1,19 +1,53 @@
-import { getMetadataArgsStorage, Column, ColumnOptions } from 'typeorm';
-import { I18nColumnOptions } from './types';
-import { LANGUAGE_DELIMITER } from './constants';
-import { i18nMetadataStorage } from './metadata';
-import { getI18nConfig, onI18nConfigSet } from './config';
-import { normalizeLanguageCode, normalizeLanguageCodes } from './language-utils';
+import {
+  getMetadataArgsStorage,
+  Column,
+  ColumnOptions,
+  JoinColumn,
+  ManyToOne,
+  ObjectType,
+  RelationOptions,
+} from 'typeorm';
+import type { JoinColumnMetadataArgs } from 'typeorm/metadata-args/JoinColumnMetadataArgs';
+import {
+  I18nColumnMetadata,
+  I18nColumnOptions,
+  I18nEntity as I18nEntityState,
+  I18nEntityOptions,
+  I18nIndexOptions,
+  I18nRelationOptions,
+} from './types';
+import { getInheritanceTree, i18nMetadataStorage } from './metadata';
+import {
+  getI18nConfig,
+  I18nGlobalConfig,
+  I18nLanguageProfile,
+  onI18nConfigSet,
+  resolveI18nProfile,
+} from './config';
+import { languageColumnSuffix, normalizeLanguageCode, normalizeLanguageCodes } from './language-utils';
+import { registerTranslationEntity } from './translation-table';
+import { normalizeI18nFallbacks } from './fallback';
+import {
+  I18nNamingStrategy,
+  getSearchPropertyName,
+  getSortKeyPropertyName,
+  resolveI18nNamingStrategy,
+} from './naming-strategy';
 
 /**
  * Generates the column name for a specific language translation.
  *
  * @param propertyName - The base property name
  * @param language - The language code
+ * @param namingStrategy - Naming strategy to use (defaults to the global naming strategy)
  * @returns The column name with language suffix (e.g., "name_es", "title_en")
  */
-export function getTranslationColumnName(propertyName: string, language: string): string {
-  return `${propertyName}${LANGUAGE_DELIMITER}${language}`;
+export function getTranslationColumnName(
+  propertyName: string,
+  language: string,
+  namingStrategy?: I18nNamingStrategy
+): string {
+  return resolveI18nNamingStrategy(namingStrategy).translationPropertyName(propertyName, language);
 }
 
 // Queue of pending column creations (for when config isn't set yet)
@@ -21,95 +55,474 @@ interface PendingColumn {
   target: Object;
   propertyName: string;
   options: I18nColumnOptions<any>;
-  originalColumn: any;
+  /** Column args of the default language, or the relation args of an I18nRelation */
+  originalColumn?: any;
+  /** Options of the default language column before the i18n options were applied */
+  baseOptions?: ColumnOptions;
+  /** Join column args of the default language of an I18nRelation */
+  originalJoinColumn?: JoinColumnMetadataArgs;
 }
 
 const pendingColumns: PendingColumn[] = [];
-let columnsFinalized = false;
+
+// All declared columns, to generate the language columns of other configurations
+const declaredColumns: PendingColumn[] = [];
+
+// Column, index, relation and join column args created for languages, as opposed to the
+// user's own, with the entity whose I18n columns they were created for
+const generatedArgs = new WeakMap<object, Function>();
 
 /**
- * Finalize all pending I18n columns. Called automatically when config is set
- * or can be called manually before DataSource.initialize().
+ * Column types accepted for `storage: 'json'`. `text` columns hold serialized JSON, as `simple-json` does.
  */
-export function finalizeI18nColumns(): void {
-  if (columnsFinalized) return;
+const JSON_COLUMN_TYPES = ['json', 'jsonb', 'simple-json'];
+const JSON_TEXT_COLUMN_TYPE = 'text';
 
-  const globalConfig = getI18nConfig();
-  if (!globalConfig.languages || globalConfig.languages.length === 0) {
-    // Config not set yet, can't finalize
-    return;
+/**
+ * The metadata args lists that args are generated in.
+ */
+function getGeneratedArgLists(): object[][] {
+  const { columns, indices, relations, joinColumns } = getMetadataArgsStorage();
+  return [columns, indices, relations, joinColumns];
+}
+
+/**
+ * Add column, index or relation args for a language of an entity, remembering that they were generated.
+ */
+function pushGenerated<T extends object>(args: T[], entity: Function, arg: T): void {
+  generatedArgs.set(arg, entity);
+  args.push(arg);
+}
+
+/**
+ * Create the per-language indexes of an I18n column from its `index` and `unique` options.
+ * Columns storage gets one index per language column; table storage gets one index on
+ * `(locale, property)` of the translation table, which is unique per language as well.
+ */
+function registerI18nIndexes(
+  target: Function,
+  propertyName: string,
+  options: I18nColumnOptions<any>,
+  languages: string[],
+  languagePropertyName: (language: string) => string
+): void {
+  const indices = getMetadataArgsStorage().indices;
+
+  for (const [kind, indexOption] of [['index', options.index], ['unique', options.unique]] as const) {
+    if (!indexOption) {
+      continue;
+    }
+
+    const indexOptions: I18nIndexOptions = indexOption === true ? {} : indexOption;
+    const unique = kind === 'unique';
+    const prefix = unique ? 'UQ' : 'IDX';
+    const extraColumns = indexOptions.columns ?? [];
+
+    const indexName = (language: string | undefined, defaultName: string): string => {
+      if (typeof indexOptions.name === 'function') {
+        return indexOptions.name(language ?? '');
+      }
+      if (indexOptions.name) {
+        return indexOptions.name.split('{language}').join(language ?? '');
+      }
+      return defaultName;
+    };
+
+    if (options.storage === 'table') {
+      const translationEntity = registerTranslationEntity(target);
+      pushGenerated(indices, target, {
+        target: translationEntity,
+        name: indexName(undefined, `${prefix}_${translationEntity.name}_${propertyName}`),
+        columns: ['locale', propertyName],
+        unique,
+        where: indexOptions.where,
+      });
+      continue;
+    }
+
+    for (const language of languages) {
+      const columns = [...extraColumns, languagePropertyName(language)];
+      const suffix = languageColumnSuffix(language);
+      pushGenerated(indices, target, {
+        target,
+        name: indexName(language, `${prefix}_${target.name}_${[...extraColumns, propertyName].join('_')}_${suffix}`),
+        columns,
+        unique,
+        where: indexOptions.where,
+        fulltext: indexOptions.fulltext,
+      });
+    }
   }
+}
 
-  const metadataArgsStorage = getMetadataArgsStorage();
+/**
+ * Get the TypeORM relation options of an I18nRelation.
+ */
+function getRelationOptions(options: I18nRelationOptions<any>): RelationOptions {
+  const {
+    languages: _langs,
+    default_language: _defLang,
+    profile: _profile,
+    namingStrategy: _namingStrategy,
+    required: _required,
+    fallback: _fallback,
+    fallbacks: _fallbacks,
+    fallbackPolicy: _fallbackPolicy,
+    deprecated: _deprecated,
+    archived: _archived,
+    joinColumn: _joinColumn,
+    ...relationOptions
+  } = options;
+  return relationOptions;
+}
 
-  for (const pending of pendingColumns) {
-    const { target, propertyName, options, originalColumn } = pending;
+/**
+ * Create the relations of the non-default languages of an I18n relation, each with its own
+ * foreign key, copied from the relation of the default language.
+ */
+function registerLanguageRelations(column: PendingColumn, meta: I18nColumnMetadata): void {
+  const { target, propertyName, originalColumn, originalJoinColumn } = column;
+  const { languages, default_language, namingStrategy, required } = meta.options;
+  const { relations, joinColumns } = getMetadataArgsStorage();
+  const relationOptions = getRelationOptions(column.options as I18nRelationOptions<any>);
+
+  originalColumn.options = {
+    ...relationOptions,
+    ...(required.includes(default_language) ? { nullable: false } : {}),
+  };
+
+  for (const language of languages.filter((lang) => lang !== default_language)) {
+    const translationPropertyName = namingStrategy.translationPropertyName(propertyName, language);
 
-    // Resolve languages from options or global config
-    const rawLanguages = options.languages ?? (globalConfig.languages as readonly string[]);
-    const rawDefaultLanguage = options.default_language ?? (globalConfig.default_language as string);
+    const exists = relations.some(
+      (relation) => relation.target === target.constructor && relation.propertyName === translationPropertyName
+    );
+    if (exists) {
+      continue;
+    }
+
+    pushGenerated(relations, target.constructor, {
+      ...originalColumn,
+      propertyName: translationPropertyName,
+      options: { ...relationOptions, nullable: !required.includes(language) },
+    });
+    pushGenerated(joinColumns, target.constructor, {
+      target: target.constructor,
+      propertyName: translationPropertyName,
+      name: namingStrategy.translationColumnName?.(propertyName, language, originalJoinColumn?.name),
+    });
+  }
+}
 
-    const languages = rawLanguages ? normalizeLanguageCodes(rawLanguages) : [];
-    const default_language = rawDefaultLanguage ? normalizeLanguageCode(rawDefaultLanguage) : undefined;
+/**
+ * Resolve the options of a single I18n column against a config (the global one by default),
+ * create the additional language columns and return its metadata.
+ */
+function registerI18nColumn(
+  column: PendingColumn,
+  config: I18nGlobalConfig = getI18nConfig()
+): I18nColumnMetadata {
+  const { target, propertyName, options, originalColumn, baseOptions, originalJoinColumn } = column;
+  const entityName = (target.constructor as any).name;
+  const decorator = originalJoinColumn ? 'I18nRelation' : 'I18nColumn';
+
+  // Resolve languages from options, the column's profile, the entity's options or global config.
+  // A profile on the column replaces the languages of the entity.
+  const entity = i18nMetadataStorage.getEntityOptions(target.constructor) ?? {};
+  const entityLanguages: I18nEntityOptions = options.profile ? {} : entity;
+  const profileName = options.profile ?? entityLanguages.profile;
+  const profile: Partial<I18nLanguageProfile> = profileName
+    ? resolveI18nProfile(config, profileName)
+    : config;
+  const rawLanguages = options.languages ?? entityLanguages.languages ?? (profile.languages as readonly string[]);
+  const rawDefaultLanguage =
+    options.default_language ?? entityLanguages.default_language ?? (profile.default_language as string);
+  const rawRequired = options.required ?? entityLanguages.required;
+  const rawFallback = options.fallback ?? entity.fallback;
+
+  const languages = rawLanguages ? normalizeLanguageCodes(rawLanguages) : [];
+  const default_language = rawDefaultLanguage ? normalizeLanguageCode(rawDefaultLanguage) : undefined;
+  const fallback = rawFallback ? normalizeLanguageCode(rawFallback) : undefined;
+  const storage = options.storage ?? 'columns';
+  const namingStrategy = resolveI18nNamingStrategy(
+    options.namingStrategy ?? entity.namingStrategy ?? config.namingStrategy
+  );
+
+  // Validate
+  if (!languages || languages.length === 0) {
+    throw new Error(
+      `${decorator} on ${entityName}.${propertyName} requires at least one language. ` +
+      'Either provide it in the decorator or set it globally via setI18nConfig().'
+    );
+  }
 
-    // Validate
-    if (!languages || languages.length === 0) {
+  if (!default_language) {
+    throw new Error(
+      `${decorator} on ${entityName}.${propertyName} requires a default_language. ` +
+      'Either provide it in the decorator or set it globally via setI18nConfig().'
+    );
+  }
+
+  if (!languages.includes(default_language)) {
+    throw new Error(
+      `default_language "${default_language}" must be included in the languages array`
+    );
+  }
+
+  if (fallback && !languages.includes(fallback)) {
+    throw new Error(
+      `fallback language "${fallback}" of ${decorator} on ${entityName}.${propertyName} ` +
+      'must be included in the languages array'
+    );
+  }
+
+  // Fallback chains of the column extend those of the entity and the configuration.
+  // Those of the column must use its languages, the shared ones are filtered when loading.
+  const columnFallbacks = normalizeI18nFallbacks(options.fallbacks ?? {});
+  for (const language of Object.values(columnFallbacks).flat()) {
+    if (!languages.includes(language)) {
       throw new Error(
-        `I18nColumn on ${(target.constructor as any).name}.${propertyName} requires at least one language. ` +
-        'Either provide it in the decorator or set it globally via setI18nConfig().'
+        `fallbacks of ${decorator} on ${entityName}.${propertyName} have language "${language}" ` +
+        'which is not included in the languages array'
       );
     }
-
-    if (!default_language) {
+  }
+  const fallbacks = {
+    ...config.fallbacks,
+    ...normalizeI18nFallbacks(entity.fallbacks ?? {}),
+    ...columnFallbacks,
+  };
+  const fallbackPolicy = options.fallbackPolicy ?? entity.fallbackPolicy ?? 'chain';
+
+  // Resolve required languages - global ones only apply to languages of this column
+  const required = rawRequired
+    ? normalizeLanguageCodes(rawRequired)
+    : (profile.required ?? config.required ?? []).filter((language) => languages.includes(language));
+  for (const language of required) {
+    if (!languages.includes(language)) {
       throw new Error(
-        `I18nColumn on ${(target.constructor as any).name}.${propertyName} requires a default_language. ` +
-        'Either provide it in the decorator or set it globally via setI18nConfig().'
+        `required language "${language}" of ${decorator} on ${entityName}.${propertyName} ` +
+        'must be included in the languages array'
       );
     }
+  }
 
-    if (!languages.includes(default_language)) {
+  // Resolve retired languages - global ones only apply to languages of this column
+  const retired = (status: 'deprecated' | 'archived'): string[] => {
+    const raw = options[status] ?? entity[status];
+    return raw
+      ? normalizeLanguageCodes(raw as readonly string[])
+      : (config[status] ?? []).filter((language) => languages.includes(language));
+  };
+  const deprecated = retired('deprecated');
+  const archived = retired('archived');
+  for (const [status, statusLanguages] of [['deprecated', deprecated], ['archived', archived]] as const) {
+    for (const language of statusLanguages) {
+      if (!languages.includes(language)) {
+        throw new Error(
+          `${status} language "${language}" of ${decorator} on ${entityName}.${propertyName} ` +
+          'must be included in the languages array'
+        );
+      }
+      if (language === default_language || required.includes(language)) {
+        throw new Error(
+          `${status} language "${language}" of ${decorator} on ${entityName}.${propertyName} ` +
+          'cannot be the default_language or a required language'
+        );
+      }
+      if (status === 'archived' && (deprecated.includes(language) || language === fallback)) {
+        throw new Error(
+          `archived language "${language}" of ${decorator} on ${entityName}.${propertyName} ` +
+          'cannot be deprecated or the fallback language as well'
+        );
+      }
+    }
+  }
+
+  // Resolve per-language column option overrides
+  const perLanguage: Record<string, ColumnOptions> = {};
+  for (const [language, overrides] of Object.entries(options.perLanguage ?? {})) {
+    const normalized = normalizeLanguageCode(language);
+    if (!languages.includes(normalized)) {
       throw new Error(
-        `default_language "${default_language}" must be included in the languages array`
+        `perLanguage of ${decorator} on ${entityName}.${propertyName} has language "${normalized}" ` +
+        'which is not included in the languages array'
       );
     }
+    perLanguage[normalized] = overrides as ColumnOptions;
+  }
 
-    // Update metadata with resolved values
-    i18nMetadataStorage.addMetadata({
-      target: target.constructor,
+  if (storage !== 'columns' && Object.keys(perLanguage).length > 0) {
+    throw new Error(
+      `perLanguage of ${decorator} on ${entityName}.${propertyName} requires storage "columns"`
+    );
+  }
+
+  const meta: I18nColumnMetadata = {
+    target: target.constructor,
+    propertyName,
+    options: {
+      languages,
+      default_language,
+      storage,
+      namingStrategy,
+      required,
+      profile: profileName,
+      fallback,
+      fallbacks,
+      fallbackPolicy,
+      deprecated,
+      archived,
+      transformer: options.transformer,
+      sortKey: options.sortKey === true,
+      searchable: options.searchable,
+    },
+    ...(originalJoinColumn ? { relation: true } : {}),
+  };
+
+  registerI18nIndexes(target.constructor, propertyName, options, languages, (language) =>
+    language === default_language ? propertyName : namingStrategy.translationPropertyName(propertyName, language)
+  );
+
+  if (originalJoinColumn) {
+    registerLanguageRelations(column, meta);
+    return meta;
+  }
+
+  // JSON and table storage don't use per-language columns
+  if (storage !== 'columns') {
+    return meta;
+  }
+
+  const metadataArgsStorage = getMetadataArgsStorage();
+
+  // The default language column is the original column
+  originalColumn.options = {
+    ...baseOptions,
+    ...(required.includes(default_language) ? { nullable: false } : {}),
+    ...perLanguage[default_language],
+  };
+
+  // Create additional columns for non-default languages
+  const additionalLanguages = languages.filter(
+    (lang) => lang !== default_language
+  );
+
+  for (const language of additionalLanguages) {
+    const translationPropertyName = namingStrategy.translationPropertyName(propertyName, language);
+    const translationColumnName = namingStrategy.translationColumnName?.(
       propertyName,
-      options: { languages, default_language },
-    });
+      language,
+      baseOptions?.name
+    );
 
-    // Create additional columns for non-default languages
-    const additionalLanguages = languages.filter(
-      (lang) => lang !== default_language
+    // Check if column already exists to avoid duplicates
+    const exists = metadataArgsStorage.columns.some(
+      (column) =>
+        column.target === target.constructor &&
+        column.propertyName === translationPropertyName
     );
 
-    for (const language of additionalLanguages) {
-      const translationPropertyName = getTranslationColumnName(propertyName, language);
+    if (!exists) {
+      pushGenerated(metadataArgsStorage.columns, target.constructor, {
+        ...originalColumn,
+        propertyName: translationPropertyName,
+        options: {
+          ...baseOptions,
+          name: translationColumnName,
+          nullable: !required.includes(language),
+          ...perLanguage[language],
+        },
+      });
+    }
+  }
 
-      // Check if column already exists to avoid duplicates
-      const exists = metadataArgsStorage.columns.some(
-        (column) =>
-          column.target === target.constructor &&
-          column.propertyName === translationPropertyName
-      );
+  if (meta.options.sortKey) {
+    registerShadowColumns(meta, baseOptions?.name, 'sort', getSortKeyPropertyName);
+  }
+  if (meta.options.searchable) {
+    registerShadowColumns(meta, baseOptions?.name, 'search', getSearchPropertyName);
+  }
 
-      if (!exists) {
-        metadataArgsStorage.columns.push({
-          ...originalColumn,
-          propertyName: translationPropertyName,
-          options: {
-            ...originalColumn.options,
-            nullable: true,
-          },
-        });
-      }
+  return meta;
+}
+
+/**
+ * Create a hidden column next to every language column of an I18n column, named after the
+ * language column (`name_sort`, `name_es_sort`). They are written on save and not loaded.
+ */
+function registerShadowColumns(
+  meta: I18nColumnMetadata,
+  baseColumnName: string | undefined,
+  suffix: string,
+  getPropertyName: (meta: I18nColumnMetadata, language: string) => string
+): void {
+  const { languages, default_language, namingStrategy } = meta.options;
+
+  for (const language of languages) {
+    const languageColumnName =
+      language === default_language
+        ? baseColumnName
+        : namingStrategy.translationColumnName?.(meta.propertyName, language, baseColumnName);
+
+    const propertyName = getPropertyName(meta, language);
+    const columns = getMetadataArgsStorage().columns;
+    if (columns.some((column) => column.target === meta.target && column.propertyName === propertyName)) {
+      continue;
     }
+
+    pushGenerated(columns, meta.target, {
+      target: meta.target,
+      mode: 'regular',
+      propertyName,
+      options: {
+        type: 'text',
+        name: languageColumnName ? `${languageColumnName}_${suffix}` : undefined,
+        nullable: true,
+        select: false,
+      },
+    });
   }
+}
 
-  pendingColumns.length = 0;
-  columnsFinalized = true;
+/**
+ * Check if the languages of a column can be resolved: from its options, the options of its
+ * entity or the global config. Columns with a profile wait for profiles to be configured.
+ */
+function canRegisterI18nColumn(column: PendingColumn, config: I18nGlobalConfig = getI18nConfig()): boolean {
+  const { options } = column;
+  const entity = i18nMetadataStorage.getEntityOptions(column.target.constructor) ?? {};
+
+  if (options.profile) {
+    return config.profiles !== undefined;
+  }
+  if ((options.languages && options.languages.length > 0) || (entity.languages && entity.languages.length > 0)) {
+    return true;
+  }
+  if (entity.profile) {
+    return config.profiles !== undefined;
+  }
+  return !!config.languages && config.languages.length > 0;
+}
+
+/**
+ * Finalize the pending I18n columns whose languages can be resolved now. Called automatically
+ * whenever config is set or can be called manually before DataSource.initialize(). Columns
+ * with a profile stay pending until a config with profiles is set.
+ */
+export function finalizeI18nColumns(): void {
+  const globalConfig = getI18nConfig();
+  const remaining: PendingColumn[] = [];
+
+  for (const pending of pendingColumns) {
+    if (canRegisterI18nColumn(pending, globalConfig)) {
+      i18nMetadataStorage.addMetadata(registerI18nColumn(pending));
+    } else {
+      remaining.push(pending);
+    }
+  }
+
+  pendingColumns.splice(0, pendingColumns.length, ...remaining);
 }
 
 /**
@@ -117,17 +530,82 @@ export function finalizeI18nColumns(): void {
  * @internal
  */
 export function resetI18nColumnsFinalization(): void {
-  columnsFinalized = false;
   pendingColumns.length = 0;
 }
 
+/**
+ * Get entity classes with their parent classes and the classes of their embeddeds, the
+ * classes whose metadata args TypeORM reads to build the entities.
+ */
+function getBuiltClasses(entities: Function[]): Set<Function> {
+  const classes = new Set<Function>();
+  const visit = (entity: Function): void => {
+    for (const cls of getInheritanceTree(entity)) {
+      if (classes.has(cls)) {
+        continue;
+      }
+      classes.add(cls);
+      for (const embedded of getMetadataArgsStorage().filterEmbeddeds(cls)) {
+        const type = embedded.type();
+        if (typeof type === 'function') {
+          visit(type);
+        }
+      }
+    }
+  };
+
+  entities.forEach(visit);
+  return classes;
+}
+
+/**
+ * Run `build` with the language columns of the I18n columns of some entities generated for
+ * another config than the global one, then restore the global language columns. TypeORM builds
+ * entity metadata from its process-wide metadata args, so this is how DataSources get their own
+ * language columns (see attachI18nConfig()).
+ *
+ * `build` must be synchronous: the global metadata args are only replaced while it runs, so
+ * DataSources initializing at the same time never see them.
+ *
+ * @param config - The normalized config to generate the language columns for
+ * @param entities - The entity classes to build (their parent and embedded classes are included)
+ * @param build - Builds the entity metadata, receiving the I18n metadata for the config
+ * @internal
+ */
+export function withI18nColumns<T>(
+  config: I18nGlobalConfig,
+  entities: Function[],
+  build: (metadata: I18nColumnMetadata[]) => T
+): T {
+  const classes = getBuiltClasses(entities);
+  const columns = declaredColumns.filter((column) => classes.has(column.target.constructor));
+  const argLists = getGeneratedArgLists();
+  const savedArgs = argLists.map((args) => [...args]);
+  const savedOptions = columns.map((column) => column.originalColumn?.options);
+
+  try {
+    for (const args of argLists) {
+      args.splice(0, args.length, ...args.filter((arg) => !classes.has(generatedArgs.get(arg) as Function)));
+    }
+
+    return build(columns.map((column) => registerI18nColumn(column, config)));
+  } finally {
+    argLists.forEach((args, index) => args.splice(0, args.length, ...savedArgs[index]));
+    columns.forEach((column, index) => {
+      if (column.originalColumn) {
+        column.originalColumn.options = savedOptions[index];
+      }
+    });
+  }
+}
+
 /**
  * Decorator for marking a column as translatable with strong type support.
  *
  * This decorator automatically creates additional database columns for each specified language
  * and applies the @Column decorator, so you don't need to use both decorators.
  * The default language uses the base column name, while other languages use the pattern:
- * {columnName}_{languageCode}
+ * {columnName}_{languageCode} (configurable with `namingStrategy`)
  *
  * @template T - Union type of supported language codes
  * @param options - Configuration options for the I18n column (includes all TypeORM ColumnOptions)
@@ -149,6 +627,17 @@ export function resetI18nColumnsFinalization(): void {
  * ```
  *
  * This will create columns: name (for 'en'), name_es, name_cn
+ *
+ * With `storage: 'json'` all translations are kept in the single `name` column
+ * instead (use `jsonb` on PostgreSQL, `json` on MySQL, `simple-json`, `json` or `text` on SQLite):
+ *
+ * ```typescript
+ * @I18nColumn({ storage: 'json', type: 'jsonb' })
+ * name: string;
+ * ```
+ *
+ * With `storage: 'table'` translations are kept in a companion `product_translation`
+ * table instead, see getI18nTranslationEntity().
  */
 export function I18nColumn<T extends string>(
   options: I18nColumnOptions<T>
@@ -162,103 +651,242 @@ export function I18nColumn<T extends string>(
       throw new Error('I18nColumn requires a type to be specified (e.g., "varchar", "text", "int")');
     }
 
-    // Extract i18n-specific options from the original options object
-    const { languages: _langs, default_language: _defLang, ...columnOptions } = options;
+    if (
+      options.storage === 'json' &&
+      !JSON_COLUMN_TYPES.includes(options.type) &&
+      options.type !== JSON_TEXT_COLUMN_TYPE
+    ) {
+      throw new Error(
+        `I18nColumn on ${target.constructor.name}.${propertyName} uses storage "json" and requires ` +
+        `a JSON column type (${JSON_COLUMN_TYPES.map((type) => `"${type}"`).join(', ')}) ` +
+        `or "${JSON_TEXT_COLUMN_TYPE}"`
+      );
+    }
 
-    // Apply @Column decorator for the default language (always needed)
-    Column(columnOptions as ColumnOptions)(target, propertyName);
+    if ((options.index || options.unique) && options.storage === 'json') {
+      throw new Error(
+        `I18nColumn on ${target.constructor.name}.${propertyName} uses storage "json" ` +
+        'which does not support the index and unique options'
+      );
+    }
 
-    // Get TypeORM's metadata storage
-    const metadataArgsStorage = getMetadataArgsStorage();
+    for (const option of ['sortKey', 'searchable'] as const) {
+      if (options[option] && options.storage && options.storage !== 'columns') {
+        throw new Error(
+          `I18nColumn on ${target.constructor.name}.${propertyName} uses storage "${options.storage}" ` +
+          `which does not support the ${option} option`
+        );
+      }
+    }
 
-    // Find the original column definition we just created
-    const originalColumn = metadataArgsStorage.columns.find(
-      (column) =>
-        column.target === target.constructor && column.propertyName === propertyName
+    const indexColumns = [options.index, options.unique].some(
+      (indexOption) => typeof indexOption === 'object' && indexOption.columns?.length
     );
-
-    if (!originalColumn) {
+    if (indexColumns && options.storage === 'table') {
       throw new Error(
-        `Failed to create column for ${target.constructor.name}.${propertyName}`
+        `I18nColumn on ${target.constructor.name}.${propertyName} uses storage "table" ` +
+        'which does not support composite index columns'
       );
     }
 
-    // Check if global config is already set
-    const globalConfig = getI18nConfig();
-    const hasConfig = (options.languages && options.languages.length > 0) ||
-                      (globalConfig.languages && globalConfig.languages.length > 0);
+    // Extract i18n-specific options from the original options object
+    const {
+      languages: _langs,
+      default_language: _defLang,
+      profile: _profile,
+      storage: _storage,
+      namingStrategy: _namingStrategy,
+      perLanguage: _perLanguage,
+      required: _required,
+      fallback: _fallback,
+      fallbacks: _fallbacks,
+      fallbackPolicy: _fallbackPolicy,
+      deprecated: _deprecated,
+      archived: _archived,
+      index: _index,
+      unique: _unique,
+      sortKey: _sortKey,
+      searchable: _searchable,
+      translationTable,
+      ...columnOptions
+    } = options;
+
+    if (options.storage === 'table') {
+      // Translations live in the companion entity - one nullable column per property
+      const translationEntity = registerTranslationEntity(target.constructor, translationTable);
+      Column({ ...columnOptions, nullable: true } as ColumnOptions)(
+        translationEntity.prototype,
+        propertyName
+      );
+    }
 
-    if (hasConfig) {
-      // Config available - create columns immediately
-      const rawLanguages = options.languages ?? (globalConfig.languages as readonly T[]);
-      const rawDefaultLanguage = options.default_language ?? (globalConfig.default_language as T);
+    // Get TypeORM's metadata storage
+    const metadataArgsStorage = getMetadataArgsStorage();
 
-      const languages = rawLanguages ? normalizeLanguageCodes(rawLanguages) as T[] : [];
-      const default_language = rawDefaultLanguage
-        ? (normalizeLanguageCode(rawDefaultLanguage) as T)
-        : undefined;
+    // Apply @Column decorator for the default language (not needed for table storage).
+    // The values inside a JSON column are transformed per language instead of the whole object.
+    // A text JSON column is a simple-json column, which TypeORM stores as text on every database.
+    let originalColumn: any;
+    if (options.storage !== 'table') {
+      const { transformer: _transformer, ...defaultColumnOptions } = columnOptions;
+      const jsonColumnOptions =
+        options.type === JSON_TEXT_COLUMN_TYPE
+          ? { ...defaultColumnOptions, type: 'simple-json' }
+          : defaultColumnOptions;
+      Column((options.storage === 'json' ? jsonColumnOptions : columnOptions) as ColumnOptions)(
+        target,
+        propertyName
+      );
 
-      // Validate
-      if (!languages || languages.length === 0) {
-        throw new Error(
-          `I18nColumn on ${target.constructor.name}.${propertyName} requires at least one language. ` +
-          'Either provide it in the decorator or set it globally via setI18nConfig().'
-        );
-      }
+      // Find the original column definition we just created
+      originalColumn = metadataArgsStorage.columns.find(
+        (column) =>
+          column.target === target.constructor && column.propertyName === propertyName
+      );
 
-      if (!default_language) {
+      if (!originalColumn) {
         throw new Error(
-          `I18nColumn on ${target.constructor.name}.${propertyName} requires a default_language. ` +
-          'Either provide it in the decorator or set it globally via setI18nConfig().'
+          `Failed to create column for ${target.constructor.name}.${propertyName}`
         );
       }
+    }
 
-      if (!languages.includes(default_language)) {
-        throw new Error(
-          `default_language "${default_language}" must be included in the languages array`
-        );
-      }
+    const column: PendingColumn = {
+      target,
+      propertyName,
+      options,
+      originalColumn,
+      baseOptions: originalColumn?.options,
+    };
 
-      // Store metadata
-      i18nMetadataStorage.addMetadata({
-        target: target.constructor,
-        propertyName,
-        options: { languages, default_language },
-      });
+    if (canRegisterI18nColumn(column)) {
+      // Config available - create columns immediately
+      i18nMetadataStorage.addMetadata(registerI18nColumn(column));
+    } else {
+      // Config not available yet - queue for later
+      pendingColumns.push(column);
+    }
+    // Declared once its options are valid, as other configurations register it again
+    declaredColumns.push(column);
+  };
+}
 
-      // Create additional columns for non-default languages
-      const additionalLanguages = languages.filter(
-        (lang) => lang !== default_language
-      );
+/**
+ * Decorator for a translatable many-to-one relation: a different related entity per language.
+ *
+ * Like @I18nColumn, the default language uses the relation itself, while other languages get
+ * their own relation and foreign key ({propertyName}_{languageCode}, configurable with
+ * `namingStrategy`), so you don't need @ManyToOne and @JoinColumn. Loaded entities expose the
+ * related entity of the current language and all of them in the translations property.
+ *
+ * @template T - Union type of supported language codes
+ * @param typeFunctionOrTarget - The related entity, as for @ManyToOne
+ * @param options - Language options and TypeORM relation options of the relation of every language
+ *
+ * @example
+ * ```typescript
+ * @Entity()
+ * class Product {
+ *   @I18nRelation(() => Image, { languages: ['en', 'es'], default_language: 'en', joinColumn: 'hero_image_id' })
+ *   heroImage: Image;
+ *
+ *   heroImageTranslations?: I18nValue<'en' | 'es', Image>;
+ * }
+ * ```
+ *
+ * This will create the foreign keys: hero_image_id (for 'en') and hero_image_id_es
+ */
+export function I18nRelation<T extends string>(
+  typeFunctionOrTarget: string | ((type?: any) => ObjectType<unknown>),
+  options: I18nRelationOptions<T> = {}
+): PropertyDecorator {
+  return function (target: Object, propertyName: string | symbol) {
+    if (typeof propertyName !== 'string') {
+      throw new Error('I18nRelation can only be applied to string property names');
+    }
 
-      for (const language of additionalLanguages) {
-        const translationPropertyName = getTranslationColumnName(propertyName, language);
+    // Apply @ManyToOne and @JoinColumn for the default language
+    ManyToOne(typeFunctionOrTarget, getRelationOptions(options))(target, propertyName);
+    JoinColumn({ name: options.joinColumn })(target, propertyName);
 
-        const exists = metadataArgsStorage.columns.some(
-          (column) =>
-            column.target === target.constructor &&
-            column.propertyName === translationPropertyName
-        );
+    const { relations, joinColumns } = getMetadataArgsStorage();
+    const isProperty = (args: { target: Function | string; propertyName: string }) =>
+      args.target === target.constructor && args.propertyName === propertyName;
 
-        if (!exists) {
-          metadataArgsStorage.columns.push({
-            ...originalColumn,
-            propertyName: translationPropertyName,
-            options: {
-              ...originalColumn.options,
-              nullable: true,
-            },
-          });
+    const column: PendingColumn = {
+      target,
+      propertyName,
+      options: options as I18nColumnOptions<any>,
+      originalColumn: relations.find(isProperty),
+      originalJoinColumn: joinColumns.find(isProperty),
+    };
+
+    if (canRegisterI18nColumn(column)) {
+      i18nMetadataStorage.addMetadata(registerI18nColumn(column));
+    } else {
+      pendingColumns.push(column);
+    }
+    declaredColumns.push(column);
+  };
+}
+
+/**
+ * Interface for entities with I18n support, merged with the @I18nEntity decorator.
+ * Entities using @I18nColumn will have these internal properties set.
+ */
+export interface I18nEntity extends I18nEntityState {}
+
+/**
+ * Class decorator setting defaults for all I18n columns of an entity, so its columns
+ * can't drift to different language sets. Its options take precedence over the global
+ * configuration (and the configuration of a DataSource), while options given on an
+ * @I18nColumn still win. Subclasses inherit the options and can override them.
+ *
+ * The entity is registered with i18nMetadataStorage right away, and its columns don't
+ * wait for setI18nConfig() when `languages` are given here.
+ *
+ * @template T - Union type of supported language codes
+ * @param options - Defaults for the I18n columns of the entity
+ *
+ * @example
+ * ```typescript
+ * @I18nEntity({ languages: ['en', 'es', 'fr'], default_language: 'en', fallback: 'en' })
+ * @Entity()
+ * class Product {
+ *   @I18nColumn({ type: 'varchar', length: 255 })
+ *   name: string;
+ *
+ *   @I18nColumn({ type: 'text', required: ['en'] })
+ *   description: string;
+ * }
+ * ```
+ */
+export function I18nEntity<T extends string>(options: I18nEntityOptions<T>): ClassDecorator {
+  return function (target: Function) {
+    i18nMetadataStorage.setEntityOptions(target, options);
+
+    // Property decorators run first, so the columns may be registered with the global config.
+    // Register them again with the options of the entity.
+    for (const args of getGeneratedArgLists()) {
+      args.splice(0, args.length, ...args.filter((arg) => generatedArgs.get(arg) !== target));
+    }
+    i18nMetadataStorage.removeMetadata(target);
+
+    for (const column of declaredColumns) {
+      if (column.target.constructor !== target) {
+        continue;
+      }
+
+      const pendingIndex = pendingColumns.indexOf(column);
+      if (canRegisterI18nColumn(column)) {
+        if (pendingIndex !== -1) {
+          pendingColumns.splice(pendingIndex, 1);
         }
+        i18nMetadataStorage.addMetadata(registerI18nColumn(column));
+      } else if (pendingIndex === -1) {
+        // Registered with the global config, but the profile of the entity isn't configured yet
+        pendingColumns.push(column);
       }
-    } else {
-      // Config not available yet - queue for later
-      pendingColumns.push({
-        target,
-        propertyName,
-        options,
-        originalColumn,
-      });
     }
   };
 }
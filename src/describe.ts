@@ -0,0 +1,181 @@
+import { DataSource, EntityMetadata } from 'typeorm';
+import { ColumnMetadata } from 'typeorm/metadata/ColumnMetadata';
+import { getI18nPropertyPaths } from './migration';
+import { getTranslationPropertyName } from './naming-strategy';
+import { getI18nTranslationEntity } from './translation-table';
+import { I18nColumnMetadata, I18nLanguageStatus, I18nStorageStrategy } from './types';
+import { getI18nLanguageStatus } from './validation';
+
+/**
+ * Where one language of an I18n property is stored
+ */
+export interface I18nLanguageColumnDescriptor {
+  /** Language code (e.g. "es") */
+  language: string;
+  /** Lifecycle status of the language */
+  status: I18nLanguageStatus;
+  /** Whether a translation is required in this language */
+  required: boolean;
+  /** Entity property holding the language (e.g. "name_es"), the property itself for JSON and table storage */
+  property: string;
+  /** Table holding the language: the entity's table, or the translation table for table storage */
+  table: string;
+  /** Database column holding the language (e.g. "name_es"), the foreign key for relations */
+  column: string;
+  /** Key of the language inside the JSON column (JSON storage only) */
+  jsonKey?: string;
+  /** Translation row locale (table storage only) */
+  locale?: string;
+  /** Whether the column is nullable */
+  nullable: boolean;
+}
+
+/**
+ * Translatable property of an entity
+ */
+export interface I18nPropertyDescriptor {
+  /** Property path from the entity (e.g. "name", or "seo.title" inside an embedded) */
+  property: string;
+  /** Property holding all translations (e.g. "nameTranslations") */
+  translationsKey: string;
+  /** How the translations are stored */
+  storage: I18nStorageStrategy;
+  /** Whether the property is an @I18nRelation */
+  relation: boolean;
+  /** Database column type, as normalized by the driver (e.g. "varchar"), the foreign key type for relations */
+  type: string;
+  /** Column length, if any */
+  length?: number;
+  /** Languages of the property */
+  languages: string[];
+  /** Default language */
+  defaultLanguage: string;
+  /** Languages that must have a translation */
+  required: string[];
+  /** Fallback language of loaded entities, if any */
+  fallback?: string;
+  /** Where each language is stored, in the order of `languages` */
+  columns: I18nLanguageColumnDescriptor[];
+}
+
+/**
+ * Translatable properties of an entity, as returned by describeI18nEntity()
+ */
+export interface I18nEntityDescriptor {
+  /** Entity class name (e.g. "Product") */
+  entity: string;
+  /** Table of the entity */
+  table: string;
+  /** Companion translation table, when properties use table storage */
+  translationTable?: string;
+  /** Translatable properties in declaration order */
+  properties: I18nPropertyDescriptor[];
+}
+
+/**
+ * Find the database column of an I18n property in a language
+ */
+function findLanguageColumn(
+  entityMetadata: EntityMetadata,
+  meta: I18nColumnMetadata,
+  pathPrefix: string,
+  language: string
+): ColumnMetadata | undefined {
+  if (meta.options.storage !== 'columns') {
+    return entityMetadata.findColumnWithPropertyPath(`${pathPrefix}${meta.propertyName}`);
+  }
+
+  const propertyPath = `${pathPrefix}${getTranslationPropertyName(meta, language)}`;
+  if (meta.relation) {
+    return entityMetadata.findRelationWithPropertyPath(propertyPath)?.joinColumns[0];
+  }
+  return entityMetadata.findColumnWithPropertyPath(propertyPath);
+}
+
+/**
+ * Describe the translatable properties of an entity: their languages and the table and
+ * database column of each language, with the column type, length and nullability.
+ * Names are resolved with the DataSource's naming strategies and configuration, so tooling
+ * doesn't need to derive them.
+ *
+ * @param target - The entity class
+ * @param dataSource - An initialized DataSource the entity is registered with
+ * @returns A descriptor that can be serialized as JSON
+ *
+ * @example
+ * ```typescript
+ * const descriptor = describeI18nEntity(Product, dataSource);
+ * // {
+ * //   entity: 'Product',
+ * //   table: 'product',
+ * //   properties: [{
+ * //     property: 'name',
+ * //     translationsKey: 'nameTranslations',
+ * //     storage: 'columns',
+ * //     type: 'varchar',
+ * //     length: 255,
+ * //     languages: ['en', 'es'],
+ * //     columns: [
+ * //       { language: 'en', property: 'name', table: 'product', column: 'name', nullable: false, ... },
+ * //       { language: 'es', property: 'name_es', table: 'product', column: 'name_es', nullable: true, ... },
+ * //     ],
+ * //     ...
+ * //   }],
+ * // }
+ * ```
+ */
+export function describeI18nEntity(target: Function, dataSource: DataSource): I18nEntityDescriptor {
+  const entityMetadata = dataSource.getMetadata(target);
+  const paths = getI18nPropertyPaths(entityMetadata);
+  const translationMetadata = paths.some(({ meta }) => meta.options.storage === 'table')
+    ? dataSource.getMetadata(getI18nTranslationEntity(target))
+    : undefined;
+
+  const properties = paths.map(({ meta, pathPrefix }): I18nPropertyDescriptor => {
+    const { languages, default_language, required, fallback, storage } = meta.options;
+    const holder = storage === 'table' ? translationMetadata! : entityMetadata;
+    const propertyPrefix = storage === 'table' ? '' : pathPrefix;
+    const baseColumn = findLanguageColumn(holder, meta, propertyPrefix, default_language);
+    if (!baseColumn) {
+      throw new Error(`${entityMetadata.name}.${pathPrefix}${meta.propertyName} has no column in the DataSource`);
+    }
+
+    const columns = languages.map((language): I18nLanguageColumnDescriptor => {
+      const column = findLanguageColumn(holder, meta, propertyPrefix, language) ?? baseColumn;
+      const property = storage === 'columns' ? getTranslationPropertyName(meta, language) : meta.propertyName;
+      return {
+        language,
+        status: getI18nLanguageStatus(meta, language),
+        required: required.includes(language),
+        property: `${pathPrefix}${property}`,
+        table: holder.tablePath,
+        column: column.databaseName,
+        ...(storage === 'json' ? { jsonKey: language } : {}),
+        ...(storage === 'table' ? { locale: language } : {}),
+        nullable: column.isNullable,
+      };
+    });
+
+    const length = Number(baseColumn.length);
+    return {
+      property: `${pathPrefix}${meta.propertyName}`,
+      translationsKey: `${pathPrefix}${meta.propertyName}Translations`,
+      storage,
+      relation: meta.relation === true,
+      type: dataSource.driver.normalizeType(baseColumn),
+      ...(baseColumn.length && !Number.isNaN(length) ? { length } : {}),
+      languages: [...languages],
+      defaultLanguage: default_language,
+      required: [...required],
+      ...(fallback ? { fallback } : {}),
+      columns,
+    };
+  });
+
+  return {
+    entity: entityMetadata.name,
+    table: entityMetadata.tablePath,
+    ...(translationMetadata ? { translationTable: translationMetadata.tablePath } : {}),
+    properties,
+  };
+}
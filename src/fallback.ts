@@ -0,0 +1,49 @@
+import { normalizeLanguageCode } from './language-utils';
+import { matchColumnLanguage } from './naming-strategy';
+import { I18nColumnMetadata, I18nFallbacks } from './types';
+
+/**
+ * Key of the fallback chain of languages without a chain of their own
+ */
+const ANY_LANGUAGE = '*';
+
+/**
+ * Normalize the language codes of fallback chains (the `*` key is kept).
+ * @internal
+ */
+export function normalizeI18nFallbacks(fallbacks: I18nFallbacks): Record<string, string[]> {
+  return Object.fromEntries(
+    Object.entries(fallbacks).map(([language, chain]) => [
+      language === ANY_LANGUAGE ? language : normalizeLanguageCode(language),
+      chain.map((fallback) => normalizeLanguageCode(fallback)),
+    ])
+  );
+}
+
+/**
+ * Get the fallback chain of a language: its own chain, or the `*` chain when it has none.
+ * The language itself is left out.
+ * @internal
+ */
+export function getFallbackChain(fallbacks: I18nFallbacks, language: string): string[] {
+  const normalized = normalizeLanguageCode(language);
+  const chain = fallbacks[normalized] ?? fallbacks[ANY_LANGUAGE] ?? [];
+  return chain.filter((fallback) => normalizeLanguageCode(fallback) !== normalized);
+}
+
+/**
+ * Get the languages an I18n column falls back to when a language has no translation:
+ * the chain of the requested language (or of the language it resolves to), then the
+ * column's `fallback` language, skipping languages the column doesn't load.
+ * @internal
+ */
+export function getColumnFallbackChain(meta: I18nColumnMetadata, requestedLanguage: string): string[] {
+  const { languages, archived, fallbacks, fallback } = meta.options;
+  const language = matchColumnLanguage(meta, requestedLanguage);
+  const normalized = normalizeLanguageCode(requestedLanguage);
+  const chain = getFallbackChain(fallbacks, fallbacks[normalized] || !language ? normalized : language);
+
+  return [...new Set([...chain, ...(fallback ? [fallback] : [])])].filter(
+    (candidate) => candidate !== language && languages.includes(candidate) && !archived.includes(candidate)
+  );
+}
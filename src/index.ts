@@ -13,24 +13,57 @@ export type {
   I18nValue,
   I18nColumnOptions,
   I18nColumnMetadata,
-  I18nEntity,
+  I18nEntityOptions,
+  I18nFallbackPolicy,
+  I18nFallbacks,
+  I18nLanguageCode,
+  I18nLanguageStatus,
+  I18nRelationOptions,
+  I18nResolvedLanguage,
+  I18nSearchableOptions,
+  I18nSearchNormalization,
+  I18nStorageStrategy,
+  I18nTranslations,
+  I18nWhere,
   TranslationsKey,
+  WithI18n,
 } from './types';
-export type { I18nGlobalConfig } from './config';
+export type { I18nGlobalConfig, I18nLanguageProfile } from './config';
+export type { I18nNamingStrategy } from './naming-strategy';
+export type { I18nMissingTranslation } from './validation';
+export type {
+  I18nSchemaIssue,
+  I18nSchemaIssueType,
+  I18nSchemaValidationResult,
+} from './schema-validation';
+export type { I18nMigration, I18nMigrationOptions, I18nMigrationQuery } from './migration';
+export type { I18nSearchOptions, I18nSearchResult } from './search';
+export type { I18nViewMigration, I18nViewOptions } from './views';
+export type { I18nEntityDescriptor, I18nLanguageColumnDescriptor, I18nPropertyDescriptor } from './describe';
+
+// Export symbols and typed where helpers
+export { I18N_LANGUAGE_KEY, I18N_RESOLVED_LANGUAGES_KEY, i18nWhere, i18nWhereMany } from './types';
 
-// Export symbols
-export { I18N_LANGUAGE_KEY } from './types';
+// Export decorators (I18nEntity is also the interface of entities with I18n support)
+export { I18nColumn, I18nRelation, I18nEntity, getTranslationColumnName } from './decorator';
 
-// Export decorator
-export { I18nColumn, getTranslationColumnName } from './decorator';
+// Export naming strategies
+export {
+  DefaultI18nNamingStrategy,
+  PrefixI18nNamingStrategy,
+  CamelCaseI18nNamingStrategy,
+} from './naming-strategy';
 
 // Export configuration
-export { setI18nConfig, getI18nConfig, resetI18nConfig } from './config';
+export { setI18nConfig, getI18nConfig, getI18nProfile, resetI18nConfig } from './config';
+export { attachI18nConfig, getI18nDataSourceConfig } from './data-source';
 
 // Export utilities
 export {
   createI18nValue,
   getTranslation,
+  getResolvedLanguage,
+  isFallback,
   flattenI18nValue,
   transformAfterLoad,
   transformBeforeSave,
@@ -40,6 +73,26 @@ export {
 
 // Language utilities are internal - language codes are normalized automatically
 
+// Export translation table helpers
+export { getI18nTranslationEntity } from './translation-table';
+
+// Export validation
+export {
+  I18nValidationError,
+  I18nLanguageStatusError,
+  I18nMissingTranslationError,
+  I18nUnknownLanguageError,
+  findMissingI18nTranslations,
+} from './validation';
+
+// Export migration generator and schema validation
+export { generateI18nMigration } from './migration';
+export { generateI18nViews } from './views';
+export { validateI18nSchema } from './schema-validation';
+
+// Export metadata introspection
+export { describeI18nEntity } from './describe';
+
 // Export subscriber
 export { I18nSubscriber } from './subscriber';
 
@@ -51,4 +104,4 @@ export { I18nQueryBuilder } from './query-builder';
 export { i18nMetadataStorage } from './metadata';
 
 // Export constants
-export { LANGUAGE_DELIMITER, I18N_METADATA_KEY } from './constants';
+export { LANGUAGE_DELIMITER, I18N_METADATA_KEY, I18N_TRANSLATIONS_RELATION } from './constants';
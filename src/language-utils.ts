@@ -1,31 +1,56 @@
 /**
- * Normalizes a language code to lowercase.
+ * Normalizes a language code to a canonical BCP 47 tag.
+ * The language is lowercased, a script is title-cased and a region uppercased;
+ * extension and private use subtags are lowercased. Underscores are accepted as separators.
  * This ensures consistent handling of language codes regardless of input case.
  *
- * @param language - The language code to normalize (e.g., 'EN', 'Es', 'fr')
- * @returns The normalized lowercase language code (e.g., 'en', 'es', 'fr')
+ * @param language - The language code to normalize (e.g., 'EN', 'pt_br', 'zh-hant-tw')
+ * @returns The canonical language tag (e.g., 'en', 'pt-BR', 'zh-Hant-TW')
  *
  * @example
  * ```typescript
- * normalizeLanguageCode('EN');  // 'en'
- * normalizeLanguageCode('Es');  // 'es'
- * normalizeLanguageCode('fr');  // 'fr'
- * normalizeLanguageCode('ZH-CN'); // 'zh-cn'
+ * normalizeLanguageCode('EN');         // 'en'
+ * normalizeLanguageCode('Es');         // 'es'
+ * normalizeLanguageCode('ZH-CN');      // 'zh-CN'
+ * normalizeLanguageCode('zh_hant_tw'); // 'zh-Hant-TW'
  * ```
  */
 export function normalizeLanguageCode(language: string): string {
-  return language.toLowerCase();
+  let inExtension = false;
+
+  return language
+    .trim()
+    .split(/[-_]/)
+    .map((subtag, index) => {
+      const lower = subtag.toLowerCase();
+      if (index === 0 || inExtension) {
+        return lower;
+      }
+      if (subtag.length === 1) {
+        // Extension (e.g. "u") or private use ("x") singleton: the rest stays lowercase
+        inExtension = true;
+        return lower;
+      }
+      if (/^[a-z]{4}$/i.test(subtag)) {
+        return lower.charAt(0).toUpperCase() + lower.slice(1);
+      }
+      if (/^[a-z]{2}$/i.test(subtag)) {
+        return subtag.toUpperCase();
+      }
+      return lower;
+    })
+    .join('-');
 }
 
 /**
- * Normalizes an array of language codes to lowercase.
+ * Normalizes an array of language codes to canonical BCP 47 tags.
  *
  * @param languages - Array of language codes to normalize
- * @returns Array of normalized lowercase language codes
+ * @returns Array of canonical language tags
  *
  * @example
  * ```typescript
- * normalizeLanguageCodes(['EN', 'ES', 'FR']); // ['en', 'es', 'fr']
+ * normalizeLanguageCodes(['EN', 'pt-br', 'PT-pt']); // ['en', 'pt-BR', 'pt-PT']
  * ```
  */
 export function normalizeLanguageCodes<T extends string>(
@@ -33,3 +58,53 @@ export function normalizeLanguageCodes<T extends string>(
 ): T[] {
   return languages.map((lang) => normalizeLanguageCode(lang) as T);
 }
+
+/**
+ * Converts a language tag to a suffix that is safe in column and property names,
+ * so no dialect needs the column to be quoted.
+ *
+ * @param language - The language tag (e.g., 'zh-Hant-TW')
+ * @returns The lowercase suffix with subtags joined by underscores (e.g., 'zh_hant_tw')
+ *
+ * @example
+ * ```typescript
+ * languageColumnSuffix('es');         // 'es'
+ * languageColumnSuffix('pt-BR');      // 'pt_br'
+ * languageColumnSuffix('zh-Hant-TW'); // 'zh_hant_tw'
+ * ```
+ */
+export function languageColumnSuffix(language: string): string {
+  return language.toLowerCase().replace(/[^a-z0-9]+/g, '_');
+}
+
+/**
+ * Finds the available language that best matches a requested language tag:
+ * the same tag, then the tag with its last subtags removed (`zh-Hant-TW` → `zh-Hant` → `zh`),
+ * then another regional variant of the same language (`pt` → `pt-BR`).
+ *
+ * @param language - The requested language tag (any case, `-` or `_` separated)
+ * @param available - The available language tags
+ * @returns The matching available language, or undefined when there is none
+ *
+ * @example
+ * ```typescript
+ * matchLanguage('pt-br', ['en', 'pt-BR', 'pt-PT']); // 'pt-BR'
+ * matchLanguage('es-MX', ['en', 'es']);             // 'es'
+ * matchLanguage('pt', ['en', 'pt-BR', 'pt-PT']);    // 'pt-BR'
+ * matchLanguage('de-DE', ['en', 'es']);             // undefined
+ * ```
+ */
+export function matchLanguage<T extends string>(language: string, available: readonly T[]): T | undefined {
+  const key = (tag: string) => normalizeLanguageCode(tag).toLowerCase();
+  const byKey = new Map(available.map((tag) => [key(tag), tag] as const));
+  const subtags = key(language).split('-');
+
+  for (let length = subtags.length; length > 0; length--) {
+    const match = byKey.get(subtags.slice(0, length).join('-'));
+    if (match !== undefined) {
+      return match;
+    }
+  }
+
+  return available.find((tag) => key(tag).split('-')[0] === subtags[0]);
+}
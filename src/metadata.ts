@@ -1,5 +1,20 @@
 import 'reflect-metadata';
-import { I18nColumnMetadata } from './types';
+import { DataSource, getMetadataArgsStorage } from 'typeorm';
+import { I18nColumnMetadata, I18nEmbeddedMetadata, I18nEntityOptions } from './types';
+
+/**
+ * Get a class followed by its parent classes, as TypeORM resolves inherited columns.
+ * @internal
+ */
+export function getInheritanceTree(target: Function): Function[] {
+  const tree = [target];
+  let parent = Object.getPrototypeOf(target);
+  while (typeof parent === 'function' && parent !== Function.prototype) {
+    tree.push(parent);
+    parent = Object.getPrototypeOf(parent);
+  }
+  return tree;
+}
 
 /**
  * Storage for I18n column metadata
@@ -7,6 +22,16 @@ import { I18nColumnMetadata } from './types';
 class I18nMetadataStorage {
   private metadata = new Map<Function, I18nColumnMetadata[]>();
 
+  /**
+   * Options of entities decorated with @I18nEntity
+   */
+  private entityOptions = new Map<Function, I18nEntityOptions>();
+
+  /**
+   * Metadata resolved against the configuration of DataSources with their own configuration
+   */
+  private dataSourceMetadata = new WeakMap<DataSource, Map<Function, I18nColumnMetadata[]>>();
+
   /**
    * Add metadata for an I18n column
    */
@@ -17,25 +42,140 @@ class I18nMetadataStorage {
   }
 
   /**
-   * Get all I18n column metadata for a specific entity
+   * Remove the metadata of the I18n columns declared in an entity class, to register them again
+   * @internal
+   */
+  removeMetadata(target: Function): void {
+    this.metadata.delete(target);
+  }
+
+  /**
+   * Register an entity decorated with @I18nEntity with its options
+   * @internal
+   */
+  setEntityOptions(target: Function, options: I18nEntityOptions): void {
+    this.entityOptions.set(target, options);
+  }
+
+  /**
+   * Get the @I18nEntity options of an entity, merged with the options of its parent classes
+   */
+  getEntityOptions(target: Function): I18nEntityOptions | undefined {
+    let result: I18nEntityOptions | undefined;
+    for (const cls of getInheritanceTree(target).reverse()) {
+      const options = this.entityOptions.get(cls);
+      if (options) {
+        result = { ...result, ...options };
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Check if an entity or one of its parent classes is decorated with @I18nEntity,
+   * whether or not its I18n columns are registered yet
+   */
+  isI18nEntity(target: Function): boolean {
+    return getInheritanceTree(target).some((cls) => this.entityOptions.has(cls));
+  }
+
+  /**
+   * Replace the metadata of a DataSource with its own configuration (see attachI18nConfig())
+   * @internal
    */
-  getMetadata(target: Function): I18nColumnMetadata[] {
-    return this.metadata.get(target) || [];
+  setDataSourceMetadata(dataSource: DataSource, metadata: I18nColumnMetadata[]): void {
+    const byTarget = new Map<Function, I18nColumnMetadata[]>();
+    for (const meta of metadata) {
+      byTarget.set(meta.target, [...(byTarget.get(meta.target) || []), meta]);
+    }
+    this.dataSourceMetadata.set(dataSource, byTarget);
+  }
+
+  /**
+   * Get all I18n column metadata for a specific entity, including the columns inherited
+   * from parent classes (abstract base classes and `@TableInheritance` parents).
+   * A column redeclared on a subclass overrides the inherited one.
+   * With a DataSource that has its own configuration, its languages are used.
+   */
+  getMetadata(target: Function, dataSource?: DataSource): I18nColumnMetadata[] {
+    const metadata = (dataSource && this.dataSourceMetadata.get(dataSource)) || this.metadata;
+    const result: I18nColumnMetadata[] = [];
+    for (const cls of getInheritanceTree(target).reverse()) {
+      for (const meta of metadata.get(cls) || []) {
+        const index = result.findIndex((m) => m.propertyName === meta.propertyName);
+        if (index === -1) {
+          result.push(meta);
+        } else {
+          result[index] = meta;
+        }
+      }
+    }
+    return result;
   }
 
   /**
    * Get metadata for a specific property
    */
-  getPropertyMetadata(target: Function, propertyName: string): I18nColumnMetadata | undefined {
-    const metadata = this.getMetadata(target);
+  getPropertyMetadata(
+    target: Function,
+    propertyName: string,
+    dataSource?: DataSource
+  ): I18nColumnMetadata | undefined {
+    const metadata = this.getMetadata(target, dataSource);
     return metadata.find(m => m.propertyName === propertyName);
   }
 
+  /**
+   * Get the embedded properties of an entity whose class has I18n columns,
+   * directly or in nested embeddeds
+   */
+  getEmbeddeds(target: Function, dataSource?: DataSource): I18nEmbeddedMetadata[] {
+    const embeddeds: I18nEmbeddedMetadata[] = [];
+    for (const embedded of getMetadataArgsStorage().filterEmbeddeds(getInheritanceTree(target))) {
+      const type = embedded.type();
+      if (typeof type !== 'function' || !this.hasI18nColumns(type, dataSource)) {
+        continue;
+      }
+      if (this.getMetadata(type, dataSource).some((meta) => meta.options.storage === 'table')) {
+        throw new Error(
+          `I18nColumn with storage "table" is not supported inside embedded ${type.name} ` +
+            `(${target.name}.${embedded.propertyName})`
+        );
+      }
+      embeddeds.push({ propertyName: embedded.propertyName, type });
+    }
+    return embeddeds;
+  }
+
+  /**
+   * Check if an entity has I18n columns, directly or in embeddeds
+   */
+  hasI18nColumns(target: Function, dataSource?: DataSource): boolean {
+    return this.getMetadata(target, dataSource).length > 0 || this.getEmbeddeds(target, dataSource).length > 0;
+  }
+
+  /**
+   * Get metadata for a property path, following embedded properties (e.g. "seo.title")
+   */
+  getPathMetadata(
+    target: Function,
+    propertyPath: string,
+    dataSource?: DataSource
+  ): I18nColumnMetadata | undefined {
+    const [propertyName, ...rest] = propertyPath.split('.');
+    if (rest.length === 0) {
+      return this.getPropertyMetadata(target, propertyName, dataSource);
+    }
+
+    const embedded = this.getEmbeddeds(target, dataSource).find((e) => e.propertyName === propertyName);
+    return embedded && this.getPathMetadata(embedded.type, rest.join('.'), dataSource);
+  }
+
   /**
    * Check if a property is an I18n column
    */
-  isI18nColumn(target: Function, propertyName: string): boolean {
-    return this.getPropertyMetadata(target, propertyName) !== undefined;
+  isI18nColumn(target: Function, propertyName: string, dataSource?: DataSource): boolean {
+    return this.getPropertyMetadata(target, propertyName, dataSource) !== undefined;
   }
 
   /**
@@ -43,6 +183,8 @@ class I18nMetadataStorage {
    */
   clear(): void {
     this.metadata.clear();
+    this.entityOptions.clear();
+    this.dataSourceMetadata = new WeakMap();
   }
 }
 
@@ -0,0 +1,366 @@
+import { DataSource, EntityMetadata, QueryRunner, Table, TableColumn } from 'typeorm';
+import { TableUtils } from 'typeorm/schema-builder/util/TableUtils';
+import { languageColumnSuffix } from './language-utils';
+import { i18nMetadataStorage } from './metadata';
+import { getShadowPropertyNames, getTranslationPropertyName } from './naming-strategy';
+import { escapeTablePath } from './storage';
+import { I18nColumnMetadata } from './types';
+
+/**
+ * Options for generateI18nMigration()
+ */
+export interface I18nMigrationOptions {
+  /**
+   * Base name of the migration class (default: 'I18nLanguages').
+   * The timestamp is appended, as in TypeORM's generated migrations.
+   */
+  name?: string;
+
+  /**
+   * Migration timestamp (default: Date.now())
+   */
+  timestamp?: number;
+
+  /**
+   * Copy the default language value into added language columns (default: false).
+   * Needed to add the columns of required languages, which are NOT NULL.
+   */
+  backfill?: boolean;
+
+  /**
+   * Languages whose columns are dropped now that they are no longer configured (default: none).
+   * Stale columns are recognized by name only (`name_old` looks like a translation of `name`),
+   * so they are reported in `staleColumns` and only dropped for the languages confirmed here.
+   */
+  drop?: readonly string[];
+}
+
+/**
+ * A single SQL statement of a generated migration
+ */
+export interface I18nMigrationQuery {
+  query: string;
+  parameters?: any[];
+}
+
+/**
+ * Result of generateI18nMigration()
+ */
+export interface I18nMigration {
+  /** Class name of the migration (e.g. "I18nLanguages1700000000000") */
+  name: string;
+  /** Statements of the `up` method */
+  upQueries: I18nMigrationQuery[];
+  /** Statements of the `down` method */
+  downQueries: I18nMigrationQuery[];
+  /** Language columns missing from the live schema, as "table.column" */
+  addedColumns: string[];
+  /** Columns of unconfigured languages found in the live schema, as "table.column" */
+  staleColumns: string[];
+  /** TypeScript source of the MigrationInterface class */
+  source: string;
+}
+
+/**
+ * Marker language used to find where the naming strategy puts the language code
+ */
+const PROBE_LANGUAGE = 'i18nlang';
+
+/**
+ * Language codes as they appear in column names (`es`, `zh_cn`, `zhcn`, `pt-br`)
+ */
+const LANGUAGE_CODE_PATTERN = /^[a-z]{2,3}([-_]?[a-z0-9]{2,8})*$/;
+
+/**
+ * Build a matcher for database columns holding a translation of an I18n column,
+ * whatever the language, by naming a marker language with both naming strategies.
+ * The matcher returns the language as it appears in the column name.
+ * @internal
+ */
+export function translationColumnMatcher(
+  dataSource: DataSource,
+  meta: I18nColumnMetadata,
+  baseColumnName: string | undefined,
+  embeddedPrefixes: string[] = []
+): (columnName: string) => string | undefined {
+  const { namingStrategy } = meta.options;
+  const propertyName = namingStrategy.translationPropertyName(meta.propertyName, PROBE_LANGUAGE);
+  const customName = namingStrategy.translationColumnName?.(meta.propertyName, PROBE_LANGUAGE, baseColumnName);
+  const probeColumn = dataSource.namingStrategy
+    .columnName(propertyName, customName ?? '', embeddedPrefixes)
+    .toLowerCase();
+
+  const index = probeColumn.indexOf(PROBE_LANGUAGE);
+  if (index === -1) {
+    return () => undefined;
+  }
+
+  const prefix = probeColumn.slice(0, index);
+  const suffix = probeColumn.slice(index + PROBE_LANGUAGE.length);
+
+  return (columnName) => {
+    const name = columnName.toLowerCase();
+    if (name.length <= prefix.length + suffix.length || !name.startsWith(prefix) || !name.endsWith(suffix)) {
+      return undefined;
+    }
+    const language = name.slice(prefix.length, name.length - suffix.length);
+    return LANGUAGE_CODE_PATTERN.test(language) ? language : undefined;
+  };
+}
+
+/**
+ * The I18n properties of an entity with the path of the object holding them:
+ * an empty prefix for the entity itself, "seo." for an embedded `seo` object.
+ * @internal
+ */
+export function getI18nPropertyPaths(
+  entityMetadata: EntityMetadata
+): Array<{ meta: I18nColumnMetadata; pathPrefix: string }> {
+  const holders = [
+    { target: entityMetadata.target, pathPrefix: '' },
+    ...entityMetadata.allEmbeddeds.map((embedded) => ({
+      target: embedded.type,
+      pathPrefix: `${embedded.propertyPath}.`,
+    })),
+  ];
+
+  return holders.flatMap(({ target, pathPrefix }) =>
+    typeof target !== 'function'
+      ? []
+      : i18nMetadataStorage.getMetadata(target, entityMetadata.connection).map((meta) => ({ meta, pathPrefix }))
+  );
+}
+
+/**
+ * The `storage: 'columns'` I18n columns of an entity with the path of the object holding them.
+ * The foreign keys of I18n relations are left to TypeORM's migrations, with their constraints.
+ * @internal
+ */
+export function getI18nColumnPaths(
+  entityMetadata: EntityMetadata
+): Array<{ meta: I18nColumnMetadata; pathPrefix: string }> {
+  return getI18nPropertyPaths(entityMetadata).filter(
+    ({ meta }) => meta.options.storage === 'columns' && !meta.relation
+  );
+}
+
+/**
+ * Run schema changes with the query runner in memory mode and collect their SQL
+ */
+async function captureSql(
+  queryRunner: QueryRunner,
+  change: () => Promise<void>
+): Promise<{ up: I18nMigrationQuery[]; down: I18nMigrationQuery[] }> {
+  queryRunner.enableSqlMemory();
+  try {
+    await change();
+    const { upQueries, downQueries } = queryRunner.getMemorySql();
+    return { up: [...upQueries], down: [...downQueries] };
+  } finally {
+    queryRunner.clearSqlMemory();
+    queryRunner.disableSqlMemory();
+  }
+}
+
+/**
+ * Diff the per-language columns of one entity against its live table
+ */
+async function diffEntity(
+  dataSource: DataSource,
+  queryRunner: QueryRunner,
+  entityMetadata: EntityMetadata,
+  options: I18nMigrationOptions,
+  migration: Pick<I18nMigration, 'upQueries' | 'downQueries' | 'addedColumns' | 'staleColumns'>
+): Promise<void> {
+  const metadata = getI18nColumnPaths(entityMetadata);
+  if (metadata.length === 0) {
+    return;
+  }
+
+  // New tables are created by TypeORM's own migrations
+  const table: Table | undefined = await queryRunner.getTable(entityMetadata.tablePath);
+  if (!table) {
+    return;
+  }
+
+  const escape = (name: string) => dataSource.driver.escape(name);
+  const mappedColumns = new Set(entityMetadata.columns.map((column) => column.databaseName));
+  const added: TableColumn[] = [];
+  const backfills: I18nMigrationQuery[] = [];
+  const required: { oldColumn: TableColumn; newColumn: TableColumn }[] = [];
+  const stale = new Map<TableColumn, string>();
+
+  for (const { meta, pathPrefix } of metadata) {
+    const baseColumn = entityMetadata.findColumnWithPropertyPath(`${pathPrefix}${meta.propertyName}`);
+    if (!baseColumn) {
+      continue;
+    }
+
+    for (const language of meta.options.languages) {
+      const column = entityMetadata.findColumnWithPropertyPath(
+        `${pathPrefix}${getTranslationPropertyName(meta, language)}`
+      );
+      if (column && !table.findColumnByName(column.databaseName)) {
+        const tableColumn = new TableColumn(TableUtils.createTableColumnOptions(column, dataSource.driver));
+        migration.addedColumns.push(`${table.name}.${column.databaseName}`);
+
+        // Columns of required languages are added nullable and made NOT NULL once existing rows are backfilled
+        if (!tableColumn.isNullable) {
+          if (!options.backfill) {
+            throw new Error(
+              `${table.name}.${column.databaseName} of the required language "${language}" can't be added ` +
+                'to existing rows without a value, generate the migration with backfill'
+            );
+          }
+          const nullableColumn = tableColumn.clone();
+          nullableColumn.isNullable = true;
+          added.push(nullableColumn);
+          required.push({ oldColumn: nullableColumn, newColumn: tableColumn });
+        } else {
+          added.push(tableColumn);
+        }
+
+        if (options.backfill) {
+          backfills.push({
+            query:
+              `UPDATE ${escapeTablePath(dataSource, entityMetadata.tablePath)} ` +
+              `SET ${escape(column.databaseName)} = ${escape(baseColumn.databaseName)} ` +
+              `WHERE ${escape(column.databaseName)} IS NULL`,
+          });
+        }
+      }
+
+      // Sort keys and search columns are computed on save, rows get theirs when they are saved again
+      for (const property of getShadowPropertyNames(meta, language)) {
+        const shadowColumn = entityMetadata.findColumnWithPropertyPath(`${pathPrefix}${property}`);
+        if (shadowColumn && !table.findColumnByName(shadowColumn.databaseName)) {
+          added.push(new TableColumn(TableUtils.createTableColumnOptions(shadowColumn, dataSource.driver)));
+          migration.addedColumns.push(`${table.name}.${shadowColumn.databaseName}`);
+        }
+      }
+    }
+
+    const matchLanguage = translationColumnMatcher(
+      dataSource,
+      meta,
+      baseColumn.givenDatabaseName,
+      baseColumn.embeddedMetadata?.parentPrefixes
+    );
+    for (const tableColumn of table.columns) {
+      const language = mappedColumns.has(tableColumn.name) ? undefined : matchLanguage(tableColumn.name);
+      if (language !== undefined) {
+        stale.set(tableColumn, language);
+      }
+    }
+  }
+
+  migration.staleColumns.push(...[...stale.keys()].map((column) => `${table.name}.${column.name}`));
+
+  if (added.length > 0) {
+    const sql = await captureSql(queryRunner, () => queryRunner.addColumns(table, added));
+    migration.upQueries.push(...sql.up, ...backfills);
+    migration.downQueries.unshift(...sql.down.reverse());
+  }
+
+  // The query runner keeps `table` up to date with the added columns
+  if (required.length > 0) {
+    const sql = await captureSql(queryRunner, () => queryRunner.changeColumns(table, required));
+    migration.upQueries.push(...sql.up);
+    migration.downQueries.unshift(...sql.down.reverse());
+  }
+
+  // Languages as they appear in column names, whatever the separator (`pt-BR`, `pt_br`, `ptbr`)
+  const columnLanguage = (language: string) => languageColumnSuffix(language).replace(/_/g, '');
+  const confirmed = new Set((options.drop ?? []).map(columnLanguage));
+  const dropped = [...stale].filter(([, language]) => confirmed.has(columnLanguage(language)));
+
+  if (dropped.length > 0) {
+    const columns = dropped.map(([column]) => column);
+    const sql = await captureSql(queryRunner, () => queryRunner.dropColumns(table, columns));
+    migration.upQueries.push(...sql.up);
+    migration.downQueries.unshift(...sql.down.reverse());
+  }
+}
+
+/**
+ * Render a query as a `queryRunner.query()` call of the migration source
+ */
+function renderQuery(query: I18nMigrationQuery): string {
+  const sql = query.query.replace(/\\/g, '\\\\').replace(/`/g, '\\`').replace(/\$\{/g, '\\${');
+  const parameters = query.parameters?.length ? `, ${JSON.stringify(query.parameters)}` : '';
+  return `        await queryRunner.query(\`${sql}\`${parameters});`;
+}
+
+/**
+ * Render the TypeScript source of a migration class
+ * @internal
+ */
+export function renderMigration(name: string, upQueries: I18nMigrationQuery[], downQueries: I18nMigrationQuery[]): string {
+  return `import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class ${name} implements MigrationInterface {
+    name = '${name}'
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+${upQueries.map(renderQuery).join('\n')}
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+${downQueries.map(renderQuery).join('\n')}
+    }
+
+}
+`;
+}
+
+/**
+ * Generate a migration adding (and optionally dropping) the per-language columns of
+ * all `@I18nColumn` properties, by diffing the i18n metadata against the live schema.
+ *
+ * Columns of newly configured languages are added; columns following the naming
+ * strategy of a language that is no longer configured are reported in `staleColumns`
+ * and only dropped for the languages listed in `drop`. JSON- and table-stored columns need
+ * no migration.
+ *
+ * @param dataSource - An initialized DataSource (without `synchronize`)
+ * @param options - Migration options
+ * @returns The migration queries and the source of the migration class
+ *
+ * @example
+ * ```typescript
+ * setI18nConfig({ languages: ['en', 'es', 'it'], default_language: 'en' });
+ * await dataSource.initialize();
+ *
+ * const migration = await generateI18nMigration(dataSource, { backfill: true });
+ * if (migration.upQueries.length > 0) {
+ *   fs.writeFileSync(`migrations/${migration.name}.ts`, migration.source);
+ * }
+ * ```
+ */
+export async function generateI18nMigration(
+  dataSource: DataSource,
+  options: I18nMigrationOptions = {}
+): Promise<I18nMigration> {
+  const name = `${options.name ?? 'I18nLanguages'}${options.timestamp ?? Date.now()}`;
+  const migration = {
+    upQueries: [] as I18nMigrationQuery[],
+    downQueries: [] as I18nMigrationQuery[],
+    addedColumns: [] as string[],
+    staleColumns: [] as string[],
+  };
+
+  const queryRunner = dataSource.createQueryRunner();
+  try {
+    for (const entityMetadata of dataSource.entityMetadatas) {
+      await diffEntity(dataSource, queryRunner, entityMetadata, options, migration);
+    }
+  } finally {
+    await queryRunner.release();
+  }
+
+  return {
+    name,
+    ...migration,
+    source: renderMigration(name, migration.upQueries, migration.downQueries),
+  };
+}
@@ -0,0 +1,182 @@
+import { LANGUAGE_DELIMITER } from './constants';
+import { getI18nConfig } from './config';
+import { languageColumnSuffix, matchLanguage } from './language-utils';
+import { I18nColumnMetadata } from './types';
+
+/**
+ * Controls how the per-language columns of `storage: 'columns'` are named.
+ *
+ * `translationPropertyName` names the entity property of a translation column. Its
+ * database name is then derived by TypeORM's own `NamingStrategyInterface`, so e.g.
+ * `nameDe` becomes `name_de` with a snake-case TypeORM naming strategy.
+ * `translationColumnName` can return an explicit database name instead, which is
+ * passed to TypeORM's naming strategy as the custom column name.
+ *
+ * @example
+ * ```typescript
+ * const prefixStrategy: I18nNamingStrategy = {
+ *   translationPropertyName: (propertyName, language) => `${language}_${propertyName}`,
+ * };
+ *
+ * setI18nConfig({ languages: ['en', 'de'], default_language: 'en', namingStrategy: prefixStrategy });
+ * ```
+ */
+export interface I18nNamingStrategy {
+  /**
+   * Property name of the column holding `propertyName` in `language` (e.g. "name_de").
+   */
+  translationPropertyName(propertyName: string, language: string): string;
+
+  /**
+   * Explicit database column name of the column holding `propertyName` in `language`.
+   * Return undefined to let TypeORM's naming strategy derive it from the property name.
+   *
+   * @param propertyName - The base property name
+   * @param language - The language code
+   * @param baseColumnName - The `name` option of the base column, if set
+   */
+  translationColumnName?(propertyName: string, language: string, baseColumnName?: string): string | undefined;
+}
+
+/**
+ * Default naming strategy: appends the language with a delimiter (`name_de`).
+ * Regional tags become lowercase suffixes joined by underscores (`name_pt_br`).
+ * Use a different delimiter when property names contain underscores, e.g.
+ * `new DefaultI18nNamingStrategy('__')` for `short_name__de`.
+ */
+export class DefaultI18nNamingStrategy implements I18nNamingStrategy {
+  constructor(private readonly delimiter: string = LANGUAGE_DELIMITER) {}
+
+  translationPropertyName(propertyName: string, language: string): string {
+    return `${propertyName}${this.delimiter}${languageColumnSuffix(language)}`;
+  }
+
+  translationColumnName(_propertyName: string, language: string, baseColumnName?: string): string | undefined {
+    return baseColumnName ? `${baseColumnName}${this.delimiter}${languageColumnSuffix(language)}` : undefined;
+  }
+}
+
+/**
+ * Prefixes the language with a delimiter (`de_name`, `pt_br_name`).
+ */
+export class PrefixI18nNamingStrategy implements I18nNamingStrategy {
+  constructor(private readonly delimiter: string = LANGUAGE_DELIMITER) {}
+
+  translationPropertyName(propertyName: string, language: string): string {
+    return `${languageColumnSuffix(language)}${this.delimiter}${propertyName}`;
+  }
+
+  translationColumnName(_propertyName: string, language: string, baseColumnName?: string): string | undefined {
+    return baseColumnName ? `${languageColumnSuffix(language)}${this.delimiter}${baseColumnName}` : undefined;
+  }
+}
+
+/**
+ * Appends the capitalized language without a delimiter (`nameDe`, `nameZhCn`).
+ */
+export class CamelCaseI18nNamingStrategy implements I18nNamingStrategy {
+  translationPropertyName(propertyName: string, language: string): string {
+    return `${propertyName}${this.languageSuffix(language)}`;
+  }
+
+  translationColumnName(_propertyName: string, language: string, baseColumnName?: string): string | undefined {
+    return baseColumnName ? `${baseColumnName}${this.languageSuffix(language)}` : undefined;
+  }
+
+  private languageSuffix(language: string): string {
+    return language
+      .split(/[^a-zA-Z0-9]+/)
+      .filter(Boolean)
+      .map((part) => part.charAt(0).toUpperCase() + part.slice(1).toLowerCase())
+      .join('');
+  }
+}
+
+const defaultNamingStrategy = new DefaultI18nNamingStrategy();
+
+/**
+ * Resolve the naming strategy to use: the given one, the global one, or the default.
+ * @internal
+ */
+export function resolveI18nNamingStrategy(namingStrategy?: I18nNamingStrategy): I18nNamingStrategy {
+  return namingStrategy ?? getI18nConfig().namingStrategy ?? defaultNamingStrategy;
+}
+
+/**
+ * Get the configured language of an I18n column matching a requested language: the language
+ * itself or its closest regional variant (`es-MX` → `es`, `pt` → `pt-BR`), and the default
+ * language for archived languages. Returns undefined for languages the column doesn't have
+ * (e.g. of another profile).
+ * @internal
+ */
+export function matchColumnLanguage(meta: I18nColumnMetadata, language: string): string | undefined {
+  const { languages, archived, default_language } = meta.options;
+  const loaded = languages.filter((candidate) => !archived.includes(candidate));
+  const match = matchLanguage(language, loaded);
+  if (match !== undefined) {
+    return match;
+  }
+  return matchLanguage(language, archived.filter((candidate) => languages.includes(candidate)))
+    ? default_language
+    : undefined;
+}
+
+/**
+ * Get the configured language of an I18n column to query for a requested language:
+ * its match (see matchColumnLanguage()), or the default language for languages the
+ * column doesn't have.
+ * @internal
+ */
+export function resolveColumnLanguage(meta: I18nColumnMetadata, language: string): string {
+  return matchColumnLanguage(meta, language) ?? meta.options.default_language;
+}
+
+/**
+ * Get the property holding an I18n column in one of its languages, archived ones included:
+ * the base property for the default language, the naming strategy's translation property otherwise.
+ * @internal
+ */
+export function getTranslationPropertyName(meta: I18nColumnMetadata, language: string): string {
+  if (language === meta.options.default_language) {
+    return meta.propertyName;
+  }
+  return meta.options.namingStrategy.translationPropertyName(meta.propertyName, language);
+}
+
+/**
+ * Get the property holding the sort key of an I18n column in one of its languages
+ * (`name_sort`, `name_es_sort`), for columns with `sortKey`.
+ * @internal
+ */
+export function getSortKeyPropertyName(meta: I18nColumnMetadata, language: string): string {
+  return `${getTranslationPropertyName(meta, language)}_sort`;
+}
+
+/**
+ * Get the property holding the normalized search value of an I18n column in one of its
+ * languages (`name_search`, `name_es_search`), for columns with `searchable`.
+ * @internal
+ */
+export function getSearchPropertyName(meta: I18nColumnMetadata, language: string): string {
+  return `${getTranslationPropertyName(meta, language)}_search`;
+}
+
+/**
+ * Get the properties of the hidden columns maintained next to the column of a language
+ * (sort keys and search columns)
+ * @internal
+ */
+export function getShadowPropertyNames(meta: I18nColumnMetadata, language: string): string[] {
+  return [
+    ...(meta.options.sortKey ? [getSortKeyPropertyName(meta, language)] : []),
+    ...(meta.options.searchable ? [getSearchPropertyName(meta, language)] : []),
+  ];
+}
+
+/**
+ * Get the property holding an I18n column in a requested language (see resolveColumnLanguage()).
+ * @internal
+ */
+export function getLanguagePropertyName(meta: I18nColumnMetadata, requestedLanguage: string): string {
+  return getTranslationPropertyName(meta, resolveColumnLanguage(meta, requestedLanguage));
+}
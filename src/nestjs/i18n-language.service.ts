@@ -1,4 +1,7 @@
-import { Injectable, Scope } from '@nestjs/common';
+import { Inject, Injectable, Optional, Scope } from '@nestjs/common';
+import { I18nGlobalConfig, normalizeI18nConfig } from '../config';
+import { matchLanguage, normalizeLanguageCode } from '../language-utils';
+import { I18nModuleOptions, I18N_MODULE_OPTIONS, getI18nModuleConfig } from './types';
 
 /**
  * Request-scoped service for managing the current language.
@@ -7,12 +10,29 @@ import { Injectable, Scope } from '@nestjs/common';
 @Injectable({ scope: Scope.REQUEST })
 export class I18nLanguageService {
   private language: string | null = null;
+  private readonly config: I18nGlobalConfig;
+
+  constructor(
+    @Optional()
+    @Inject(I18N_MODULE_OPTIONS)
+    options?: I18nModuleOptions,
+  ) {
+    this.config = normalizeI18nConfig(options ? getI18nModuleConfig(options) : {});
+  }
 
   /**
-   * Set the current language for this request
+   * Set the current language for this request.
+   * The language is canonicalized as a BCP 47 tag and matched to the closest
+   * configured language (`es-MX` → `es`, `pt` → `pt-BR`), if there is one.
+   * Languages of the configured profiles count as configured as well.
+   * Archived languages are replaced with the default language.
    */
   setLanguage(language: string): void {
-    this.language = language.toLowerCase();
+    const canonical = normalizeLanguageCode(language);
+    const { languages = [], profiles = {}, archived = [], default_language } = this.config;
+    const configured = [...languages, ...Object.values(profiles).flatMap((profile) => profile.languages)];
+    const matched = matchLanguage(canonical, configured) ?? canonical;
+    this.language = archived.includes(matched) && default_language ? default_language : matched;
   }
 
   /**
@@ -18,6 +18,7 @@ import {
   I18nModuleAsyncOptions,
   I18nModuleOptionsFactory,
   I18N_MODULE_OPTIONS,
+  getI18nModuleConfig,
   getI18nRepositoryToken,
   setLanguageExtractionConfig,
 } from './types';
@@ -65,10 +66,7 @@ export class I18nModule {
    */
   static forRoot(options: I18nModuleOptions): DynamicModule {
     // Set global config for the library
-    setI18nConfig({
-      languages: options.languages,
-      default_language: options.defaultLanguage,
-    });
+    setI18nConfig(getI18nModuleConfig(options));
 
     // Set language extraction config for decorators
     if (options.languageExtraction) {
@@ -126,10 +124,7 @@ export class I18nModule {
         {
           provide: 'I18N_CONFIG_INIT',
           useFactory: (opts: I18nModuleOptions) => {
-            setI18nConfig({
-              languages: opts.languages,
-              default_language: opts.defaultLanguage,
-            });
+            setI18nConfig(getI18nModuleConfig(opts));
             if (opts.languageExtraction) {
               setLanguageExtractionConfig(opts.languageExtraction);
             }
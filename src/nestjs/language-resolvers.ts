@@ -1,3 +1,6 @@
+import { getI18nConfig, getI18nProfile } from '../config';
+import { matchLanguage, normalizeLanguageCode, normalizeLanguageCodes } from '../language-utils';
+
 /**
  * Pre-built language resolver functions for common use cases.
  * Use these with the `resolveLanguage` option in I18nModule.forRoot().
@@ -26,6 +29,9 @@ export function fromJwtPayload(field: string = 'language') {
 
 /**
  * Extract language from request header.
+ * For `Accept-Language`, the preferred tag (highest quality value) is returned as a
+ * canonical BCP 47 tag with its region (`pt-br;q=0.9` → `pt-BR`); combine with
+ * `validated()` to match it to the configured languages.
  *
  * @param header - The header name (default: 'accept-language')
  *
@@ -45,14 +51,30 @@ export function fromHeader(header: string = 'accept-language') {
 
     // Handle Accept-Language format (e.g., "en-US,en;q=0.9,es;q=0.8")
     if (header.toLowerCase() === 'accept-language') {
-      const primary = value.split(',')[0];
-      return primary?.split('-')[0]?.split(';')[0] || null;
+      return parseAcceptLanguage(value)[0] ?? null;
     }
 
     return value;
   };
 }
 
+/**
+ * Parse an Accept-Language header into canonical tags, most preferred first.
+ * Wildcards and tags with a zero quality value are skipped.
+ */
+function parseAcceptLanguage(value: string): string[] {
+  return value
+    .split(',')
+    .map((entry, index) => {
+      const [tag, ...params] = entry.trim().split(';');
+      const quality = params.find((param) => param.trim().startsWith('q='));
+      return { tag: tag.trim(), quality: quality ? Number(quality.trim().slice(2)) : 1, index };
+    })
+    .filter(({ tag, quality }) => tag && tag !== '*' && quality > 0)
+    .sort((a, b) => b.quality - a.quality || a.index - b.index)
+    .map(({ tag }) => normalizeLanguageCode(tag));
+}
+
 /**
  * Extract language from query parameter.
  *
@@ -127,10 +149,14 @@ export function chain(
 
 /**
  * Validate that the resolved language is in the allowed list.
- * If not, returns null (which will fall back to defaultLanguage).
+ * Regional variants are matched to the closest allowed language
+ * (`es-MX` → `es`, `pt` → `pt-BR`). If none matches, returns null
+ * (which will fall back to defaultLanguage). Archived languages (see the `archived`
+ * option) are not allowed.
  *
  * @param resolver - The resolver to wrap
- * @param allowedLanguages - List of allowed language codes
+ * @param allowedLanguages - List of allowed language codes, or the name of a language
+ * profile (see the `profiles` option) to allow the languages of
  *
  * @example
  * ```typescript
@@ -142,19 +168,24 @@ export function chain(
  *     ['en', 'es', 'fr'],
  *   ),
  * })
+ *
+ * // Only accept the languages legal documents exist in
+ * const resolveLegalLanguage = validated(fromHeader('accept-language'), 'legal');
  * ```
  */
 export function validated(
   resolver: (request: any) => string | null | Promise<string | null>,
-  allowedLanguages: string[],
+  allowedLanguages: string[] | string,
 ) {
-  const normalized = allowedLanguages.map((l) => l.toLowerCase());
+  // Profiles are read on each request, as the module sets the config after the resolver is created
+  const normalized = typeof allowedLanguages === 'string' ? undefined : normalizeLanguageCodes(allowedLanguages);
 
   return async (request: any): Promise<string | null> => {
     const result = await resolver(request);
     if (!result) return null;
 
-    const lower = result.toLowerCase();
-    return normalized.includes(lower) ? lower : null;
+    const languages = normalized ?? getI18nProfile(allowedLanguages as string).languages;
+    const archived = getI18nConfig().archived ?? [];
+    return matchLanguage(result, languages.filter((language) => !archived.includes(language))) ?? null;
   };
 }
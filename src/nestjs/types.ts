@@ -1,4 +1,5 @@
 import { ModuleMetadata, Type } from '@nestjs/common';
+import type { I18nGlobalConfig } from '../config';
 
 /**
  * Configuration for language extraction in CQRS/Microservices
@@ -16,9 +17,11 @@ export interface I18nLanguageExtractionConfig {
 }
 
 /**
- * Configuration options for I18nModule
+ * Configuration options for I18nModule.
+ * Options of setI18nConfig() (`profiles`, `fallbacks`, `collations`, `namingStrategy`,
+ * `required`, `deprecated`, `archived`) are passed to it with `languages` and `defaultLanguage`.
  */
-export interface I18nModuleOptions {
+export interface I18nModuleOptions extends Omit<I18nGlobalConfig, 'languages' | 'default_language'> {
   /**
    * Supported language codes
    */
@@ -29,6 +32,12 @@ export interface I18nModuleOptions {
    */
   defaultLanguage: string;
 
+  /**
+   * Languages that are neither loaded nor written, passed to setI18nConfig().
+   * Requests for them use `defaultLanguage`.
+   */
+  archived?: string[];
+
   /**
    * Function to extract language from request.
    * Receives the request object and should return a language code or null.
@@ -62,6 +71,15 @@ export function getLanguageExtractionConfig(): I18nLanguageExtractionConfig {
   return globalLanguageExtractionConfig;
 }
 
+/**
+ * Get the setI18nConfig() options of the I18nModule options
+ * @internal
+ */
+export function getI18nModuleConfig(options: I18nModuleOptions): I18nGlobalConfig {
+  const { defaultLanguage, resolveLanguage, languageExtraction, ...config } = options;
+  return { ...config, default_language: defaultLanguage };
+}
+
 /**
  * Factory for async configuration
  */
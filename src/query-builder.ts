@@ -1,7 +1,12 @@
-import { SelectQueryBuilder, ObjectLiteral, Brackets, WhereExpressionBuilder } from 'typeorm';
+import { SelectQueryBuilder, ObjectLiteral, Brackets, WhereExpressionBuilder, FindOperator } from 'typeorm';
 import { i18nMetadataStorage } from './metadata';
-import { LANGUAGE_DELIMITER } from './constants';
+import { getLanguagePropertyName, getSortKeyPropertyName, resolveColumnLanguage } from './naming-strategy';
 import { transformEntityWithRelations } from './utils';
+import { addLanguageWhere, languageExpression, mergeWhereValue } from './storage';
+import { I18nColumnMetadata } from './types';
+import { collate, getI18nCollation } from './collation';
+import { searchableWhere } from './search';
+import { joinI18nTranslations } from './translation-table';
 
 /**
  * Extended QueryBuilder with automatic i18n column translation.
@@ -39,64 +44,206 @@ export class I18nQueryBuilder<Entity extends ObjectLiteral> extends SelectQueryB
   /**
    * Get the column name for a property in the current language context
    */
-  private getLanguageColumn(propertyName: string): string {
-    if (!this.__i18nLanguage || !this.__i18nTarget) {
+  private getLanguageColumn(propertyName: string, target: Function | null = this.__i18nTarget): string {
+    if (!this.__i18nLanguage || !target) {
       return propertyName;
     }
 
-    const metadata = i18nMetadataStorage.getMetadata(this.__i18nTarget);
-    const i18nMeta = metadata.find((m) => m.propertyName === propertyName);
+    // Property paths reach into embedded objects ("seo.title" -> "seo.title_es")
+    const i18nMeta = i18nMetadataStorage.getPathMetadata(target, propertyName, this.connection);
 
     if (!i18nMeta) {
       return propertyName;
     }
 
-    const { options } = i18nMeta;
+    const embeddedPath = propertyName.slice(0, propertyName.length - i18nMeta.propertyName.length);
+    return `${embeddedPath}${getLanguagePropertyName(i18nMeta, this.__i18nLanguage)}`;
+  }
 
-    if (this.__i18nLanguage === options.default_language) {
-      return propertyName;
+  /**
+   * Get the metadata of an i18n property stored outside its own columns
+   * (`json` or `table` storage), if the property is one
+   */
+  private getExpressionMetadata(propertyName: string): I18nColumnMetadata | undefined {
+    if (!this.__i18nTarget) {
+      return undefined;
     }
 
-    return `${propertyName}${LANGUAGE_DELIMITER}${this.__i18nLanguage}`;
+    return i18nMetadataStorage
+      .getMetadata(this.__i18nTarget, this.connection)
+      .find((m) => m.propertyName === propertyName && m.options.storage !== 'columns');
+  }
+
+  /**
+   * Join the companion translation table so table-stored translations are loaded,
+   * in the languages the query language is read in
+   */
+  private joinI18nTranslations(): void {
+    if (this.__i18nTarget) {
+      joinI18nTranslations(this, this.__i18nTarget, this.__i18nLanguage);
+    }
+  }
+
+  /**
+   * Split a column reference into alias and property (alias defaults to the main alias)
+   */
+  private splitColumnString(column: string): { alias: string; property: string } {
+    const dotIndex = column.lastIndexOf('.');
+    if (dotIndex !== -1) {
+      return { alias: column.substring(0, dotIndex), property: column.substring(dotIndex + 1) };
+    }
+    return { alias: this.expressionMap.mainAlias!.name, property: column };
   }
 
   /**
    * Transform a where object to use language-specific columns
    */
-  private transformWhereObject(where: ObjectLiteral): ObjectLiteral {
-    if (!this.__i18nLanguage || !this.__i18nTarget) {
+  private transformWhereObject(where: ObjectLiteral, target: Function | null = this.__i18nTarget): ObjectLiteral {
+    if (!this.__i18nTarget || !target) {
       return where;
     }
 
+    const embeddeds = i18nMetadataStorage.getEmbeddeds(target, this.connection);
     const transformed: ObjectLiteral = {};
     for (const [key, value] of Object.entries(where)) {
-      const columnName = this.getLanguageColumn(key);
-      transformed[columnName] = value;
+      const embedded = embeddeds.find((e) => e.propertyName === key);
+      if (embedded && value && typeof value === 'object' && !(value instanceof FindOperator)) {
+        // Conditions on properties of an embedded object
+        transformed[key] = this.transformWhereObject(value, embedded.type);
+        continue;
+      }
+
+      const expressionMeta = i18nMetadataStorage
+        .getMetadata(target, this.connection)
+        .find((m) => m.propertyName === key && m.options.storage !== 'columns');
+      if (expressionMeta) {
+        addLanguageWhere(
+          this.connection,
+          this.__i18nTarget,
+          expressionMeta,
+          this.__i18nLanguage ?? expressionMeta.options.default_language,
+          value,
+          transformed
+        );
+        continue;
+      }
+
+      const searchMeta = i18nMetadataStorage
+        .getMetadata(target, this.connection)
+        .find((m) => m.propertyName === key);
+      const search =
+        searchMeta &&
+        searchableWhere(searchMeta, this.__i18nLanguage ?? searchMeta.options.default_language, value);
+      if (search) {
+        // Like and ILike compare the normalized search column
+        mergeWhereValue(transformed, search.propertyName, search.value);
+        continue;
+      }
+
+      mergeWhereValue(transformed, this.getLanguageColumn(key, target), value);
     }
     return transformed;
   }
 
   /**
-   * Transform a column reference string (e.g., "alias.name") to use language-specific column
+   * Transform a column reference string (e.g., "alias.name") to use language-specific column.
+   * JSON- and table-stored properties are turned into an expression extracting the current
+   * language when `asExpression` is set. Otherwise (e.g. for selects) JSON columns are kept
+   * and table-stored properties select the primary column their translations are loaded by.
    */
-  private transformColumnString(column: string): string {
-    if (!this.__i18nLanguage || !this.__i18nTarget) {
+  private transformColumnString(column: string, asExpression: boolean = false): string {
+    if (!this.__i18nTarget) {
+      return column;
+    }
+
+    const { alias, property } = this.splitColumnString(column);
+    const expressionMeta = this.getExpressionMetadata(property);
+    if (expressionMeta) {
+      if (asExpression) {
+        const expression = languageExpression(
+          this.connection,
+          this.__i18nTarget,
+          expressionMeta,
+          alias,
+          this.__i18nLanguage ?? expressionMeta.options.default_language
+        );
+        this.setParameters(expression.parameters);
+        return expression.sql;
+      }
+      if (expressionMeta.options.storage === 'table') {
+        const primaryProperty = this.connection.getMetadata(this.__i18nTarget).primaryColumns[0].propertyName;
+        return `${alias}.${primaryProperty}`;
+      }
       return column;
     }
 
+    if (!this.__i18nLanguage) {
+      return column;
+    }
+
+    // Handle "alias.embedded.property" format
+    const [mainAlias, ...propertyPath] = column.split('.');
+    if (propertyPath.length > 1 && mainAlias === this.expressionMap.mainAlias!.name) {
+      return `${mainAlias}.${this.getLanguageColumn(propertyPath.join('.'))}`;
+    }
+
     // Handle "alias.property" format
-    const dotIndex = column.lastIndexOf('.');
-    if (dotIndex !== -1) {
-      const alias = column.substring(0, dotIndex);
-      const property = column.substring(dotIndex + 1);
-      const transformedProperty = this.getLanguageColumn(property);
-      return `${alias}.${transformedProperty}`;
+    if (column.lastIndexOf('.') !== -1) {
+      return `${alias}.${this.getLanguageColumn(property)}`;
     }
 
     // Handle plain property name
     return this.getLanguageColumn(column);
   }
 
+  /**
+   * Get the metadata of the i18n property an order column references, if it is one
+   * (relations and properties of embedded objects aside)
+   */
+  private getOrderMetadata(column: string): I18nColumnMetadata | undefined {
+    const { property } = this.splitColumnString(column);
+    const expressionMeta = this.getExpressionMetadata(property);
+    if (expressionMeta || !this.__i18nTarget || column.split('.').length > 2) {
+      return expressionMeta;
+    }
+
+    return i18nMetadataStorage
+      .getMetadata(this.__i18nTarget, this.connection)
+      .find((m) => m.propertyName === property && !m.relation);
+  }
+
+  /**
+   * Transform an order column reference. JSON- and table-stored properties, and properties
+   * with a collation for the language, are ordered through a selected expression so that
+   * pagination with joins keeps working. Properties with sort keys are ordered by them.
+   */
+  private transformOrderColumn(column: string): string {
+    const meta = this.getOrderMetadata(column);
+    if (!meta) {
+      return this.transformColumnString(column);
+    }
+
+    const { alias, property } = this.splitColumnString(column);
+    const language = this.__i18nLanguage ?? meta.options.default_language;
+    const collation = getI18nCollation(this.connection, language);
+
+    if (meta.options.storage === 'columns' && !collation) {
+      return meta.options.sortKey
+        ? `${alias}.${getSortKeyPropertyName(meta, resolveColumnLanguage(meta, language))}`
+        : this.transformColumnString(column);
+    }
+
+    const selectionAlias = `i18n_order_${property.toLowerCase()}`;
+    if (!this.expressionMap.selects.some((select) => select.aliasName === selectionAlias)) {
+      const sql =
+        meta.options.storage === 'columns'
+          ? `${alias}.${getLanguagePropertyName(meta, language)}`
+          : this.transformColumnString(column, true);
+      super.addSelect(collation ? collate(this.connection, sql, collation) : sql, selectionAlias);
+    }
+    return selectionAlias;
+  }
+
   /**
    * Transform an order object to use language-specific columns
    */
@@ -105,7 +252,7 @@ export class I18nQueryBuilder<Entity extends ObjectLiteral> extends SelectQueryB
   ): { [key: string]: 'ASC' | 'DESC' | { order: 'ASC' | 'DESC'; nulls?: 'NULLS FIRST' | 'NULLS LAST' } } {
     const transformed: typeof order = {};
     for (const [key, value] of Object.entries(order)) {
-      const transformedKey = this.transformColumnString(key);
+      const transformedKey = this.transformOrderColumn(key);
       transformed[transformedKey] = value;
     }
     return transformed;
@@ -182,7 +329,7 @@ export class I18nQueryBuilder<Entity extends ObjectLiteral> extends SelectQueryB
     nulls?: 'NULLS FIRST' | 'NULLS LAST'
   ): this {
     if (typeof sort === 'string') {
-      sort = this.transformColumnString(sort);
+      sort = this.transformOrderColumn(sort);
     } else if (typeof sort === 'object' && sort !== null) {
       sort = this.transformOrderObject(sort as any);
     }
@@ -197,7 +344,7 @@ export class I18nQueryBuilder<Entity extends ObjectLiteral> extends SelectQueryB
     order?: 'ASC' | 'DESC',
     nulls?: 'NULLS FIRST' | 'NULLS LAST'
   ): this {
-    sort = this.transformColumnString(sort);
+    sort = this.transformOrderColumn(sort);
     return super.addOrderBy(sort, order, nulls);
   }
 
@@ -250,7 +397,7 @@ export class I18nQueryBuilder<Entity extends ObjectLiteral> extends SelectQueryB
    */
   override groupBy(groupBy?: string): this {
     if (groupBy) {
-      return super.groupBy(this.transformColumnString(groupBy));
+      return super.groupBy(this.transformColumnString(groupBy, true));
     }
     return super.groupBy();
   }
@@ -259,7 +406,7 @@ export class I18nQueryBuilder<Entity extends ObjectLiteral> extends SelectQueryB
    * Override addGroupBy() to automatically use language-specific columns.
    */
   override addGroupBy(groupBy: string): this {
-    groupBy = this.transformColumnString(groupBy);
+    groupBy = this.transformColumnString(groupBy, true);
     return super.addGroupBy(groupBy);
   }
 
@@ -269,10 +416,11 @@ export class I18nQueryBuilder<Entity extends ObjectLiteral> extends SelectQueryB
    * and their relations.
    */
   override async getMany(): Promise<Entity[]> {
+    this.joinI18nTranslations();
     const entities = await super.getMany();
     if (this.__i18nLanguage) {
       for (const entity of entities) {
-        transformEntityWithRelations(entity, this.__i18nLanguage);
+        transformEntityWithRelations(entity, this.__i18nLanguage, undefined, this.connection);
       }
     }
     return entities;
@@ -284,10 +432,11 @@ export class I18nQueryBuilder<Entity extends ObjectLiteral> extends SelectQueryB
    * and their relations.
    */
   override async getManyAndCount(): Promise<[Entity[], number]> {
+    this.joinI18nTranslations();
     const [entities, count] = await super.getManyAndCount();
     if (this.__i18nLanguage) {
       for (const entity of entities) {
-        transformEntityWithRelations(entity, this.__i18nLanguage);
+        transformEntityWithRelations(entity, this.__i18nLanguage, undefined, this.connection);
       }
     }
     return [entities, count];
@@ -299,10 +448,11 @@ export class I18nQueryBuilder<Entity extends ObjectLiteral> extends SelectQueryB
    * and their relations.
    */
   override async getRawAndEntities<T = any>(): Promise<{ entities: Entity[]; raw: T[] }> {
+    this.joinI18nTranslations();
     const result = await super.getRawAndEntities<T>();
     if (this.__i18nLanguage) {
       for (const entity of result.entities) {
-        transformEntityWithRelations(entity, this.__i18nLanguage);
+        transformEntityWithRelations(entity, this.__i18nLanguage, undefined, this.connection);
       }
     }
     return result;
@@ -316,7 +466,7 @@ export class I18nQueryBuilder<Entity extends ObjectLiteral> extends SelectQueryB
   override async getOne(): Promise<Entity | null> {
     const entity = await super.getOne();
     if (entity && this.__i18nLanguage) {
-      transformEntityWithRelations(entity, this.__i18nLanguage);
+      transformEntityWithRelations(entity, this.__i18nLanguage, undefined, this.connection);
     }
     return entity;
   }
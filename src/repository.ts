@@ -1,15 +1,34 @@
-import { Repository, DataSource, FindManyOptions, FindOneOptions, FindOptionsWhere, DeepPartial, SaveOptions, FindOptionsOrder } from 'typeorm';
+import { Repository, DataSource, FindOperator, FindManyOptions, FindOneOptions, FindOptionsWhere, DeepPartial, SaveOptions, FindOptionsOrder, FindOptionsRelations, SelectQueryBuilder, In } from 'typeorm';
 import { i18nMetadataStorage } from './metadata';
-import { LANGUAGE_DELIMITER } from './constants';
+import {
+  getLanguagePropertyName,
+  getSortKeyPropertyName,
+  getTranslationPropertyName,
+  resolveColumnLanguage,
+} from './naming-strategy';
 import { I18nQueryBuilder, createI18nQueryBuilder } from './query-builder';
 import { normalizeLanguageCode } from './language-utils';
-import { prepareI18nUpdate, transformEntityWithRelations } from './utils';
+import { prepareI18nUpdate, restoreI18nValues, transformEntityWithRelations } from './utils';
+import { assertI18nTranslations } from './validation';
+import type { I18nColumnMetadata, I18nLanguageCode } from './types';
+import { addLanguageWhere, languageExpression, mergeWhereValue } from './storage';
+import { I18nSearchOptions, I18nSearchResult, buildSearchQuery, searchableWhere } from './search';
+import { collate, getI18nCollation } from './collation';
+import {
+  hasSavedI18nTranslations,
+  joinI18nTranslations,
+  resetSavedI18nTranslations,
+  saveI18nTranslations,
+} from './translation-table';
 
 /**
  * Extended repository with i18n support.
  * Allows setting a current language to automatically query the appropriate translation columns.
+ *
+ * @template Entity - The entity type, e.g. `WithI18n<Product, 'name', Languages>` to type its translations
+ * @template TLang - Union type of supported language codes, checked by setLanguage()
  */
-export class I18nRepository<Entity extends object> extends Repository<Entity> {
+export class I18nRepository<Entity extends object, TLang extends string = string> extends Repository<Entity> {
   private currentLanguage: string | null = null;
 
   constructor(
@@ -36,9 +55,13 @@ export class I18nRepository<Entity extends object> extends Repository<Entity> {
    * // Now queries automatically use Spanish columns
    * const products = await repo.find({ where: { name: 'Portátil' } });
    * // Queries name_es column instead of name
+   *
+   * // With a language union, unknown languages do not compile
+   * const typedRepo = getI18nRepository<Product, 'en' | 'es'>(Product, dataSource);
+   * typedRepo.setLanguage('sp'); // Error
    * ```
    */
-  setLanguage(language: string): this {
+  setLanguage(language: I18nLanguageCode<TLang>): this {
     this.currentLanguage = normalizeLanguageCode(language);
     return this;
   }
@@ -63,6 +86,11 @@ export class I18nRepository<Entity extends object> extends Repository<Entity> {
    * Loaded entities will have their i18n properties set based on current language.
    */
   override async find(options?: FindManyOptions<Entity>): Promise<Entity[]> {
+    const findQuery = this.createFindQueryBuilder(options);
+    if (findQuery) {
+      return this.setLanguageOnEntities(await findQuery.getMany());
+    }
+
     const transformedOptions = this.transformFindOptions(options);
     const entities = await super.find(transformedOptions);
     return this.setLanguageOnEntities(entities);
@@ -73,6 +101,12 @@ export class I18nRepository<Entity extends object> extends Repository<Entity> {
    * Loaded entity will have its i18n properties set based on current language.
    */
   override async findOne(options: FindOneOptions<Entity>): Promise<Entity | null> {
+    const findQuery = this.createFindQueryBuilder(options);
+    if (findQuery) {
+      const entity = await findQuery.take(1).getOne();
+      return entity ? this.setLanguageOnEntity(entity) : null;
+    }
+
     const transformedOptions = this.transformFindOptions(options) || options;
     const entity = await super.findOne(transformedOptions);
     return entity ? this.setLanguageOnEntity(entity) : null;
@@ -82,24 +116,26 @@ export class I18nRepository<Entity extends object> extends Repository<Entity> {
    * Find one entity by ID or conditions
    */
   override async findOneBy(where: FindOptionsWhere<Entity>): Promise<Entity | null> {
-    const transformedWhere = this.transformWhereClause(where);
-    const entity = await super.findOneBy(transformedWhere);
-    return entity ? this.setLanguageOnEntity(entity) : null;
+    return this.findOne({ where });
   }
 
   /**
    * Find entities by conditions
    */
   override async findBy(where: FindOptionsWhere<Entity>): Promise<Entity[]> {
-    const transformedWhere = this.transformWhereClause(where);
-    const entities = await super.findBy(transformedWhere);
-    return this.setLanguageOnEntities(entities);
+    return this.find({ where });
   }
 
   /**
    * Find entities and count with automatic language column mapping.
    */
   override async findAndCount(options?: FindManyOptions<Entity>): Promise<[Entity[], number]> {
+    const findQuery = this.createFindQueryBuilder(options);
+    if (findQuery) {
+      const [entities, count] = await findQuery.getManyAndCount();
+      return [this.setLanguageOnEntities(entities), count];
+    }
+
     const transformedOptions = this.transformFindOptions(options);
     const [entities, count] = await super.findAndCount(transformedOptions);
     return [this.setLanguageOnEntities(entities), count];
@@ -109,15 +145,19 @@ export class I18nRepository<Entity extends object> extends Repository<Entity> {
    * Find entities and count by conditions
    */
   override async findAndCountBy(where: FindOptionsWhere<Entity>): Promise<[Entity[], number]> {
-    const transformedWhere = this.transformWhereClause(where);
-    const [entities, count] = await super.findAndCountBy(transformedWhere);
-    return [this.setLanguageOnEntities(entities), count];
+    return this.findAndCount({ where });
   }
 
   /**
    * Find one entity or fail with automatic language column mapping.
    */
   override async findOneOrFail(options: FindOneOptions<Entity>): Promise<Entity> {
+    const findQuery = this.createFindQueryBuilder(options);
+    if (findQuery) {
+      const entity = await findQuery.take(1).getOneOrFail();
+      return this.setLanguageOnEntity(entity);
+    }
+
     const transformedOptions = this.transformFindOptions(options) || options;
     const entity = await super.findOneOrFail(transformedOptions);
     return this.setLanguageOnEntity(entity);
@@ -127,9 +167,7 @@ export class I18nRepository<Entity extends object> extends Repository<Entity> {
    * Find one entity by conditions or fail
    */
   override async findOneByOrFail(where: FindOptionsWhere<Entity>): Promise<Entity> {
-    const transformedWhere = this.transformWhereClause(where);
-    const entity = await super.findOneByOrFail(transformedWhere);
-    return this.setLanguageOnEntity(entity);
+    return this.findOneOrFail({ where });
   }
 
   /**
@@ -178,6 +216,7 @@ export class I18nRepository<Entity extends object> extends Repository<Entity> {
    * Create a new entity instance with i18n support.
    * Unlike TypeORM's default create(), this method properly handles translation properties
    * (e.g., nameTranslations) by copying them to the entity and preparing raw columns.
+   * Throws an I18nValidationError when a required translation is missing.
    *
    * @example
    * ```typescript
@@ -203,10 +242,14 @@ export class I18nRepository<Entity extends object> extends Repository<Entity> {
     }
 
     if (Array.isArray(entityLike)) {
-      return entityLike.map((item) => this.createSingleEntity(item));
+      const entities = entityLike.map((item) => this.createSingleEntity(item));
+      assertI18nTranslations(entities, undefined, this.manager.connection);
+      return entities;
     }
 
-    return this.createSingleEntity(entityLike);
+    const entity = this.createSingleEntity(entityLike);
+    assertI18nTranslations([entity], undefined, this.manager.connection);
+    return entity;
   }
 
   /**
@@ -216,29 +259,44 @@ export class I18nRepository<Entity extends object> extends Repository<Entity> {
     // First, let TypeORM create the base entity with column properties
     const entity = super.create(entityLike);
 
-    // Get i18n metadata to find translation properties
-    const metadata = i18nMetadataStorage.getMetadata(this.target as Function);
-
     // Copy translation properties from input to entity
-    for (const meta of metadata) {
+    this.copyTranslations(entityLike, entity, this.target as Function);
+
+    // Prepare the entity so raw columns are populated from translations
+    prepareI18nUpdate(entity as object, this.manager.connection);
+
+    return entity;
+  }
+
+  /**
+   * Copy the translations properties of an entity-like object, including those of
+   * embedded objects, which TypeORM's create() does not know about.
+   */
+  private copyTranslations(entityLike: any, entity: any, target: Function): void {
+    for (const meta of i18nMetadataStorage.getMetadata(target, this.manager.connection)) {
       const translationsKey = `${meta.propertyName}Translations`;
-      const translations = (entityLike as any)[translationsKey];
+      const translations = entityLike[translationsKey];
 
       if (translations && typeof translations === 'object') {
         // Set the translations property on the entity
-        (entity as any)[translationsKey] = translations;
+        entity[translationsKey] = translations;
       }
     }
 
-    // Prepare the entity so raw columns are populated from translations
-    prepareI18nUpdate(entity as object);
-
-    return entity;
+    for (const { propertyName, type } of i18nMetadataStorage.getEmbeddeds(target, this.manager.connection)) {
+      const embeddedLike = entityLike[propertyName];
+      if (embeddedLike && typeof embeddedLike === 'object') {
+        entity[propertyName] ??= Object.create(type.prototype);
+        this.copyTranslations(embeddedLike, entity[propertyName], type);
+      }
+    }
   }
 
   /**
    * Save entity with automatic i18n preparation.
-   * Copies translations to raw columns before saving so TypeORM detects changes.
+   * Copies translations to raw columns before saving so TypeORM detects changes,
+   * and writes table-stored translations to the companion translation table.
+   * Throws an I18nValidationError when a required translation is missing.
    */
   override save<T extends DeepPartial<Entity>>(
     entities: T[],
@@ -248,20 +306,111 @@ export class I18nRepository<Entity extends object> extends Repository<Entity> {
     entity: T,
     options?: SaveOptions
   ): Promise<T & Entity>;
-  override save<T extends DeepPartial<Entity>>(
+  override async save<T extends DeepPartial<Entity>>(
     entityOrEntities: T | T[],
     options?: SaveOptions
   ): Promise<(T & Entity) | (T & Entity)[]> {
-    if (Array.isArray(entityOrEntities)) {
-      const entities = entityOrEntities as T[];
-      for (const entity of entities) {
-        prepareI18nUpdate(entity as object);
+    const entities = (Array.isArray(entityOrEntities) ? entityOrEntities : [entityOrEntities]) as object[];
+
+    // Stored entities may be saved with only some of their properties
+    assertI18nTranslations(entities, (entity) => this.metadata.hasAllPrimaryKeys(entity), this.manager.connection);
+
+    for (const entity of entities) {
+      prepareI18nUpdate(entity, this.manager.connection);
+      resetSavedI18nTranslations(entity);
+    }
+
+    const saved = Array.isArray(entityOrEntities)
+      ? await super.save(entityOrEntities as T[], options)
+      : await super.save(entityOrEntities as T, options);
+
+    // Table-stored translations are written by the subscriber on insert/update, but TypeORM
+    // skips the update entirely when only translations changed
+    for (const entity of entities) {
+      if (!hasSavedI18nTranslations(entity)) {
+        await saveI18nTranslations(this.manager, entity);
+        restoreI18nValues(entity, entity.constructor, this.manager.connection);
       }
-      return super.save(entities, options);
     }
-    const entity = entityOrEntities as T;
-    prepareI18nUpdate(entity as object);
-    return super.save(entity, options);
+
+    return saved;
+  }
+
+  /**
+   * Full-text search in the I18n columns of a language, most relevant first.
+   * Uses `tsvector` with the language's text search configuration (e.g. `spanish`) on PostgreSQL,
+   * FULLTEXT indexes on MySQL and an FTS5 table kept in sync by triggers on SQLite.
+   * Results are localized in the searched language.
+   *
+   * @param query - The words to search for
+   * @param options - Language, properties, pagination and relations of the search
+   * @returns The matching entities with their relevance score
+   *
+   * @example
+   * ```typescript
+   * const repo = getI18nRepository(Product, dataSource);
+   *
+   * const results = await repo.search('silla madera', { language: 'es', properties: ['name', 'description'] });
+   * // [{ entity: Product { name: 'Silla de madera', ... }, score: 0.42 }, ...]
+   * ```
+   */
+  async search(query: string, options: I18nSearchOptions<Entity> = {}): Promise<I18nSearchResult<Entity>[]> {
+    const connection = this.manager.connection;
+    const language = options.language ? normalizeLanguageCode(options.language) : this.currentLanguage;
+    const firstMeta = i18nMetadataStorage.getMetadata(this.target as Function, connection)[0];
+    const searchLanguage = language ?? firstMeta?.options.default_language;
+
+    const alias = this.metadata.name;
+    const search = searchLanguage
+      ? await buildSearchQuery(connection, this.metadata, alias, query, searchLanguage, options)
+      : undefined;
+    if (!search) {
+      return [];
+    }
+
+    const primaryProperty = this.metadata.primaryColumns[0].propertyName;
+    const qb = super
+      .createQueryBuilder(alias)
+      .select(`${alias}.${primaryProperty}`, 'id')
+      .addSelect(search.score, 'score')
+      .where(search.where)
+      .setParameters(search.parameters)
+      .orderBy('score', 'DESC');
+    if (search.join) {
+      qb.innerJoin(search.join.table, search.join.alias, search.join.on);
+    }
+    if (options.skip !== undefined) {
+      qb.offset(options.skip);
+    }
+    if (options.take !== undefined) {
+      qb.limit(options.take);
+    }
+
+    const rows: Array<{ id: unknown; score: unknown }> = await qb.getRawMany();
+    if (rows.length === 0) {
+      return [];
+    }
+
+    const findOptions = {
+      where: { [primaryProperty]: In(rows.map((row) => row.id)) },
+      relations: options.relations,
+    } as FindManyOptions<Entity>;
+    const findQuery = this.createFindQueryBuilder(findOptions, language);
+    const entities = findQuery
+      ? await findQuery.getMany()
+      : await super.find(this.transformFindOptions(findOptions));
+    const byId = new Map(entities.map((entity) => [String((entity as any)[primaryProperty]), entity]));
+
+    return rows.flatMap((row) => {
+      const entity = byId.get(String(row.id));
+      if (!entity) {
+        return [];
+      }
+      if (language) {
+        transformEntityWithRelations(entity, language, undefined, connection);
+      }
+      return [{ entity, score: Number(row.score) }];
+    });
   }
 
   /**
@@ -272,7 +421,7 @@ export class I18nRepository<Entity extends object> extends Repository<Entity> {
   private setLanguageOnEntity(entity: Entity): Entity {
     if (this.currentLanguage) {
       // Re-transform the entity and all its relations with the current language
-      transformEntityWithRelations(entity, this.currentLanguage);
+      transformEntityWithRelations(entity, this.currentLanguage, undefined, this.manager.connection);
     }
     return entity;
   }
@@ -284,19 +433,37 @@ export class I18nRepository<Entity extends object> extends Repository<Entity> {
     if (this.currentLanguage) {
       for (const entity of entities) {
         // Re-transform each entity and its relations with the current language
-        transformEntityWithRelations(entity, this.currentLanguage);
+        transformEntityWithRelations(entity, this.currentLanguage, undefined, this.manager.connection);
       }
     }
     return entities;
   }
 
+  /**
+   * Get the language used for queries on a column: the current language or the column default.
+   */
+  private getQueryLanguage(defaultLanguage: string): string {
+    return this.currentLanguage ?? defaultLanguage;
+  }
+
+  /**
+   * Get the property a column-stored i18n property is ordered by in the query language:
+   * its sort key when it has them, its language column otherwise
+   */
+  private getOrderPropertyName(meta: I18nColumnMetadata): string {
+    const language = this.getQueryLanguage(meta.options.default_language);
+    return meta.options.sortKey
+      ? getSortKeyPropertyName(meta, resolveColumnLanguage(meta, language))
+      : getLanguagePropertyName(meta, language);
+  }
+
   /**
    * Transform find options to use the current language's columns
    */
   private transformFindOptions<T extends FindManyOptions<Entity> | FindOneOptions<Entity>>(
     options?: T
   ): T | undefined {
-    if (!options || !this.currentLanguage) {
+    if (!options) {
       return options;
     }
 
@@ -306,6 +473,10 @@ export class I18nRepository<Entity extends object> extends Repository<Entity> {
       transformed.where = this.transformWhereClause(transformed.where);
     }
 
+    if (transformed.relations) {
+      transformed.relations = this.transformRelations(transformed.relations);
+    }
+
     if ((transformed as FindManyOptions<Entity>).order) {
       (transformed as FindManyOptions<Entity>).order = this.transformOrderClause(
         (transformed as FindManyOptions<Entity>).order!
@@ -315,29 +486,144 @@ export class I18nRepository<Entity extends object> extends Repository<Entity> {
     return transformed;
   }
 
+  /**
+   * Find options cannot order by SQL expressions, so ordering by JSON- or table-stored
+   * properties, or by properties with a collation for the language, is executed through
+   * a QueryBuilder built from the find options. Entities with table-stored properties are
+   * loaded through one as well, joining their translations in the languages they are read in.
+   * Returns null when the find options can be executed as they are.
+   *
+   * @param options - The find options
+   * @param language - The language translations are joined in (defaults to the current language)
+   */
+  private createFindQueryBuilder(
+    options?: FindManyOptions<Entity> | FindOneOptions<Entity>,
+    language: string | null = this.currentLanguage
+  ): SelectQueryBuilder<Entity> | null {
+    const order = (options?.order ?? {}) as Record<string, any>;
+    const metadata = i18nMetadataStorage.getMetadata(this.target as Function, this.manager.connection);
+    const connection = this.manager.connection;
+    const collationOf = (meta: I18nColumnMetadata) =>
+      getI18nCollation(connection, this.getQueryLanguage(meta.options.default_language));
+    const isExpressionMeta = (meta: I18nColumnMetadata) =>
+      !meta.relation && (meta.options.storage !== 'columns' || collationOf(meta) !== undefined);
+    const isExpressionKey = (key: string) => metadata.some((m) => m.propertyName === key && isExpressionMeta(m));
+    const hasTableStorage = metadata.some((m) => m.options.storage === 'table');
+
+    if (!hasTableStorage && !Object.keys(order).some(isExpressionKey)) {
+      return null;
+    }
+
+    const alias = this.metadata.name;
+    const qb = super.createQueryBuilder(alias);
+    const findOrder: Record<string, any> = {};
+    const orderBys: Array<{ sort: string; direction: 'ASC' | 'DESC'; nulls?: 'NULLS FIRST' | 'NULLS LAST' }> = [];
+
+    for (const [key, value] of Object.entries(order)) {
+      const isDirection = typeof value !== 'object' || value === null || 'direction' in value;
+      if (!isDirection) {
+        // Relation or embedded order - leave it to the find options
+        findOrder[key] = value;
+        continue;
+      }
+
+      const direction = typeof value === 'object' ? value.direction : value;
+      const nulls = typeof value === 'object' ? value.nulls : undefined;
+      const i18nMeta = metadata.find((m) => m.propertyName === key);
+
+      let sort = `${alias}.${key}`;
+      if (i18nMeta && isExpressionMeta(i18nMeta)) {
+        // Order by a selected expression so pagination with joins keeps working
+        const language = this.getQueryLanguage(i18nMeta.options.default_language);
+        const expression =
+          i18nMeta.options.storage === 'columns'
+            ? { sql: `${alias}.${getLanguagePropertyName(i18nMeta, language)}`, parameters: {} }
+            : languageExpression(connection, this.target as Function, i18nMeta, alias, language);
+        const collation = collationOf(i18nMeta);
+        sort = `i18n_order_${key.toLowerCase()}`;
+        qb.addSelect(collation ? collate(connection, expression.sql, collation) : expression.sql, sort).setParameters(
+          expression.parameters
+        );
+      } else if (i18nMeta) {
+        sort = `${alias}.${this.getOrderPropertyName(i18nMeta)}`;
+      }
+
+      orderBys.push({
+        sort,
+        direction: String(direction).toUpperCase() === 'DESC' || direction === -1 ? 'DESC' : 'ASC',
+        nulls: nulls ? (String(nulls).toUpperCase() === 'FIRST' ? 'NULLS FIRST' : 'NULLS LAST') : undefined,
+      });
+    }
+
+    const transformed = this.transformFindOptions({ ...options, order: findOrder } as FindManyOptions<Entity>);
+    qb.setFindOptions(transformed!);
+    joinI18nTranslations(qb, this.target as Function, language);
+
+    for (const { sort, direction, nulls } of orderBys) {
+      qb.addOrderBy(sort, direction, nulls);
+    }
+
+    return qb;
+  }
+
+  /**
+   * Transform relations to load I18n relations in all their languages (archived ones aside),
+   * so loaded entities have their translations
+   */
+  private transformRelations<R extends FindOptionsRelations<Entity> | string[]>(relations: R): R {
+    const languageRelations = (propertyName: string): string[] => {
+      const i18nMeta = i18nMetadataStorage
+        .getMetadata(this.target as Function, this.manager.connection)
+        .find((m) => m.relation && m.propertyName === propertyName);
+      if (!i18nMeta) {
+        return [propertyName];
+      }
+      return i18nMeta.options.languages
+        .filter((language) => !i18nMeta.options.archived.includes(language))
+        .map((language) => getTranslationPropertyName(i18nMeta, language));
+    };
+
+    if (Array.isArray(relations)) {
+      // Relation paths, e.g. "heroImage" or "heroImage.tags"
+      return relations.flatMap((path) => {
+        const [propertyName, ...rest] = path.split('.');
+        return languageRelations(propertyName).map((relation) => [relation, ...rest].join('.'));
+      }) as R;
+    }
+
+    const transformed: Record<string, any> = {};
+    for (const [key, value] of Object.entries(relations)) {
+      for (const relation of languageRelations(key)) {
+        transformed[relation] = value;
+      }
+    }
+    return transformed as R;
+  }
+
   /**
    * Transform order clause to use language-specific columns
    */
-  private transformOrderClause(order: FindOptionsOrder<Entity>): FindOptionsOrder<Entity> {
-    if (!order || !this.currentLanguage) {
+  private transformOrderClause(
+    order: FindOptionsOrder<Entity>,
+    target: Function = this.target as Function
+  ): FindOptionsOrder<Entity> {
+    if (!order) {
       return order;
     }
 
-    const metadata = i18nMetadataStorage.getMetadata(this.target as Function);
+    const metadata = i18nMetadataStorage.getMetadata(target, this.manager.connection);
+    const embeddeds = i18nMetadataStorage.getEmbeddeds(target, this.manager.connection);
     const transformed: any = {};
 
     for (const [key, value] of Object.entries(order)) {
       const i18nMeta = metadata.find((m) => m.propertyName === key);
+      const embedded = embeddeds.find((e) => e.propertyName === key);
 
-      if (i18nMeta) {
-        const { options } = i18nMeta;
-        let columnName: string;
-        if (this.currentLanguage === options.default_language) {
-          columnName = key;
-        } else {
-          columnName = `${key}${LANGUAGE_DELIMITER}${this.currentLanguage}`;
-        }
-        transformed[columnName] = value;
+      if (i18nMeta && i18nMeta.options.storage === 'columns') {
+        transformed[this.getOrderPropertyName(i18nMeta)] = value;
+      } else if (embedded && value && typeof value === 'object') {
+        // Order by properties of an embedded object
+        transformed[key] = this.transformOrderClause(value, embedded.type);
       } else {
         transformed[key] = value;
       }
@@ -349,42 +635,50 @@ export class I18nRepository<Entity extends object> extends Repository<Entity> {
   /**
    * Transform where clause to use language-specific columns
    */
-  private transformWhereClause(where: any): any {
-    if (!where || !this.currentLanguage) {
+  private transformWhereClause(where: any, target: Function = this.target as Function): any {
+    if (!where) {
       return where;
     }
 
     // Handle array of where clauses
     if (Array.isArray(where)) {
-      return where.map((w) => this.transformWhereClause(w));
+      return where.map((w) => this.transformWhereClause(w, target));
     }
 
-    // Get i18n metadata for this entity
-    const metadata = i18nMetadataStorage.getMetadata(this.target as Function);
+    // Get i18n metadata for this entity (or embedded class)
+    const metadata = i18nMetadataStorage.getMetadata(target, this.manager.connection);
+    const embeddeds = i18nMetadataStorage.getEmbeddeds(target, this.manager.connection);
 
     const transformed: any = {};
 
     for (const [key, value] of Object.entries(where)) {
       const i18nMeta = metadata.find((m) => m.propertyName === key);
-
-      if (i18nMeta) {
-        // This is an i18n column
-        const { options } = i18nMeta;
-
-        // Determine which column to use
-        let columnName: string;
-        if (this.currentLanguage === options.default_language) {
-          // Use base column for default language
-          columnName = key;
-        } else {
-          // Use translated column for non-default language
-          columnName = `${key}${LANGUAGE_DELIMITER}${this.currentLanguage}`;
-        }
-
-        transformed[columnName] = value;
+      const embedded = embeddeds.find((e) => e.propertyName === key);
+      const search =
+        i18nMeta && searchableWhere(i18nMeta, this.getQueryLanguage(i18nMeta.options.default_language), value);
+
+      if (embedded && value && typeof value === 'object' && !(value instanceof FindOperator)) {
+        // Conditions on properties of an embedded object
+        transformed[key] = this.transformWhereClause(value, embedded.type);
+      } else if (search) {
+        // Like and ILike compare the normalized search column
+        mergeWhereValue(transformed, search.propertyName, search.value);
+      } else if (i18nMeta && i18nMeta.options.storage !== 'columns') {
+        // JSON or table storage - compare the value stored for the query language
+        addLanguageWhere(
+          this.manager.connection,
+          this.target as Function,
+          i18nMeta,
+          this.getQueryLanguage(i18nMeta.options.default_language),
+          value,
+          transformed
+        );
+      } else if (i18nMeta && this.currentLanguage) {
+        // This is an i18n column - use the column of the current language
+        transformed[getLanguagePropertyName(i18nMeta, this.currentLanguage)] = value;
       } else {
         // Not an i18n column, keep as is
-        transformed[key] = value;
+        mergeWhereValue(transformed, key, value);
       }
     }
 
@@ -442,27 +736,33 @@ export class I18nRepository<Entity extends object> extends Repository<Entity> {
       return propertyName;
     }
 
-    const metadata = i18nMetadataStorage.getMetadata(this.target as Function);
-    const i18nMeta = metadata.find((m) => m.propertyName === propertyName);
+    const i18nMeta = i18nMetadataStorage.getPathMetadata(
+      this.target as Function,
+      propertyName,
+      this.manager.connection
+    );
 
     if (!i18nMeta) {
       // Not an i18n column
       return propertyName;
     }
 
-    const { options } = i18nMeta;
-
-    if (this.currentLanguage === options.default_language) {
+    // JSON- and table-stored translations have no column per language
+    if (i18nMeta.options.storage !== 'columns') {
       return propertyName;
     }
 
-    return `${propertyName}${LANGUAGE_DELIMITER}${this.currentLanguage}`;
+    // Keep the embedded path of properties inside embedded objects ("seo.title" -> "seo.title_es")
+    const embeddedPath = propertyName.slice(0, propertyName.length - i18nMeta.propertyName.length);
+    return `${embeddedPath}${getLanguagePropertyName(i18nMeta, this.currentLanguage)}`;
   }
 }
 
 /**
  * Create an I18nRepository instance for an entity
  *
+ * @template Entity - The entity type
+ * @template TLang - Union type of supported language codes (default: any language)
  * @param entity - The entity class
  * @param dataSource - The TypeORM DataSource
  * @param defaultLanguage - Optional default language
@@ -480,12 +780,16 @@ export class I18nRepository<Entity extends object> extends Repository<Entity> {
  * const products = await productRepo.find({
  *   where: { name: 'Portátil' }
  * });
+ *
+ * // Typed translations and languages
+ * const typedRepo = getI18nRepository<WithI18n<Product, 'name', 'en' | 'es'>, 'en' | 'es'>(Product, dataSource);
+ * typedRepo.create({ nameTranslations: { en: 'Laptop', sp: 'Portátil' } }); // Error
  * ```
  */
-export function getI18nRepository<Entity extends object>(
+export function getI18nRepository<Entity extends object, TLang extends string = string>(
   entity: new () => Entity,
   dataSource: DataSource,
   defaultLanguage?: string
-): I18nRepository<Entity> {
+): I18nRepository<Entity, TLang> {
   return new I18nRepository(entity, dataSource, defaultLanguage);
 }
@@ -0,0 +1,175 @@
+import { DataSource, TableColumn } from 'typeorm';
+import { ColumnMetadata } from 'typeorm/metadata/ColumnMetadata';
+import { getI18nColumnPaths, translationColumnMatcher } from './migration';
+import { getTranslationPropertyName } from './naming-strategy';
+
+/**
+ * Kind of difference between a language column and the live schema
+ *
+ * - `missing`: the language column does not exist in the table
+ * - `extra`: the table has a column of a language that is not configured
+ * - `type`: the column type or length differs
+ * - `nullable`: the column nullability differs
+ */
+export type I18nSchemaIssueType = 'missing' | 'extra' | 'type' | 'nullable';
+
+/**
+ * A single difference between a language column and the live schema
+ */
+export interface I18nSchemaIssue {
+  type: I18nSchemaIssueType;
+  /** Entity class name */
+  entity: string;
+  /** Table path */
+  table: string;
+  /** Translatable property (e.g. "seo.title" inside an embedded) */
+  property: string;
+  /** Language of the column (as found in the column name for `extra` columns) */
+  language: string;
+  /** Database column name */
+  column: string;
+  /** Expected type (e.g. "varchar(255)") or nullability, for `type` and `nullable` issues */
+  expected?: string | boolean;
+  /** Actual type or nullability, for `type` and `nullable` issues */
+  actual?: string | boolean;
+}
+
+/**
+ * Result of validateI18nSchema()
+ */
+export interface I18nSchemaValidationResult {
+  /** Whether all language columns match the live schema */
+  valid: boolean;
+  issues: I18nSchemaIssue[];
+}
+
+/**
+ * Describe a column type with its length, e.g. "varchar(255)"
+ */
+function describeType(type: string, length: string | undefined): string {
+  return length ? `${type}(${length})` : type;
+}
+
+/**
+ * Compare a language column with its live table column
+ */
+function compareColumn(
+  dataSource: DataSource,
+  column: ColumnMetadata,
+  tableColumn: TableColumn,
+  issue: Omit<I18nSchemaIssue, 'type'>
+): I18nSchemaIssue[] {
+  const issues: I18nSchemaIssue[] = [];
+
+  const expectedType = dataSource.driver.normalizeType(column).toLowerCase();
+  const actualType = tableColumn.type.toLowerCase();
+  const expectedLength = column.length || dataSource.driver.getColumnLength(column) || undefined;
+  const actualLength = tableColumn.length || undefined;
+  if (expectedType !== actualType || (expectedLength && actualLength && expectedLength !== actualLength)) {
+    issues.push({
+      ...issue,
+      type: 'type',
+      expected: describeType(expectedType, expectedLength),
+      actual: describeType(actualType, actualLength),
+    });
+  }
+
+  if (column.isNullable !== tableColumn.isNullable) {
+    issues.push({ ...issue, type: 'nullable', expected: column.isNullable, actual: tableColumn.isNullable });
+  }
+
+  return issues;
+}
+
+/**
+ * Compare the language columns implied by the `@I18nColumn` metadata with the live schema,
+ * as loaded through TypeORM's `QueryRunner.getTable()`.
+ *
+ * Reports missing language columns, extra columns of languages that are no longer configured,
+ * and language columns with a wrong type or nullability. Only `storage: 'columns'` properties
+ * have language columns.
+ *
+ * @param dataSource - An initialized DataSource
+ * @returns Whether the schema is valid, and the structured issues
+ *
+ * @example
+ * ```typescript
+ * const result = await validateI18nSchema(dataSource);
+ * if (!result.valid) {
+ *   // [{ type: 'missing', entity: 'Product', table: 'product', property: 'name', language: 'it', column: 'name_it' }]
+ *   throw new Error(`i18n schema drift: ${JSON.stringify(result.issues)}`);
+ * }
+ * ```
+ */
+export async function validateI18nSchema(dataSource: DataSource): Promise<I18nSchemaValidationResult> {
+  const issues: I18nSchemaIssue[] = [];
+  const queryRunner = dataSource.createQueryRunner();
+
+  try {
+    for (const entityMetadata of dataSource.entityMetadatas) {
+      const metadata = getI18nColumnPaths(entityMetadata);
+      if (metadata.length === 0) {
+        continue;
+      }
+
+      const table = await queryRunner.getTable(entityMetadata.tablePath);
+      const mappedColumns = new Set(entityMetadata.columns.map((column) => column.databaseName));
+
+      for (const { meta, pathPrefix } of metadata) {
+        const property = `${pathPrefix}${meta.propertyName}`;
+        const baseColumn = entityMetadata.findColumnWithPropertyPath(property);
+        if (!baseColumn) {
+          continue;
+        }
+
+        for (const language of meta.options.languages) {
+          const column = entityMetadata.findColumnWithPropertyPath(
+            `${pathPrefix}${getTranslationPropertyName(meta, language)}`
+          );
+          if (!column) {
+            continue;
+          }
+
+          const issue = {
+            entity: entityMetadata.name,
+            table: entityMetadata.tablePath,
+            property,
+            language,
+            column: column.databaseName,
+          };
+          const tableColumn = table?.findColumnByName(column.databaseName);
+
+          if (!tableColumn) {
+            issues.push({ ...issue, type: 'missing' });
+          } else {
+            issues.push(...compareColumn(dataSource, column, tableColumn, issue));
+          }
+        }
+
+        const matchLanguage = translationColumnMatcher(
+          dataSource,
+          meta,
+          baseColumn.givenDatabaseName,
+          baseColumn.embeddedMetadata?.parentPrefixes
+        );
+        for (const tableColumn of table?.columns ?? []) {
+          const language = mappedColumns.has(tableColumn.name) ? undefined : matchLanguage(tableColumn.name);
+          if (language !== undefined) {
+            issues.push({
+              type: 'extra',
+              entity: entityMetadata.name,
+              table: entityMetadata.tablePath,
+              property,
+              language,
+              column: tableColumn.name,
+            });
+          }
+        }
+      }
+    }
+  } finally {
+    await queryRunner.release();
+  }
+
+  return { valid: issues.length === 0, issues };
+}
@@ -0,0 +1,307 @@
+import { DataSource, EntityMetadata, FindOperator, FindOptionsRelations, ILike, Like, ObjectLiteral } from 'typeorm';
+import { ColumnMetadata } from 'typeorm/metadata/ColumnMetadata';
+import { languageColumnSuffix } from './language-utils';
+import { getI18nPropertyPaths } from './migration';
+import { getSearchPropertyName, getTranslationPropertyName, resolveColumnLanguage } from './naming-strategy';
+import { escapeTablePath, getI18nDialect } from './storage';
+import { I18nColumnMetadata, I18nSearchNormalization } from './types';
+
+/**
+ * Options for I18nRepository.search()
+ */
+export interface I18nSearchOptions<Entity> {
+  /**
+   * Language to search and to localize the results in (default: the repository language)
+   */
+  language?: string;
+
+  /**
+   * I18n properties to search (default: all text properties with `storage: 'columns'`),
+   * with the path of properties inside embedded entities (e.g. "seo.title")
+   */
+  properties?: string[];
+
+  /**
+   * PostgreSQL text search configuration (default: derived from the language, e.g. "spanish")
+   */
+  config?: string;
+
+  /**
+   * Number of results to skip
+   */
+  skip?: number;
+
+  /**
+   * Maximum number of results
+   */
+  take?: number;
+
+  /**
+   * Relations to load on the results
+   */
+  relations?: FindOptionsRelations<Entity> | string[];
+}
+
+/**
+ * A search result: the localized entity and its relevance (higher is more relevant)
+ */
+export interface I18nSearchResult<Entity> {
+  entity: Entity;
+  score: number;
+}
+
+/**
+ * PostgreSQL text search configurations of languages
+ */
+const TEXT_SEARCH_CONFIGS: Record<string, string> = {
+  ar: 'arabic',
+  da: 'danish',
+  de: 'german',
+  el: 'greek',
+  en: 'english',
+  es: 'spanish',
+  fi: 'finnish',
+  fr: 'french',
+  hu: 'hungarian',
+  id: 'indonesian',
+  it: 'italian',
+  nb: 'norwegian',
+  nl: 'dutch',
+  no: 'norwegian',
+  pt: 'portuguese',
+  ro: 'romanian',
+  ru: 'russian',
+  sv: 'swedish',
+  tr: 'turkish',
+};
+
+/**
+ * Column types that hold text and can be searched
+ */
+const TEXT_TYPE_PATTERN = /char|text|clob|string/i;
+
+/**
+ * Get the PostgreSQL text search configuration of a language (`simple` when it has none)
+ * @internal
+ */
+export function getTextSearchConfig(language: string): string {
+  return TEXT_SEARCH_CONFIGS[language.split(/[-_]/)[0].toLowerCase()] ?? 'simple';
+}
+
+/**
+ * Normalize a value for the search columns of a property (`lowercase`, `unaccent`).
+ * Accents are removed by dropping the combining marks of the decomposed value.
+ * @internal
+ */
+export function normalizeSearchText(value: string, normalize: readonly I18nSearchNormalization[]): string {
+  let normalized = value;
+  if (normalize.includes('unaccent')) {
+    normalized = normalized.normalize('NFD').replace(/\p{M}/gu, '').normalize('NFC');
+  }
+  if (normalize.includes('lowercase')) {
+    normalized = normalized.toLowerCase();
+  }
+  return normalized;
+}
+
+/**
+ * Redirect a `Like` or `ILike` condition on a searchable property to its search column in a
+ * language, with the pattern normalized like the column. Returns undefined for other conditions.
+ * @internal
+ */
+export function searchableWhere(
+  meta: I18nColumnMetadata,
+  language: string,
+  value: unknown
+): { propertyName: string; value: FindOperator<string> } | undefined {
+  const { searchable } = meta.options;
+  if (
+    !searchable ||
+    !(value instanceof FindOperator) ||
+    (value.type !== 'like' && value.type !== 'ilike') ||
+    typeof value.value !== 'string'
+  ) {
+    return undefined;
+  }
+
+  const pattern = normalizeSearchText(value.value, searchable.normalize);
+  return {
+    propertyName: getSearchPropertyName(meta, resolveColumnLanguage(meta, language)),
+    value: value.type === 'ilike' ? ILike(pattern) : Like(pattern),
+  };
+}
+
+/**
+ * Get the type of a column as a string ("varchar", "String")
+ */
+function typeName(column: ColumnMetadata): string {
+  return typeof column.type === 'string' ? column.type : column.type.name;
+}
+
+/**
+ * Resolve the database columns searched in a language
+ */
+function getSearchColumns(
+  entityMetadata: EntityMetadata,
+  language: string,
+  properties: string[] | undefined
+): ColumnMetadata[] {
+  const paths = getI18nPropertyPaths(entityMetadata).filter(
+    ({ meta }) => meta.options.storage === 'columns' && !meta.relation
+  );
+
+  const columnOf = (path: (typeof paths)[number]) =>
+    entityMetadata.findColumnWithPropertyPath(
+      `${path.pathPrefix}${getTranslationPropertyName(path.meta, resolveColumnLanguage(path.meta, language))}`
+    );
+
+  if (properties) {
+    return properties.map((property) => {
+      const path = paths.find(({ meta, pathPrefix }) => `${pathPrefix}${meta.propertyName}` === property);
+      const column = path && columnOf(path);
+      if (!column) {
+        throw new Error(
+          `"${property}" of ${entityMetadata.name} is not an I18nColumn with storage "columns" and cannot be searched`
+        );
+      }
+      return column;
+    });
+  }
+
+  return paths
+    .map(columnOf)
+    .filter((column): column is ColumnMetadata => !!column && TEXT_TYPE_PATTERN.test(typeName(column)));
+}
+
+/**
+ * Build an FTS5 query matching all words of a search query in some columns,
+ * with the words quoted so that FTS5 syntax can't be injected
+ */
+function ftsQuery(columnNames: string[], words: string[]): string {
+  return `{${columnNames.join(' ')}} : (${words.map((word) => `"${word}"`).join(' ')})`;
+}
+
+/**
+ * Create the FTS5 table indexing the language columns of an entity table, with the triggers
+ * keeping it in sync, unless it already exists with the same columns. The table and triggers
+ * are TEMP objects of the connection, so they never show up in the schema TypeORM synchronizes
+ * or drops; they are filled from the entity table on the first search of a connection.
+ */
+async function ensureFtsTable(
+  dataSource: DataSource,
+  entityMetadata: EntityMetadata,
+  language: string,
+  columns: ColumnMetadata[]
+): Promise<string> {
+  const primaryColumns = entityMetadata.primaryColumns;
+  if (primaryColumns.length !== 1 || !/int|number/i.test(typeName(primaryColumns[0]))) {
+    throw new Error(`Full-text search on SQLite needs a single integer primary key on ${entityMetadata.name}`);
+  }
+
+  const escape = (name: string) => dataSource.driver.escape(name);
+  const table = `i18n_fts_${entityMetadata.tableName}_${languageColumnSuffix(language)}`;
+  const primary = escape(primaryColumns[0].databaseName);
+  const names = [...new Set(columns.map((column) => column.databaseName))].map(escape).join(', ');
+  const tokenizer = language.toLowerCase().startsWith('en') ? 'porter unicode61' : 'unicode61 remove_diacritics 2';
+  const definition = `${escape(table)} USING fts5(${names}, tokenize='${tokenizer}')`;
+
+  // TypeORM drops the triggers when it recreates the entity table during synchronization
+  const triggers = ['ai', 'ad', 'au'].map((suffix) => `${table}_${suffix}`);
+  const existing: Array<{ name: string; sql: string }> = await dataSource.query(
+    `SELECT name, sql FROM sqlite_temp_master WHERE name IN (?, ?, ?, ?)`,
+    [table, ...triggers]
+  );
+  if (
+    existing.length === 4 &&
+    existing.some((entry) => entry.name === table && entry.sql === `CREATE VIRTUAL TABLE ${definition}`)
+  ) {
+    return table;
+  }
+
+  const source = escapeTablePath(dataSource, entityMetadata.tablePath);
+  const ftsTable = `temp.${escape(table)}`;
+  const values = (row: string) => names.split(', ').map((name) => `${row}.${name}`).join(', ');
+  // Statements of triggers can't qualify the table, TEMP triggers find TEMP tables first
+  const insert = `INSERT INTO ${escape(table)}(rowid, ${names}) VALUES (new.${primary}, ${values('new')});`;
+  const remove = `DELETE FROM ${escape(table)} WHERE rowid = old.${primary};`;
+  const [afterInsert, afterDelete, afterUpdate] = triggers.map((trigger) => `temp.${escape(trigger)}`);
+
+  await dataSource.transaction(async (manager) => {
+    for (const trigger of triggers) {
+      await manager.query(`DROP TRIGGER IF EXISTS temp.${escape(trigger)}`);
+    }
+    await manager.query(`DROP TABLE IF EXISTS ${ftsTable}`);
+    await manager.query(`CREATE VIRTUAL TABLE temp.${definition}`);
+    await manager.query(`INSERT INTO ${ftsTable}(rowid, ${names}) SELECT ${primary}, ${names} FROM ${source}`);
+    await manager.query(`CREATE TRIGGER ${afterInsert} AFTER INSERT ON ${source} BEGIN ${insert} END`);
+    await manager.query(`CREATE TRIGGER ${afterDelete} AFTER DELETE ON ${source} BEGIN ${remove} END`);
+    await manager.query(`CREATE TRIGGER ${afterUpdate} AFTER UPDATE ON ${source} BEGIN ${remove} ${insert} END`);
+  });
+
+  return table;
+}
+
+/**
+ * Build the full-text condition and relevance score of a search in the columns of one language:
+ * `tsvector` with the language's text search configuration on PostgreSQL, `MATCH ... AGAINST`
+ * on MySQL (which needs FULLTEXT indexes) and an FTS5 table joined on the rowid on SQLite.
+ * Returns undefined when the query has no words.
+ * @internal
+ */
+export async function buildSearchQuery(
+  dataSource: DataSource,
+  entityMetadata: EntityMetadata,
+  alias: string,
+  query: string,
+  language: string,
+  options: Pick<I18nSearchOptions<unknown>, 'properties' | 'config'>
+): Promise<
+  | { where: string; score: string; parameters: ObjectLiteral; join?: { table: string; alias: string; on: string } }
+  | undefined
+> {
+  const columns = getSearchColumns(entityMetadata, language, options.properties);
+  if (columns.length === 0) {
+    throw new Error(`${entityMetadata.name} has no I18n text properties to search`);
+  }
+
+  const words = query.match(/[\p{L}\p{N}]+/gu);
+  if (!words) {
+    return undefined;
+  }
+
+  const escape = (name: string) => dataSource.driver.escape(name);
+  const reference = (column: ColumnMetadata) => `${escape(alias)}.${escape(column.databaseName)}`;
+
+  switch (getI18nDialect(dataSource)) {
+    case 'postgres': {
+      const document =
+        `to_tsvector(CAST(:i18n_search_config AS regconfig), ` +
+        `concat_ws(' ', ${columns.map(reference).join(', ')}))`;
+      const tsQuery = `plainto_tsquery(CAST(:i18n_search_config AS regconfig), :i18n_search_query)`;
+      return {
+        where: `${document} @@ ${tsQuery}`,
+        score: `ts_rank(${document}, ${tsQuery})`,
+        parameters: { i18n_search_config: options.config ?? getTextSearchConfig(language), i18n_search_query: query },
+      };
+    }
+    case 'mysql': {
+      const score = columns
+        .map((column) => `MATCH(${reference(column)}) AGAINST (:i18n_search_query IN NATURAL LANGUAGE MODE)`)
+        .join(' + ');
+      return { where: `(${score}) > 0`, score: `(${score})`, parameters: { i18n_search_query: query } };
+    }
+    case 'sqlite': {
+      // One table per language indexes all text columns, the column filter restricts the properties
+      const indexed = [...getSearchColumns(entityMetadata, language, undefined), ...columns];
+      const table = await ensureFtsTable(dataSource, entityMetadata, language, indexed);
+      // FTS5 only accepts the table name (not an alias) in MATCH and its ranking functions
+      const ftsTable = escape(table);
+      return {
+        join: { table, alias: table, on: `${ftsTable}.rowid = ${reference(entityMetadata.primaryColumns[0])}` },
+        where: `${ftsTable} MATCH :i18n_search_query`,
+        score: `-bm25(${ftsTable})`,
+        parameters: { i18n_search_query: ftsQuery(columns.map((column) => column.databaseName), words) },
+      };
+    }
+  }
+}
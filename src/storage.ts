@@ -0,0 +1,324 @@
+import { And, DataSource, Equal, FindOperator, ObjectLiteral, Raw } from 'typeorm';
+import { I18nColumnMetadata } from './types';
+import { getI18nTranslationEntity } from './translation-table';
+import { resolveColumnLanguage } from './naming-strategy';
+
+/**
+ * SQL dialect families with different JSON and string functions.
+ */
+export type I18nDialect = 'postgres' | 'mysql' | 'sqlite';
+
+const DIALECTS: Record<string, I18nDialect> = {
+  postgres: 'postgres',
+  cockroachdb: 'postgres',
+  mysql: 'mysql',
+  mariadb: 'mysql',
+  'aurora-mysql': 'mysql',
+  sqlite: 'sqlite',
+  'better-sqlite3': 'sqlite',
+  sqljs: 'sqlite',
+  capacitor: 'sqlite',
+  cordova: 'sqlite',
+  expo: 'sqlite',
+  nativescript: 'sqlite',
+  'react-native': 'sqlite',
+};
+
+/**
+ * Counter used to generate unique parameter names for generated conditions.
+ */
+let parameterIndex = 0;
+
+/**
+ * Resolve the dialect family of a DataSource.
+ * @internal
+ */
+export function getI18nDialect(dataSource: DataSource): I18nDialect {
+  const dialect = DIALECTS[dataSource.driver.options.type];
+  if (!dialect) {
+    throw new Error(
+      `Queries on translated columns are not supported for database type "${dataSource.driver.options.type}"`
+    );
+  }
+  return dialect;
+}
+
+/**
+ * Build an SQL expression extracting a single language from a JSON column.
+ *
+ * @param dialect - The SQL dialect
+ * @param column - The column reference (e.g. "product.name")
+ * @param language - The language key to extract
+ * @returns The SQL expression returning the translation as text
+ *
+ * @example
+ * ```typescript
+ * jsonPathExpression('postgres', 'product.name', 'es'); // (product.name)::jsonb ->> 'es'
+ * jsonPathExpression('sqlite', 'product.name', 'es');   // json_extract(product.name, '$."es"')
+ * ```
+ * @internal
+ */
+export function jsonPathExpression(dialect: I18nDialect, column: string, language: string): string {
+  const key = language.replace(/['"\\]/g, '');
+
+  switch (dialect) {
+    case 'postgres':
+      return `((${column})::jsonb ->> '${key}')`;
+    case 'mysql':
+      return `JSON_UNQUOTE(JSON_EXTRACT(${column}, '$."${key}"'))`;
+    case 'sqlite':
+      return `json_extract(${column}, '$."${key}"')`;
+  }
+}
+
+/**
+ * Create a unique parameter name for generated conditions.
+ */
+function createParameterName(): string {
+  return `i18n_param_${parameterIndex++}`;
+}
+
+/**
+ * Translate a where value (plain value or FindOperator) into an SQL condition
+ * applied to an arbitrary expression.
+ *
+ * @param dialect - The SQL dialect
+ * @param expression - The SQL expression to compare (e.g. a JSON path expression)
+ * @param value - The plain value or FindOperator from the where clause
+ * @returns The SQL condition and its parameters
+ * @internal
+ */
+export function buildValueCondition(
+  dialect: I18nDialect,
+  expression: string,
+  value: unknown
+): { sql: string; parameters: ObjectLiteral } {
+  const parameters: ObjectLiteral = {};
+
+  const parameter = (parameterValue: unknown): string => {
+    const name = createParameterName();
+    parameters[name] = parameterValue;
+    return `:${name}`;
+  };
+
+  const build = (operand: unknown): string => {
+    if (!(operand instanceof FindOperator)) {
+      return operand === null ? `${expression} IS NULL` : `${expression} = ${parameter(operand)}`;
+    }
+
+    const operator = operand as FindOperator<any>;
+    const operatorValue = operator.child ?? operator.value;
+
+    switch (operator.type) {
+      case 'equal':
+        return build(operatorValue);
+      case 'not':
+        return `NOT(${build(operatorValue)})`;
+      case 'isNull':
+        return `${expression} IS NULL`;
+      case 'lessThan':
+        return `${expression} < ${parameter(operatorValue)}`;
+      case 'lessThanOrEqual':
+        return `${expression} <= ${parameter(operatorValue)}`;
+      case 'moreThan':
+        return `${expression} > ${parameter(operatorValue)}`;
+      case 'moreThanOrEqual':
+        return `${expression} >= ${parameter(operatorValue)}`;
+      case 'like':
+        return `${expression} LIKE ${parameter(operatorValue)}`;
+      case 'ilike':
+        return dialect === 'postgres'
+          ? `${expression} ILIKE ${parameter(operatorValue)}`
+          : `LOWER(${expression}) LIKE LOWER(${parameter(operatorValue)})`;
+      case 'between': {
+        const [from, to] = operator.value as unknown as [unknown, unknown];
+        return `${expression} BETWEEN ${parameter(from)} AND ${parameter(to)}`;
+      }
+      case 'in': {
+        const values = operator.value as unknown as unknown[];
+        if (values.length === 0) {
+          return '0=1';
+        }
+        return `${expression} IN (${values.map((item) => parameter(item)).join(', ')})`;
+      }
+      case 'raw':
+        Object.assign(parameters, operator.objectLiteralParameters);
+        return operator.getSql ? operator.getSql(expression) : `${expression} = ${operator.value}`;
+      case 'and':
+      case 'or': {
+        const operands = operator.value as unknown as unknown[];
+        const joiner = operator.type === 'and' ? ' AND ' : ' OR ';
+        return `(${operands.map((item) => build(item)).join(joiner)})`;
+      }
+      default:
+        throw new Error(`FindOperator "${operator.type}" is not supported on translated columns`);
+    }
+  };
+
+  return { sql: build(value), parameters };
+}
+
+/**
+ * Build a where value that matches one language of a JSON translation column.
+ * The returned Raw operator can be used in find options and QueryBuilder where objects.
+ *
+ * @param dialect - The SQL dialect
+ * @param language - The language to match
+ * @param value - The plain value or FindOperator from the where clause
+ * @internal
+ */
+export function jsonWhereValue(
+  dialect: I18nDialect,
+  language: string,
+  value: unknown
+): FindOperator<any> {
+  // Raw only passes the column alias when the query is built,
+  // so the condition is built against a placeholder and the alias substituted afterwards
+  const placeholder = '__i18n_column__';
+  const condition = buildValueCondition(
+    dialect,
+    jsonPathExpression(dialect, placeholder, language),
+    value
+  );
+
+  return Raw((alias) => condition.sql.split(placeholder).join(alias), condition.parameters);
+}
+
+/**
+ * Escape a (possibly schema-qualified) table path for use in raw SQL.
+ * @internal
+ */
+export function escapeTablePath(dataSource: DataSource, tablePath: string): string {
+  return tablePath
+    .split('.')
+    .map((part) => dataSource.driver.escape(part))
+    .join('.');
+}
+
+/**
+ * Escaped table and column references of the companion translation table of an entity,
+ * aliased as `i18n_t` for use in subqueries.
+ * @internal
+ */
+export function translationTableSql(dataSource: DataSource, target: Function) {
+  const escape = (name: string) => dataSource.driver.escape(name);
+  const metadata = dataSource.getMetadata(getI18nTranslationEntity(target));
+  const alias = escape('i18n_t');
+
+  return {
+    table: `${escapeTablePath(dataSource, metadata.tablePath)} ${alias}`,
+    column: (propertyName: string) =>
+      `${alias}.${escape(metadata.findColumnWithPropertyName(propertyName)!.databaseName)}`,
+  };
+}
+
+/**
+ * Build a where value that matches translations in the companion translation table.
+ * The condition is applied to the primary column: `id IN (SELECT entity_id ... WHERE locale = ...)`.
+ */
+function translationTableWhereValue(
+  dataSource: DataSource,
+  target: Function,
+  meta: I18nColumnMetadata,
+  language: string,
+  value: unknown
+): FindOperator<any> {
+  const { table, column } = translationTableSql(dataSource, target);
+  const localeParameter = createParameterName();
+  const condition = buildValueCondition(getI18nDialect(dataSource), column(meta.propertyName), value);
+
+  return Raw(
+    (alias) =>
+      `${alias} IN (SELECT ${column('entityId')} FROM ${table} ` +
+      `WHERE ${column('locale')} = :${localeParameter} AND ${condition.sql})`,
+    { ...condition.parameters, [localeParameter]: language }
+  );
+}
+
+/**
+ * Build an SQL expression returning the value of a translatable property in one language,
+ * for properties that are not stored in a column of their own (`json` and `table` storage).
+ *
+ * @param dataSource - The DataSource the query runs on
+ * @param target - The entity class
+ * @param meta - The I18n column metadata
+ * @param alias - The entity alias in the query
+ * @param requestedLanguage - The language to extract (matched to the closest configured variant)
+ * @returns The SQL expression and its parameters
+ * @internal
+ */
+export function languageExpression(
+  dataSource: DataSource,
+  target: Function,
+  meta: I18nColumnMetadata,
+  alias: string,
+  requestedLanguage: string
+): { sql: string; parameters: ObjectLiteral } {
+  const language = resolveColumnLanguage(meta, requestedLanguage);
+  if (meta.options.storage === 'json') {
+    return {
+      sql: jsonPathExpression(getI18nDialect(dataSource), `${alias}.${meta.propertyName}`, language),
+      parameters: {},
+    };
+  }
+
+  const { table, column } = translationTableSql(dataSource, target);
+  const primaryProperty = dataSource.getMetadata(target).primaryColumns[0].propertyName;
+  const localeParameter = createParameterName();
+
+  return {
+    sql:
+      `(SELECT ${column(meta.propertyName)} FROM ${table} ` +
+      `WHERE ${column('entityId')} = ${alias}.${primaryProperty} AND ${column('locale')} = :${localeParameter})`,
+    parameters: { [localeParameter]: language },
+  };
+}
+
+/**
+ * Translate a where entry on a translatable property that is not stored in a column of
+ * its own (`json` and `table` storage) and merge it into the transformed where object.
+ *
+ * @param dataSource - The DataSource the query runs on
+ * @param target - The entity class
+ * @param meta - The I18n column metadata
+ * @param requestedLanguage - The language to match (matched to the closest configured variant)
+ * @param value - The plain value or FindOperator from the where clause
+ * @param where - The transformed where object to merge into
+ * @internal
+ */
+export function addLanguageWhere(
+  dataSource: DataSource,
+  target: Function,
+  meta: I18nColumnMetadata,
+  requestedLanguage: string,
+  value: unknown,
+  where: ObjectLiteral
+): void {
+  const language = resolveColumnLanguage(meta, requestedLanguage);
+  if (meta.options.storage === 'json') {
+    mergeWhereValue(where, meta.propertyName, jsonWhereValue(getI18nDialect(dataSource), language, value));
+    return;
+  }
+
+  const primaryProperty = dataSource.getMetadata(target).primaryColumns[0].propertyName;
+  mergeWhereValue(
+    where,
+    primaryProperty,
+    translationTableWhereValue(dataSource, target, meta, language, value)
+  );
+}
+
+/**
+ * Set a where value, combining it with an existing value for the same key using And().
+ * @internal
+ */
+export function mergeWhereValue(where: ObjectLiteral, key: string, value: unknown): void {
+  if (where[key] === undefined) {
+    where[key] = value;
+    return;
+  }
+
+  const asOperator = (operand: unknown): FindOperator<any> =>
+    operand instanceof FindOperator ? operand : Equal(operand);
+  where[key] = And(asOperator(where[key]), asOperator(value));
+}
@@ -1,14 +1,57 @@
 import {
+  DataSource,
   EntitySubscriberInterface,
   EventSubscriber,
   InsertEvent,
   LoadEvent,
   UpdateEvent,
 } from 'typeorm';
-import { transformAfterLoad, transformBeforeSave } from './utils';
+import {
+  transformAfterLoad,
+  transformBeforeSave,
+  restoreI18nValues,
+  writeTranslations,
+  assignI18nValues,
+  forEachI18nEmbedded,
+} from './utils';
 import { I18N_LANGUAGE_KEY, I18nEntity } from './types';
 import { i18nMetadataStorage } from './metadata';
-import { getTranslationColumnName } from './decorator';
+import { saveI18nTranslations } from './translation-table';
+import { assertI18nTranslations, getWritableTranslations } from './validation';
+
+/**
+ * Build the column values of the translations set on an entity, with the values of
+ * embedded objects nested under their property. Returns undefined when no translations are set.
+ */
+function collectTranslationValues(
+  entity: any,
+  target: Function,
+  dataSource: DataSource
+): Record<string, any> | undefined {
+  const values: Record<string, any> = {};
+  let hasValues = false;
+
+  for (const meta of i18nMetadataStorage.getMetadata(target, dataSource)) {
+    const translationsKey = `${meta.propertyName}Translations`;
+    const translations: Record<string, any> | undefined = entity[translationsKey];
+
+    if (translations && typeof translations === 'object' && meta.options.storage !== 'table') {
+      hasValues = true;
+      // Flatten translations to column values
+      writeTranslations(values, meta, getWritableTranslations(entity, meta, translations));
+    }
+  }
+
+  forEachI18nEmbedded(entity, target, (embedded, type, propertyName) => {
+    const embeddedValues = collectTranslationValues(embedded, type, dataSource);
+    if (embeddedValues) {
+      hasValues = true;
+      values[propertyName] = embeddedValues;
+    }
+  }, dataSource);
+
+  return hasValues ? values : undefined;
+}
 
 /**
  * TypeORM entity subscriber that automatically transforms I18n columns
@@ -35,20 +78,33 @@ export class I18nSubscriber implements EntitySubscriberInterface {
    * Called after an entity is loaded from the database.
    * Transforms flat columns into single-value property and translations object.
    */
-  afterLoad(entity: any, _event?: LoadEvent<any>): void {
+  afterLoad(entity: any, event?: LoadEvent<any>): void {
     // Get the language from the entity if it was set by I18nRepository
     const language = (entity as I18nEntity)[I18N_LANGUAGE_KEY];
-    transformAfterLoad(entity, language);
+    transformAfterLoad(entity, language, event?.connection);
   }
 
   /**
    * Called before an entity is inserted into the database.
-   * Transforms I18nValue objects into flat columns.
+   * Rejects entities missing a required translation and transforms I18nValue objects into flat columns.
    */
   beforeInsert(event: InsertEvent<any>): void {
     if (event.entity) {
-      const transformed = transformBeforeSave(event.entity);
-      Object.assign(event.entity, transformed);
+      assertI18nTranslations([event.entity], undefined, event.connection);
+
+      const transformed = transformBeforeSave(event.entity, event.connection);
+      assignI18nValues(event.entity, transformed, event.entity.constructor, event.connection);
+    }
+  }
+
+  /**
+   * Called after an entity is inserted into the database.
+   * Writes table-stored translations and restores the current language value of JSON-stored columns.
+   */
+  async afterInsert(event: InsertEvent<any>): Promise<void> {
+    if (event.entity) {
+      await saveI18nTranslations(event.manager, event.entity);
+      restoreI18nValues(event.entity, event.entity.constructor, event.connection);
     }
   }
 
@@ -64,33 +120,15 @@ export class I18nSubscriber implements EntitySubscriberInterface {
       return;
     }
 
-    const metadata = i18nMetadataStorage.getMetadata(event.entity.constructor);
-    if (metadata.length === 0) {
+    if (!i18nMetadataStorage.hasI18nColumns(event.entity.constructor, event.connection)) {
       return;
     }
 
     // Build update values from translations
-    const updateValues: Record<string, any> = {};
-    let hasI18nUpdates = false;
-
-    for (const meta of metadata) {
-      const translationsKey = `${meta.propertyName}Translations`;
-      const translations: Record<string, any> | undefined = event.entity[translationsKey];
-
-      if (translations && typeof translations === 'object') {
-        hasI18nUpdates = true;
-        // Flatten translations to column values
-        for (const [lang, value] of Object.entries(translations) as [string, any][]) {
-          const columnName = lang === meta.options.default_language
-            ? meta.propertyName
-            : getTranslationColumnName(meta.propertyName, lang);
-          updateValues[columnName] = value;
-        }
-      }
-    }
+    const updateValues = collectTranslationValues(event.entity, event.entity.constructor, event.connection);
 
     // Execute direct update for i18n columns if there are changes
-    if (hasI18nUpdates && event.metadata.primaryColumns.length > 0) {
+    if (updateValues && event.metadata.primaryColumns.length > 0) {
       const primaryColumn = event.metadata.primaryColumns[0];
       const primaryValue = event.entity[primaryColumn.propertyName];
 
@@ -105,7 +143,18 @@ export class I18nSubscriber implements EntitySubscriberInterface {
     }
 
     // Also transform for any other processing
-    const transformed = transformBeforeSave(event.entity);
-    Object.assign(event.entity, transformed);
+    const transformed = transformBeforeSave(event.entity, event.connection);
+    assignI18nValues(event.entity, transformed, event.entity.constructor, event.connection);
+  }
+
+  /**
+   * Called after an entity is updated in the database.
+   * Writes table-stored translations and restores the current language value of JSON-stored columns.
+   */
+  async afterUpdate(event: UpdateEvent<any>): Promise<void> {
+    if (event.entity) {
+      await saveI18nTranslations(event.manager, event.entity);
+      restoreI18nValues(event.entity, event.entity.constructor, event.connection);
+    }
   }
 }
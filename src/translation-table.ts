@@ -0,0 +1,238 @@
+import {
+  DataSource,
+  Entity,
+  EntityManager,
+  getMetadataArgsStorage,
+  JoinColumn,
+  ManyToOne,
+  OneToMany,
+  PrimaryColumn,
+  SelectQueryBuilder,
+} from 'typeorm';
+import { I18N_TRANSLATIONS_RELATION } from './constants';
+import { getColumnFallbackChain } from './fallback';
+import { matchColumnLanguage } from './naming-strategy';
+import { getWritableTranslations, resolveWritableLanguage } from './validation';
+import { getInheritanceTree, i18nMetadataStorage } from './metadata';
+import { I18N_LANGUAGE_KEY, I18nEntity } from './types';
+
+/**
+ * Companion translation entities, keyed by the entity they translate
+ */
+const translationEntities = new Map<Function, Function>();
+
+/**
+ * Entities whose translation rows were written during the current save
+ */
+const savedTranslations = new WeakSet<object>();
+
+/**
+ * Find the companion translation entity of an entity or of the parent class declaring
+ * its table-stored columns (e.g. the `@TableInheritance` parent of a child entity)
+ */
+function findTranslationEntity(target: Function): Function | undefined {
+  for (const cls of getInheritanceTree(target)) {
+    const translationEntity = translationEntities.get(cls);
+    if (translationEntity) {
+      return translationEntity;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Create (or return the existing) companion translation entity for an entity.
+ * The companion has an `entity_id` and `locale` composite primary key and
+ * receives one column per translatable property stored with `storage: 'table'`.
+ *
+ * @param target - The entity class being translated
+ * @param tableName - Optional table name (defaults to the naming strategy for `{Entity}Translation`)
+ * @internal
+ */
+export function registerTranslationEntity(target: Function, tableName?: string): Function {
+  const existing = findTranslationEntity(target);
+  if (existing) {
+    return existing;
+  }
+
+  const className = `${target.name}Translation`;
+  const translationEntity = { [className]: class {} }[className];
+
+  Entity(tableName)(translationEntity);
+
+  // The join column type is copied from the referenced primary column when metadata is built
+  getMetadataArgsStorage().columns.push({
+    target: translationEntity,
+    propertyName: 'entityId',
+    mode: 'regular',
+    options: { name: 'entity_id', primary: true },
+  });
+  PrimaryColumn({ type: 'varchar', length: 35 })(translationEntity.prototype, 'locale');
+  ManyToOne(() => target, { onDelete: 'CASCADE' })(translationEntity.prototype, 'entity');
+  JoinColumn({ name: 'entity_id' })(translationEntity.prototype, 'entity');
+
+  // Translations are joined by I18nRepository and I18nQueryBuilder, for the languages they load
+  OneToMany(() => translationEntity, (translation: any) => translation.entity)(
+    target.prototype,
+    I18N_TRANSLATIONS_RELATION
+  );
+
+  translationEntities.set(target, translationEntity);
+  return translationEntity;
+}
+
+/**
+ * Get the companion translation entity of an entity using `storage: 'table'`.
+ * List it in the DataSource entities next to the entity.
+ *
+ * @param target - The entity class
+ * @returns The translation entity class
+ *
+ * @example
+ * ```typescript
+ * const translations = await dataSource
+ *   .getRepository(getI18nTranslationEntity(Product))
+ *   .findBy({ locale: 'es' });
+ * ```
+ */
+export function getI18nTranslationEntity(target: Function): Function {
+  const translationEntity = findTranslationEntity(target);
+  if (!translationEntity) {
+    throw new Error(`${target.name} has no I18nColumn with storage "table"`);
+  }
+  return translationEntity;
+}
+
+/**
+ * Join the companion translation table of an entity to a query. Only the rows of the languages
+ * its table-stored properties are read in are loaded: the language they resolve `language` to
+ * and, with the `chain` fallback policy, its fallback chain. Every row is loaded when no
+ * language is given, as the translations of all languages are requested.
+ *
+ * @param qb - The query, selecting the entity as its main alias
+ * @param target - The entity class
+ * @param language - The language of the query, or null to load all languages
+ * @internal
+ */
+export function joinI18nTranslations(qb: SelectQueryBuilder<any>, target: Function, language: string | null): void {
+  const metadata = i18nMetadataStorage
+    .getMetadata(target, qb.connection)
+    .filter((meta) => meta.options.storage === 'table');
+  const mainAlias = qb.expressionMap.mainAlias!.name;
+  const relationPath = `${mainAlias}.${I18N_TRANSLATIONS_RELATION}`;
+  if (!metadata.length || qb.expressionMap.joinAttributes.some((join) => join.entityOrProperty === relationPath)) {
+    return;
+  }
+
+  const alias = `${mainAlias}_i18n`;
+  if (!language) {
+    qb.leftJoinAndSelect(relationPath, alias);
+    return;
+  }
+
+  const locales = new Set<string>();
+  for (const meta of metadata) {
+    // Languages the column doesn't have are read from its chain, ending with its default language
+    locales.add(matchColumnLanguage(meta, language) ?? meta.options.default_language);
+    if (meta.options.fallbackPolicy === 'chain') {
+      getColumnFallbackChain(meta, language).forEach((locale) => locales.add(locale));
+    }
+  }
+  qb.leftJoinAndSelect(relationPath, alias, `${alias}.locale IN (:...${alias}_locales)`, {
+    [`${alias}_locales`]: [...locales],
+  });
+}
+
+/**
+ * Build the translation rows of an entity, one per language with at least one value.
+ */
+function buildTranslationRows(entity: any, entityId: unknown, dataSource: DataSource): Record<string, any>[] {
+  const metadata = i18nMetadataStorage
+    .getMetadata(entity.constructor, dataSource)
+    .filter((meta) => meta.options.storage === 'table');
+  const currentLanguage = (entity as I18nEntity)[I18N_LANGUAGE_KEY];
+  const rows = new Map<string, Record<string, any>>();
+
+  const setValue = (language: string, propertyName: string, value: unknown) => {
+    const row = rows.get(language) ?? { entityId, locale: language };
+    row[propertyName] = value;
+    rows.set(language, row);
+  };
+
+  for (const meta of metadata) {
+    const translations = entity[`${meta.propertyName}Translations`];
+    const singleValue = entity[meta.propertyName];
+
+    if (translations && typeof translations === 'object') {
+      const writable = getWritableTranslations(entity, meta, translations);
+      for (const lang of meta.options.languages) {
+        if (writable[lang] !== undefined) {
+          setValue(lang, meta.propertyName, writable[lang]);
+        }
+      }
+    } else if (singleValue !== undefined) {
+      setValue(
+        resolveWritableLanguage(meta, currentLanguage || meta.options.default_language),
+        meta.propertyName,
+        singleValue
+      );
+    }
+  }
+
+  return [...rows.values()];
+}
+
+/**
+ * Write the translation rows of an entity to its companion translation table.
+ * Rows are upserted per language, so languages missing on the entity are kept.
+ *
+ * @param manager - The EntityManager to write with (e.g. the subscriber's transactional manager)
+ * @param entity - The saved entity
+ * @internal
+ */
+export async function saveI18nTranslations(manager: EntityManager, entity: object): Promise<void> {
+  const translationEntity = findTranslationEntity(entity.constructor);
+  if (!translationEntity) {
+    return;
+  }
+
+  const { primaryColumns } = manager.connection.getMetadata(entity.constructor);
+  if (primaryColumns.length !== 1) {
+    throw new Error(
+      `I18nColumn storage "table" requires ${entity.constructor.name} to have exactly one primary column`
+    );
+  }
+
+  const entityId = primaryColumns[0].getEntityValue(entity);
+  if (entityId === undefined || entityId === null) {
+    return;
+  }
+
+  // Rows are upserted in groups with the same properties, as an upsert overwrites every
+  // column set on any of its rows and would clear properties missing on the others
+  const groups = new Map<string, Record<string, any>[]>();
+  for (const row of buildTranslationRows(entity, entityId, manager.connection)) {
+    const key = Object.keys(row).sort().join(',');
+    groups.set(key, [...(groups.get(key) ?? []), row]);
+  }
+  for (const rows of groups.values()) {
+    await manager.upsert(translationEntity, rows, ['entityId', 'locale']);
+  }
+  savedTranslations.add(entity);
+}
+
+/**
+ * Forget that the translation rows of an entity were written (before a new save).
+ * @internal
+ */
+export function resetSavedI18nTranslations(entity: object): void {
+  savedTranslations.delete(entity);
+}
+
+/**
+ * Check whether the translation rows of an entity were written since the last reset.
+ * @internal
+ */
+export function hasSavedI18nTranslations(entity: object): boolean {
+  return savedTranslations.has(entity);
+}
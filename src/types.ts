@@ -1,3 +1,6 @@
+import type { ColumnOptions, RelationOptions, ValueTransformer } from 'typeorm';
+import type { I18nNamingStrategy } from './naming-strategy';
+
 /**
  * Represents a multilingual value with strong typing support for specified languages and value types.
  *
@@ -32,6 +35,30 @@ export const I18N_LANGUAGE_KEY = Symbol('i18nLanguage');
  */
 export const I18N_TRANSLATIONS_SET_KEY = Symbol('i18nTranslationsSet');
 
+/**
+ * Symbol used to store the language the single value of each I18n property of a loaded
+ * entity was taken from, by property name (see getResolvedLanguage() and isFallback()).
+ */
+export const I18N_RESOLVED_LANGUAGES_KEY = Symbol('i18nResolvedLanguages');
+
+/**
+ * Language the single value of an I18n property was taken from
+ */
+export interface I18nResolvedLanguage {
+  /** Language of the value (e.g. "en") */
+  language: string;
+  /** Whether the value comes from a fallback language instead of the current one */
+  fallback: boolean;
+}
+
+/**
+ * Lifecycle status of a language of an I18n column:
+ * - `active`: loaded and written
+ * - `deprecated`: loaded, but writing it is rejected
+ * - `archived`: neither loaded nor written, its columns and stored translations are kept
+ */
+export type I18nLanguageStatus = 'active' | 'deprecated' | 'archived';
+
 /**
  * Interface for entities with I18n support.
  * Entities using @I18nColumn will have these internal properties set.
@@ -39,6 +66,7 @@ export const I18N_TRANSLATIONS_SET_KEY = Symbol('i18nTranslationsSet');
 export interface I18nEntity {
   [I18N_LANGUAGE_KEY]?: string;
   [I18N_TRANSLATIONS_SET_KEY]?: Set<string>;
+  [I18N_RESOLVED_LANGUAGES_KEY]?: Record<string, I18nResolvedLanguage>;
 }
 
 /**
@@ -48,6 +76,131 @@ export interface I18nEntity {
  */
 export type TranslationsKey<T extends string> = `${T}Translations`;
 
+/**
+ * The translations properties of the I18n properties of an entity, typed by the language union.
+ * Merge it into the entity class instead of declaring each translations property by hand.
+ *
+ * @template T - The entity type
+ * @template TKeys - The I18n properties of the entity
+ * @template TLang - Union type of supported language codes
+ *
+ * @example
+ * ```typescript
+ * @Entity()
+ * class Product {
+ *   @I18nColumn({ type: 'varchar', length: 255 })
+ *   name!: string;
+ * }
+ *
+ * interface Product extends I18nTranslations<Product, 'name', 'en' | 'es'> {}
+ *
+ * product.nameTranslations = { en: 'Laptop', es: 'Portátil' };
+ * ```
+ */
+export type I18nTranslations<T, TKeys extends keyof T & string, TLang extends string> = {
+  [K in TKeys as TranslationsKey<K>]?: I18nValue<TLang, T[K]>;
+};
+
+/**
+ * An entity type with the translations properties of its I18n properties.
+ *
+ * @example
+ * ```typescript
+ * type LocalizedProduct = WithI18n<Product, 'name' | 'description', 'en' | 'es'>;
+ * // Product & {
+ * //   nameTranslations?: I18nValue<'en' | 'es', string>;
+ * //   descriptionTranslations?: I18nValue<'en' | 'es', string>;
+ * // }
+ * ```
+ */
+export type WithI18n<T, TKeys extends keyof T & string, TLang extends string> = T & I18nTranslations<T, TKeys, TLang>;
+
+/**
+ * The language codes accepted for a language union: the codes in any case and their regional variants.
+ *
+ * @example
+ * ```typescript
+ * type Codes = I18nLanguageCode<'en' | 'es'>; // 'en' | 'EN' | 'en-US' | 'es_MX' | ...
+ * ```
+ */
+export type I18nLanguageCode<TLang extends string> =
+  | TLang
+  | Uppercase<TLang>
+  | Capitalize<TLang>
+  | `${TLang | Uppercase<TLang>}${'-' | '_'}${string}`;
+
+/**
+ * How the translations of an I18nColumn are stored in the database.
+ *
+ * - `columns`: one physical column per language (`name`, `name_es`, `name_fr`)
+ * - `json`: all translations in a single JSON column (`name` = `{ "en": ..., "es": ... }`)
+ * - `table`: one row per language in a companion table (`product_translation`)
+ */
+export type I18nStorageStrategy = 'columns' | 'json' | 'table';
+
+/**
+ * Fallback chains by language: the languages tried in order when a language has no translation.
+ * The `*` entry applies to languages without a chain of their own.
+ *
+ * @example { 'pt-br': ['pt', 'en'], '*': ['en'] }
+ */
+export type I18nFallbacks = Readonly<Record<string, readonly string[]>>;
+
+/**
+ * What loaded entities show when the current language has no translation:
+ * - `chain`: the first translation of the fallback chain (`fallbacks`, then `fallback`)
+ * - `none`: no fallback, the value is empty
+ * - `error`: no fallback, an I18nMissingTranslationError is thrown
+ */
+export type I18nFallbackPolicy = 'chain' | 'none' | 'error';
+
+/**
+ * Normalization of the search columns of an I18nColumn:
+ * `lowercase` ignores case, `unaccent` ignores accents ("Café" matches "cafe")
+ */
+export type I18nSearchNormalization = 'lowercase' | 'unaccent';
+
+/**
+ * Options of the search columns of an I18nColumn.
+ */
+export interface I18nSearchableOptions {
+  /**
+   * Normalizations applied to the stored values and to the patterns compared with them
+   */
+  normalize: I18nSearchNormalization[];
+}
+
+/**
+ * Options of the per-language indexes of an I18nColumn.
+ */
+export interface I18nIndexOptions {
+  /**
+   * Index name per language: a template with a `{language}` placeholder or a function.
+   * Defaults to `IDX_{Entity}_{columns}_{language}` (`UQ_` for unique indexes),
+   * e.g. `UQ_Product_tenantId_slug_es`.
+   */
+  name?: string | ((language: string) => string);
+
+  /**
+   * Non-i18n properties placed before the language column for composite indexes
+   * (`storage: 'columns'` only).
+   *
+   * @example ['tenantId']
+   */
+  columns?: string[];
+
+  /**
+   * Condition of a partial index
+   */
+  where?: string;
+
+  /**
+   * Create FULLTEXT indexes, which MySQL needs for I18nRepository.search()
+   * (`storage: 'columns'` only)
+   */
+  fulltext?: boolean;
+}
+
 /**
  * Configuration options for the @I18nColumn decorator.
  * Extends TypeORM's ColumnOptions to include all column configuration options.
@@ -76,6 +229,121 @@ export interface I18nColumnOptions<T extends string = string> {
    */
   default_language?: T;
 
+  /**
+   * Name of a language profile of the global configuration (see setI18nConfig()) to take
+   * `languages`, `default_language` and `required` from. Options given here still win.
+   *
+   * @example 'legal'
+   */
+  profile?: string;
+
+  /**
+   * Storage strategy for the translations (default: 'columns').
+   * With 'json', `type` must be a JSON column type ('jsonb', 'json' or 'simple-json') or 'text'
+   * (serialized like 'simple-json'), and adding a language requires no schema change.
+   * With 'table', translations are stored in a companion entity
+   * (see getI18nTranslationEntity()) with `entity_id`, `locale` and one column per property.
+   */
+  storage?: I18nStorageStrategy;
+
+  /**
+   * Table name of the companion translation entity for `storage: 'table'`.
+   * Defaults to the naming strategy's name for `{Entity}Translation` (e.g. `product_translation`).
+   * Only the first table-stored column of an entity can set it.
+   */
+  translationTable?: string;
+
+  /**
+   * Naming strategy for the per-language columns of this property (`storage: 'columns'` only).
+   * Defaults to the global naming strategy, then `name_es`.
+   */
+  namingStrategy?: I18nNamingStrategy;
+
+  /**
+   * TypeORM column options overriding the column options for individual languages
+   * (`storage: 'columns'` only). Language columns are nullable unless overridden here.
+   *
+   * @example { de: { length: 400 }, ja: { collation: 'utf8mb4_ja_0900_as_cs' } }
+   */
+  perLanguage?: { [K in T]?: ColumnOptions };
+
+  /**
+   * Languages that must always have a translation. Their columns are NOT NULL
+   * (`storage: 'columns'`), and I18nRepository.save()/create() and I18nSubscriber
+   * reject entities missing one of them with an I18nValidationError.
+   * If not provided, uses global configuration from setI18nConfig().
+   *
+   * @example ['en', 'es']
+   */
+  required?: readonly T[];
+
+  /**
+   * Languages that are being retired: still loaded into `nameTranslations`, but writing
+   * them is rejected with an I18nLanguageStatusError. Can't include `default_language`
+   * or required languages. If not provided, uses global configuration from setI18nConfig().
+   *
+   * @example ['de']
+   */
+  deprecated?: readonly T[];
+
+  /**
+   * Retired languages: neither loaded nor written, while their columns and stored translations
+   * are kept. Can't include `default_language` or required languages.
+   * If not provided, uses global configuration from setI18nConfig().
+   *
+   * @example ['it']
+   */
+  archived?: readonly T[];
+
+  /**
+   * Language whose translation is used for the single value (e.g. `product.name`) of
+   * loaded entities when the current language has none. Without it the value is empty.
+   *
+   * @example 'en'
+   */
+  fallback?: T;
+
+  /**
+   * Fallback chains by language, merged over those of the entity and the global configuration.
+   * Tried before `fallback`; languages the column doesn't have are skipped.
+   *
+   * @example { 'pt-br': ['pt', 'en'], '*': ['en'] }
+   */
+  fallbacks?: I18nFallbacks;
+
+  /**
+   * What loaded entities show when the current language has no translation (default: 'chain')
+   */
+  fallbackPolicy?: I18nFallbackPolicy;
+
+  /**
+   * Create one index per language column (`storage: 'columns'`), or one index on
+   * `(locale, property)` of the translation table (`storage: 'table'`).
+   */
+  index?: boolean | I18nIndexOptions;
+
+  /**
+   * Store a sort key next to each language column (`name_sort`, `name_es_sort`) and order
+   * by it, so values are ordered alphabetically in their language on databases without
+   * locale collations (SQLite). Requires storage "columns".
+   */
+  sortKey?: boolean;
+
+  /**
+   * Store a normalized copy of each language column (`name_search`, `name_es_search`) that
+   * `Like` and `ILike` conditions of I18nRepository where clauses are compared with, so searches
+   * ignore case and accents without database extensions. Requires storage "columns".
+   *
+   * @example { normalize: ['lowercase', 'unaccent'] }
+   */
+  searchable?: I18nSearchableOptions;
+
+  /**
+   * Like `index`, but creates unique indexes - values are unique per language.
+   * Replaces TypeORM's column-level `unique`, which would be cloned to every language column.
+   */
+  unique?: boolean | I18nIndexOptions;
+
   /**
    * Database column type (varchar, text, int, blob, etc.)
    * This is required to properly create the database columns.
@@ -91,7 +359,7 @@ export interface I18nColumnOptions<T extends string = string> {
 
   /**
    * Whether the default language column should be nullable.
-   * Additional language columns are always nullable.
+   * Additional language columns are nullable unless overridden with `perLanguage`.
    */
   nullable?: boolean;
 
@@ -100,12 +368,86 @@ export interface I18nColumnOptions<T extends string = string> {
    */
   default?: any;
 
+  /**
+   * TypeORM value transformer(s), applied to the value of every language on every read and
+   * write: to each language column, to each translation row of `storage: 'table'`, and to
+   * each language value inside the column of `storage: 'json'` (rather than the whole object).
+   *
+   * @example { to: (value) => encrypt(value), from: (value) => decrypt(value) }
+   */
+  transformer?: ValueTransformer | ValueTransformer[];
+
   /**
    * Additional TypeORM column options
    */
   [key: string]: any;
 }
 
+/**
+ * Configuration options for the @I18nEntity decorator: defaults for all I18n columns
+ * of the entity, taking precedence over the global configuration set via setI18nConfig().
+ * Options given on an @I18nColumn still win.
+ *
+ * @template T - Union type of supported language codes
+ */
+export interface I18nEntityOptions<T extends string = string> {
+  /**
+   * Array of supported language codes of all I18n columns of the entity.
+   *
+   * @example ['en', 'es', 'cn']
+   */
+  languages?: readonly T[];
+
+  /**
+   * The default language code of all I18n columns of the entity.
+   *
+   * @example 'en'
+   */
+  default_language?: T;
+
+  /**
+   * Name of a language profile of the global configuration to take `languages`,
+   * `default_language` and `required` from (see I18nColumnOptions.profile).
+   */
+  profile?: string;
+
+  /**
+   * Languages that must always have a translation (see I18nColumnOptions.required).
+   */
+  required?: readonly T[];
+
+  /**
+   * Languages that are loaded but can't be written (see I18nColumnOptions.deprecated).
+   */
+  deprecated?: readonly T[];
+
+  /**
+   * Languages that are neither loaded nor written (see I18nColumnOptions.archived).
+   */
+  archived?: readonly T[];
+
+  /**
+   * Language used when the current language has no translation (see I18nColumnOptions.fallback).
+   */
+  fallback?: T;
+
+  /**
+   * Fallback chains by language (see I18nColumnOptions.fallbacks).
+   */
+  fallbacks?: I18nFallbacks;
+
+  /**
+   * What loaded entities show when the current language has no translation
+   * (see I18nColumnOptions.fallbackPolicy).
+   */
+  fallbackPolicy?: I18nFallbackPolicy;
+
+  /**
+   * Naming strategy for the per-language columns of the entity.
+   */
+  namingStrategy?: I18nNamingStrategy;
+}
+
 /**
  * Resolved I18n column options with required languages and default_language.
  * Used internally for storing metadata after merging global and column-level config.
@@ -113,6 +455,51 @@ export interface I18nColumnOptions<T extends string = string> {
 export interface ResolvedI18nColumnOptions<T extends string = string> {
   languages: readonly T[];
   default_language: T;
+  storage: I18nStorageStrategy;
+  namingStrategy: I18nNamingStrategy;
+  required: readonly T[];
+  /** Name of the language profile the languages were taken from */
+  profile?: string;
+  /** Language used for the single value when the current language has no translation */
+  fallback?: T;
+  /** Normalized fallback chains by language, with `*` for the other languages */
+  fallbacks: Readonly<Record<string, readonly string[]>>;
+  /** What the single value is when the current language has no translation */
+  fallbackPolicy: I18nFallbackPolicy;
+  /** Languages that are loaded but can't be written */
+  deprecated: readonly T[];
+  /** Languages that are neither loaded nor written */
+  archived: readonly T[];
+  /** Transformer of each language value, applied by the library to the values of JSON storage */
+  transformer?: ValueTransformer | ValueTransformer[];
+  /** Whether each language column has a sort key column */
+  sortKey: boolean;
+  /** Normalization of the search column of each language column, when it has them */
+  searchable?: I18nSearchableOptions;
+}
+
+/**
+ * Configuration options for the @I18nRelation decorator: the language options of
+ * @I18nColumn and TypeORM's relation options, which apply to the relation of every language.
+ *
+ * @template T - Union type of supported language codes
+ */
+export interface I18nRelationOptions<T extends string = string>
+  extends Pick<
+      I18nColumnOptions<T>,
+      'languages' | 'default_language' | 'profile' | 'namingStrategy' | 'required' | 'fallback'
+    >,
+    Pick<I18nColumnOptions<T>, 'fallbacks' | 'fallbackPolicy'>,
+    Pick<I18nColumnOptions<T>, 'deprecated' | 'archived'>,
+    RelationOptions {
+  /**
+   * Database name of the foreign key column of the default language. The foreign keys of
+   * other languages are named after it by the naming strategy (`hero_image_id_es`).
+   * Defaults to the names derived by TypeORM's naming strategy from the relation properties.
+   *
+   * @example 'hero_image_id'
+   */
+  joinColumn?: string;
 }
 
 /**
@@ -122,13 +509,26 @@ export interface I18nColumnMetadata<T extends string = string> {
   target: Function;
   propertyName: string;
   options: ResolvedI18nColumnOptions<T>;
+  /** Whether the property is an @I18nRelation, with a many-to-one relation per language */
+  relation?: boolean;
+}
+
+/**
+ * Internal metadata of an embedded property (`@Column(() => SeoMeta)`) whose class
+ * has I18n columns, directly or in nested embeddeds.
+ */
+export interface I18nEmbeddedMetadata {
+  propertyName: string;
+  type: Function;
 }
 
 /**
  * Utility type that converts I18nValue properties to their base value type.
  * This allows type-safe queries without needing `as any`.
+ * Translations properties cannot be queried and are left out.
  *
  * @template T - The entity type
+ * @template TLang - Union type of supported language codes, to only accept I18nValue properties of these languages
  *
  * @example
  * ```typescript
@@ -146,8 +546,8 @@ export interface I18nColumnMetadata<T extends string = string> {
  * // }
  * ```
  */
-export type I18nWhere<T> = {
-  [K in keyof T]?: T[K] extends I18nValue<any, infer V>
+export type I18nWhere<T, TLang extends string = string> = {
+  [K in keyof T as K extends TranslationsKey<string> ? never : K]?: T[K] extends I18nValue<TLang, infer V>
     ? V | null
     : T[K] extends object
       ? T[K] | null
@@ -186,7 +586,7 @@ export type I18nWhere<T> = {
  * });
  * ```
  */
-export function i18nWhere<T>(where: I18nWhere<T>): any {
+export function i18nWhere<T, TLang extends string = string>(where: I18nWhere<T, TLang>): any {
   return where;
 }
 
@@ -211,6 +611,6 @@ export function i18nWhere<T>(where: I18nWhere<T>): any {
  * });
  * ```
  */
-export function i18nWhereMany<T>(whereClauses: I18nWhere<T>[]): any[] {
+export function i18nWhereMany<T, TLang extends string = string>(whereClauses: I18nWhere<T, TLang>[]): any[] {
   return whereClauses;
 }
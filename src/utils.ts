@@ -1,11 +1,37 @@
+import type { DataSource } from 'typeorm';
+import { ApplyValueTransformers } from 'typeorm/util/ApplyValueTransformers';
 import {
+  I18nFallbackPolicy,
+  I18nFallbacks,
   I18nValue,
   I18N_LANGUAGE_KEY,
   I18N_TRANSLATIONS_SET_KEY,
+  I18N_RESOLVED_LANGUAGES_KEY,
   I18nEntity,
+  I18nResolvedLanguage,
+  I18nColumnMetadata,
 } from './types';
 import { getTranslationColumnName } from './decorator';
+import {
+  getSearchPropertyName,
+  getSortKeyPropertyName,
+  getTranslationPropertyName,
+  I18nNamingStrategy,
+  matchColumnLanguage,
+} from './naming-strategy';
+import { createSortKey } from './collation';
+import { getI18nConfig } from './config';
+import { getColumnFallbackChain, getFallbackChain, normalizeI18nFallbacks } from './fallback';
+import { matchLanguage, normalizeLanguageCode } from './language-utils';
+import { normalizeSearchText } from './search';
 import { i18nMetadataStorage } from './metadata';
+import { I18N_TRANSLATIONS_RELATION } from './constants';
+import {
+  I18nMissingTranslationError,
+  getWritableTranslations,
+  rememberLoadedTranslations,
+  resolveWritableLanguage,
+} from './validation';
 
 /**
  * Creates an I18nValue object from a flat database result.
@@ -16,6 +42,7 @@ import { i18nMetadataStorage } from './metadata';
  * @param propertyName - The base property name (e.g., "name")
  * @param languages - Array of language codes
  * @param defaultLanguage - The default language code
+ * @param namingStrategy - Naming strategy of the translation columns (defaults to the global one)
  * @returns An I18nValue object with all translations
  *
  * @example
@@ -29,7 +56,8 @@ export function createI18nValue<TLang extends string, TValue = string>(
   entity: any,
   propertyName: string,
   languages: readonly TLang[],
-  defaultLanguage: TLang
+  defaultLanguage: TLang,
+  namingStrategy?: I18nNamingStrategy
 ): I18nValue<TLang, TValue> {
   const result: Partial<I18nValue<TLang, TValue>> = {};
 
@@ -37,7 +65,7 @@ export function createI18nValue<TLang extends string, TValue = string>(
     const columnName =
       lang === defaultLanguage
         ? propertyName
-        : getTranslationColumnName(propertyName, lang);
+        : getTranslationColumnName(propertyName, lang, namingStrategy);
 
     result[lang as TLang] = entity[columnName];
   }
@@ -47,27 +75,52 @@ export function createI18nValue<TLang extends string, TValue = string>(
 
 /**
  * Extracts a single language value from an I18nValue object.
+ * When the language has no translation, the languages of the fallback are tried in order:
+ * a language, a chain of languages, or fallback chains by language. Without a fallback,
+ * the `fallbacks` of the global configuration are used.
  *
  * @template TLang - Union type of supported language codes
  * @template TValue - The type of value stored for each language
  * @param i18nValue - The I18nValue object
  * @param language - The language code to extract
- * @param fallbackLanguage - Optional fallback language if the requested language is not available
+ * @param fallback - Optional fallback language(s) if the requested language is not available
  * @returns The translation value for the specified language
  *
  * @example
  * ```typescript
- * const name: I18nValue<'en' | 'es', string> = { en: 'Hello', es: 'Hola' };
+ * const name: I18nValue<'en' | 'es' | 'pt', string> = { en: 'Hello', es: 'Hola', pt: null };
  * const english = getTranslation(name, 'en'); // 'Hello'
  * const spanish = getTranslation(name, 'es'); // 'Hola'
+ * getTranslation(name, 'pt', ['es', 'en']); // 'Hola'
+ * getTranslation(name, 'pt', { pt: ['en'], '*': ['es'] }); // 'Hello'
  * ```
  */
 export function getTranslation<TLang extends string, TValue = string>(
   i18nValue: I18nValue<TLang, TValue>,
   language: TLang,
-  fallbackLanguage?: TLang
+  fallback?: TLang | readonly TLang[] | I18nFallbacks
 ): TValue | undefined {
-  return i18nValue[language] ?? (fallbackLanguage ? i18nValue[fallbackLanguage] : undefined);
+  if (i18nValue[language] != null) {
+    return i18nValue[language];
+  }
+
+  let chain: readonly string[];
+  if (typeof fallback === 'string' || Array.isArray(fallback)) {
+    chain = typeof fallback === 'string' ? [fallback] : fallback;
+  } else {
+    const fallbacks = (fallback as I18nFallbacks | undefined) ?? getI18nConfig().fallbacks ?? {};
+    chain = getFallbackChain(normalizeI18nFallbacks(fallbacks), language);
+  }
+
+  // Languages of the chain are normalized, keys of the value may not be
+  const keys = Object.keys(i18nValue) as TLang[];
+  for (const candidate of chain) {
+    const key = keys.find((lang) => normalizeLanguageCode(lang) === normalizeLanguageCode(candidate));
+    if (key !== undefined && i18nValue[key] != null) {
+      return i18nValue[key];
+    }
+  }
+  return undefined;
 }
 
 /**
@@ -78,6 +131,7 @@ export function getTranslation<TLang extends string, TValue = string>(
  * @param propertyName - The base property name
  * @param i18nValue - The I18nValue object to flatten
  * @param defaultLanguage - The default language code
+ * @param namingStrategy - Naming strategy of the translation columns (defaults to the global one)
  * @returns A flat object with separate properties for each language
  *
  * @example
@@ -94,7 +148,8 @@ export function getTranslation<TLang extends string, TValue = string>(
 export function flattenI18nValue<TLang extends string, TValue = string>(
   propertyName: string,
   i18nValue: I18nValue<TLang, TValue>,
-  defaultLanguage: TLang
+  defaultLanguage: TLang,
+  namingStrategy?: I18nNamingStrategy
 ): Record<string, TValue> {
   const result: Record<string, TValue> = {};
 
@@ -102,7 +157,7 @@ export function flattenI18nValue<TLang extends string, TValue = string>(
     const columnName =
       lang === defaultLanguage
         ? propertyName
-        : getTranslationColumnName(propertyName, lang);
+        : getTranslationColumnName(propertyName, lang, namingStrategy);
 
     result[columnName] = value as TValue;
   }
@@ -110,12 +165,300 @@ export function flattenI18nValue<TLang extends string, TValue = string>(
   return result;
 }
 
+/**
+ * Calls the callback for each embedded object of an entity (`@Column(() => SeoMeta)`)
+ * whose class has I18n columns. Embedded objects are handled like entities of their class.
+ * @internal
+ */
+export function forEachI18nEmbedded(
+  entity: object,
+  target: Function,
+  callback: (embedded: any, type: Function, propertyName: string) => void,
+  dataSource?: DataSource
+): void {
+  for (const { propertyName, type } of i18nMetadataStorage.getEmbeddeds(target, dataSource)) {
+    const value = (entity as any)[propertyName];
+    if (value && typeof value === 'object') {
+      callback(value, type, propertyName);
+    }
+  }
+}
+
+/**
+ * Reads the language values stored in the column of a JSON-stored I18n column,
+ * applying the column's transformers to each value.
+ */
+function readJsonTranslations(meta: I18nColumnMetadata, stored: Record<string, any>): Record<string, any> {
+  const { transformer } = meta.options;
+  const result: Record<string, any> = {};
+  for (const [lang, value] of Object.entries(stored)) {
+    result[lang] = transformer ? ApplyValueTransformers.transformFrom(transformer, value) : value;
+  }
+  return result;
+}
+
+/**
+ * Reads all translations of an I18n column from a loaded entity,
+ * regardless of the storage strategy.
+ */
+function readTranslations(entity: any, meta: I18nColumnMetadata): Record<string, any> {
+  const { languages, default_language, storage } = meta.options;
+
+  if (storage === 'json') {
+    const stored = entity[meta.propertyName];
+    const values = stored && typeof stored === 'object' ? readJsonTranslations(meta, stored) : undefined;
+    const result: Record<string, any> = {};
+    for (const lang of languages) {
+      result[lang] = values ? values[lang] ?? null : undefined;
+    }
+    return result;
+  }
+
+  if (storage === 'table') {
+    // Rows of the companion translation table, joined in the languages of the query:
+    // languages without a row stay undefined, so saving the entity keeps their translations
+    const rows: any[] | undefined = entity[I18N_TRANSLATIONS_RELATION];
+    const result: Record<string, any> = {};
+    for (const lang of languages) {
+      const row = rows?.find((translation) => translation.locale === lang);
+      result[lang] = row ? row[meta.propertyName] ?? null : undefined;
+    }
+    return result;
+  }
+
+  return createI18nValue(entity, meta.propertyName, languages, default_language, meta.options.namingStrategy);
+}
+
+/**
+ * Removes the archived languages of an I18n column from its stored translations.
+ */
+function withoutArchived(meta: I18nColumnMetadata, translations: Record<string, any>): Record<string, any> {
+  const result: Record<string, any> = {};
+  for (const [language, value] of Object.entries(translations)) {
+    if (!meta.options.archived.includes(language)) {
+      result[language] = value;
+    }
+  }
+  return result;
+}
+
+/**
+ * Picks the single value of an I18n column in a language from its translations, with the
+ * language it was taken from. When the language has no translation, or is not one of the
+ * column's languages, the column's fallback policy applies: the first translation of its
+ * fallback chain (`chain`, ending with the default language for languages the column doesn't
+ * have), no value (`none`) or an I18nMissingTranslationError (`error`). Values in another
+ * language than the requested one or its regional variant are reported as fallbacks.
+ */
+function pickTranslation(
+  meta: I18nColumnMetadata,
+  translations: Record<string, any>,
+  language: string,
+  policy: I18nFallbackPolicy = meta.options.fallbackPolicy
+): { value: any } & I18nResolvedLanguage {
+  const columnLanguage = matchColumnLanguage(meta, language);
+  if (columnLanguage !== undefined) {
+    const value = translations[columnLanguage];
+    if (value != null || policy === 'none') {
+      // Archived languages read the default language, which is a fallback too
+      const fallback = value != null && matchLanguage(language, [columnLanguage]) === undefined;
+      return { value, language: columnLanguage, fallback };
+    }
+  } else if (policy === 'none') {
+    return { value: null, language: normalizeLanguageCode(language), fallback: false };
+  }
+  if (policy === 'error') {
+    throw new I18nMissingTranslationError(meta.target.name, meta.propertyName, language);
+  }
+
+  const chain = getColumnFallbackChain(meta, language);
+  if (columnLanguage === undefined && !chain.includes(meta.options.default_language)) {
+    chain.push(meta.options.default_language);
+  }
+  for (const fallback of chain) {
+    if (translations[fallback] != null) {
+      return { value: translations[fallback], language: fallback, fallback: true };
+    }
+  }
+  return columnLanguage !== undefined
+    ? { value: translations[columnLanguage], language: columnLanguage, fallback: false }
+    : { value: null, language: normalizeLanguageCode(language), fallback: false };
+}
+
+/**
+ * Sets the single value of an I18n column picked by pickTranslation() on an entity,
+ * and records the language it was taken from.
+ */
+function setPickedTranslation(
+  entity: any,
+  meta: I18nColumnMetadata,
+  { value, language, fallback }: ReturnType<typeof pickTranslation>
+): void {
+  entity[meta.propertyName] = value;
+  if (!entity[I18N_RESOLVED_LANGUAGES_KEY]) {
+    entity[I18N_RESOLVED_LANGUAGES_KEY] = {};
+  }
+  entity[I18N_RESOLVED_LANGUAGES_KEY][meta.propertyName] = { language, fallback };
+}
+
+/**
+ * Get the resolved language of a property path ("name", "seo.title") of a loaded entity.
+ */
+function findResolvedLanguage(entity: object, propertyPath: string): I18nResolvedLanguage | undefined {
+  const path = propertyPath.split('.');
+  const property = path.pop()!;
+  const owner = path.reduce<any>((object, key) => object?.[key], entity);
+  return (owner as I18nEntity | undefined)?.[I18N_RESOLVED_LANGUAGES_KEY]?.[property];
+}
+
+/**
+ * Get the language the single value of an I18n property of a loaded entity was taken from:
+ * the current language, or the fallback language when it has no translation.
+ * Properties of embedded objects are given by their path ("seo.title").
+ *
+ * @param entity - An entity loaded with I18n support
+ * @param propertyPath - The I18n property (e.g. "name")
+ * @returns The language of the value, or undefined for properties that were not loaded
+ *
+ * @example
+ * ```typescript
+ * repo.setLanguage('pt-BR');
+ * const product = await repo.findOneBy({ id: 1 });
+ * getResolvedLanguage(product, 'name'); // 'pt' - no pt-BR translation yet
+ * ```
+ */
+export function getResolvedLanguage(entity: object, propertyPath: string): string | undefined {
+  return findResolvedLanguage(entity, propertyPath)?.language;
+}
+
+/**
+ * Check whether the single value of an I18n property of a loaded entity comes from a
+ * fallback language, e.g. to show a "not yet translated" badge.
+ *
+ * @param entity - An entity loaded with I18n support
+ * @param propertyPath - The I18n property (e.g. "name", or "seo.title" inside an embedded)
+ * @returns True when the value is the translation of a fallback language
+ *
+ * @example
+ * ```typescript
+ * <h1 lang={getResolvedLanguage(product, 'name')}>
+ *   {product.name} {isFallback(product, 'name') && <Badge>Not yet translated</Badge>}
+ * </h1>
+ * ```
+ */
+export function isFallback(entity: object, propertyPath: string): boolean {
+  return findResolvedLanguage(entity, propertyPath)?.fallback ?? false;
+}
+
+/**
+ * Writes translations of an I18n column to the raw column properties of the target.
+ * Only languages with a defined value are written. Table-stored translations have no
+ * raw columns and are written to the companion table by the subscriber instead.
+ * @internal
+ */
+export function writeTranslations(
+  target: any,
+  meta: I18nColumnMetadata,
+  translations: Record<string, any>
+): void {
+  const { languages, default_language, storage, namingStrategy } = meta.options;
+
+  if (storage === 'json') {
+    const stored: Record<string, any> = {};
+    for (const lang of languages) {
+      if (translations[lang] !== undefined) {
+        stored[lang] = meta.options.transformer
+          ? ApplyValueTransformers.transformTo(meta.options.transformer, translations[lang])
+          : translations[lang];
+      }
+    }
+    target[meta.propertyName] = stored;
+    return;
+  }
+
+  if (storage === 'table') {
+    return;
+  }
+
+  const defined: Record<string, any> = {};
+  for (const [lang, value] of Object.entries(translations)) {
+    if (value !== undefined) {
+      defined[lang] = value;
+      if (meta.options.sortKey) {
+        target[getSortKeyPropertyName(meta, lang)] = value === null ? null : createSortKey(String(value), lang);
+      }
+      if (meta.options.searchable) {
+        target[getSearchPropertyName(meta, lang)] =
+          value === null ? null : normalizeSearchText(String(value), meta.options.searchable.normalize);
+      }
+    }
+  }
+  Object.assign(target, flattenI18nValue(meta.propertyName, defined, default_language, namingStrategy));
+}
+
+/**
+ * Restores the single-value properties of JSON- and table-stored columns after a save.
+ * JSON columns temporarily hold the whole translations object, and table-stored
+ * translations may have changed without the single value being updated.
+ * @internal
+ */
+export function restoreI18nValues<T extends object>(
+  entity: T,
+  target: Function = entity?.constructor,
+  dataSource?: DataSource
+): T {
+  if (!entity) {
+    return entity;
+  }
+
+  const metadata = i18nMetadataStorage.getMetadata(target, dataSource);
+  const language = (entity as T & I18nEntity)[I18N_LANGUAGE_KEY];
+
+  for (const meta of metadata) {
+    const translationsKey = `${meta.propertyName}Translations`;
+    const currentLang = language || meta.options.default_language;
+    // The entity was just saved, a missing translation is not an error
+    const restorePolicy = meta.options.fallbackPolicy === 'error' ? 'none' : meta.options.fallbackPolicy;
+
+    if (meta.options.storage === 'table') {
+      const translations = (entity as any)[translationsKey];
+      if (translations && typeof translations === 'object') {
+        const picked = pickTranslation(meta, translations, currentLang, restorePolicy);
+        setPickedTranslation(entity, meta, { ...picked, value: picked.value ?? null });
+      }
+      continue;
+    }
+
+    const stored = (entity as any)[meta.propertyName];
+    if (meta.options.storage !== 'json' || !stored || typeof stored !== 'object') {
+      continue;
+    }
+
+    const translations = readJsonTranslations(meta, stored);
+    if (!(entity as any)[translationsKey]) {
+      (entity as any)[translationsKey] = withoutArchived(meta, translations);
+    }
+    const picked = pickTranslation(meta, translations, currentLang, restorePolicy);
+    setPickedTranslation(entity, meta, { ...picked, value: picked.value ?? null });
+  }
+
+  forEachI18nEmbedded(entity, target, (embedded, type) => {
+    if (language && !embedded[I18N_LANGUAGE_KEY]) {
+      embedded[I18N_LANGUAGE_KEY] = language;
+    }
+    restoreI18nValues(embedded, type, dataSource);
+  }, dataSource);
+
+  return entity;
+}
+
 /**
  * Transforms an entity after loading from the database.
  * Sets up both the single-value property and the translations property.
  *
  * @param entity - The entity instance loaded from the database
  * @param language - Optional current language (if not set, uses default)
+ * @param dataSource - DataSource the entity was loaded with, for DataSources with their own config
  * @returns The transformed entity
  *
  * @example
@@ -127,14 +470,31 @@ export function flattenI18nValue<TLang extends string, TValue = string>(
  * // entity.nameTranslations = { en: 'Hello', es: 'Hola', fr: 'Bonjour' }
  * ```
  */
-export function transformAfterLoad<T extends object>(entity: T, language?: string): T {
+export function transformAfterLoad<T extends object>(entity: T, language?: string, dataSource?: DataSource): T {
   if (!entity) {
     return entity;
   }
 
-  const metadata = i18nMetadataStorage.getMetadata(entity.constructor);
+  return transformLoaded(entity, entity.constructor, language, dataSource);
+}
+
+/**
+ * Transforms a loaded entity or embedded object using the I18n metadata of its class.
+ */
+function transformLoaded<T extends object>(
+  entity: T,
+  target: Function,
+  language?: string,
+  dataSource?: DataSource
+): T {
+  const metadata = i18nMetadataStorage.getMetadata(target, dataSource);
   const i18nEntity = entity as T & I18nEntity;
 
+  // Embedded objects are not passed to subscribers, so they are transformed with their entity
+  forEachI18nEmbedded(entity, target, (embedded, type) => {
+    transformLoaded(embedded, type, language ?? i18nEntity[I18N_LANGUAGE_KEY], dataSource);
+  }, dataSource);
+
   // Skip if already transformed (prevents double-processing which would lose data)
   if (i18nEntity[I18N_TRANSLATIONS_SET_KEY]) {
     // Only update the language and single-value properties if language changed
@@ -144,7 +504,7 @@ export function transformAfterLoad<T extends object>(entity: T, language?: strin
         const translationsKey = `${meta.propertyName}Translations`;
         const translations = (entity as any)[translationsKey];
         if (translations) {
-          (entity as any)[meta.propertyName] = translations[language] ?? translations[meta.options.default_language];
+          setPickedTranslation(entity, meta, pickTranslation(meta, translations, language));
         }
       }
     }
@@ -157,32 +517,43 @@ export function transformAfterLoad<T extends object>(entity: T, language?: strin
   }
 
   for (const meta of metadata) {
-    // Create the translations object from raw columns
-    const translations = createI18nValue(
-      entity,
-      meta.propertyName,
-      meta.options.languages,
-      meta.options.default_language
-    );
+    // Create the translations object from raw columns, without archived languages
+    const stored = readTranslations(entity, meta);
+    if (meta.relation && Object.values(stored).every((value) => value === undefined)) {
+      // The relations were not loaded
+      continue;
+    }
+    rememberLoadedTranslations(entity, meta, stored);
+    const translations = withoutArchived(meta, stored);
 
     // Set the translations property (e.g., nameTranslations)
     const translationsKey = `${meta.propertyName}Translations`;
     (entity as any)[translationsKey] = translations;
 
-    // Set the single-value property to the current language value
-    const currentLang = language || meta.options.default_language;
-    (entity as any)[meta.propertyName] = translations[currentLang as keyof typeof translations];
+    // Set the single-value property to the current language value. Without a requested language
+    // (the subscriber's pass before the repository applies its language) a missing translation
+    // is not an error
+    const policy = language || meta.options.fallbackPolicy !== 'error' ? meta.options.fallbackPolicy : 'none';
+    setPickedTranslation(
+      entity,
+      meta,
+      pickTranslation(meta, translations, language || meta.options.default_language, policy)
+    );
 
     // Clean up raw translation columns to avoid duplicates in JSON output
     // Only delete non-default language columns (default language uses the base property name)
     for (const lang of meta.options.languages) {
-      if (lang !== meta.options.default_language) {
-        const columnName = getTranslationColumnName(meta.propertyName, lang);
-        delete (entity as any)[columnName];
+      if (meta.options.storage === 'columns' && lang !== meta.options.default_language) {
+        delete (entity as any)[getTranslationPropertyName(meta, lang)];
       }
     }
   }
 
+  // Translation rows of table storage are now represented by the translations properties
+  if (metadata.some((meta) => meta.options.storage === 'table')) {
+    delete (entity as any)[I18N_TRANSLATIONS_RELATION];
+  }
+
   // Mark entity as transformed to prevent double-processing
   i18nEntity[I18N_TRANSLATIONS_SET_KEY] = true as any;
 
@@ -197,6 +568,7 @@ export function transformAfterLoad<T extends object>(entity: T, language?: strin
  * those values when translations change.
  *
  * @param entity - The entity instance with modified translations
+ * @param dataSource - DataSource the entity is saved with, for DataSources with their own config
  * @returns The same entity with raw columns updated
  *
  * @example
@@ -207,12 +579,19 @@ export function transformAfterLoad<T extends object>(entity: T, language?: strin
  * await repo.save(product);
  * ```
  */
-export function prepareI18nUpdate<T extends object>(entity: T): T {
+export function prepareI18nUpdate<T extends object>(entity: T, dataSource?: DataSource): T {
   if (!entity) {
     return entity;
   }
 
-  const metadata = i18nMetadataStorage.getMetadata(entity.constructor);
+  return prepareUpdate(entity, entity.constructor, dataSource);
+}
+
+/**
+ * Copies translations to raw columns using the I18n metadata of the entity or embedded class.
+ */
+function prepareUpdate<T extends object>(entity: T, target: Function, dataSource?: DataSource): T {
+  const metadata = i18nMetadataStorage.getMetadata(target, dataSource);
 
   for (const meta of metadata) {
     const translationsKey = `${meta.propertyName}Translations`;
@@ -220,18 +599,16 @@ export function prepareI18nUpdate<T extends object>(entity: T): T {
 
     if (translations && typeof translations === 'object') {
       // Copy translations to raw columns
+      const known: Record<string, any> = {};
       for (const lang of meta.options.languages) {
-        const value = translations[lang];
-        if (value !== undefined) {
-          const columnName = lang === meta.options.default_language
-            ? meta.propertyName
-            : getTranslationColumnName(meta.propertyName, lang);
-          (entity as any)[columnName] = value;
-        }
+        known[lang] = translations[lang];
       }
+      writeTranslations(entity, meta, getWritableTranslations(entity, meta, known));
     }
   }
 
+  forEachI18nEmbedded(entity, target, (embedded, type) => prepareUpdate(embedded, type, dataSource), dataSource);
+
   return entity;
 }
 
@@ -243,6 +620,7 @@ export function prepareI18nUpdate<T extends object>(entity: T): T {
  * - If only `property` is set, saves to the current language column only
  *
  * @param entity - The entity instance to save
+ * @param dataSource - DataSource the entity is saved with, for DataSources with their own config
  * @returns The transformed entity with flat column properties
  *
  * @example
@@ -269,6 +647,7 @@ export function prepareI18nUpdate<T extends object>(entity: T): T {
  * @param entity - The entity instance with potential relations
  * @param language - The language to apply to all entities
  * @param visited - Set of visited objects to prevent circular reference loops
+ * @param dataSource - DataSource the entities were loaded with, for DataSources with their own config
  *
  * @example
  * ```typescript
@@ -287,7 +666,8 @@ export function prepareI18nUpdate<T extends object>(entity: T): T {
 export function transformEntityWithRelations<T extends object>(
   entity: T,
   language: string,
-  visited: Set<object> = new Set()
+  visited: Set<object> = new Set(),
+  dataSource?: DataSource
 ): T {
   if (!entity || typeof entity !== 'object' || visited.has(entity)) {
     return entity;
@@ -296,7 +676,17 @@ export function transformEntityWithRelations<T extends object>(
   visited.add(entity);
 
   // Transform the entity itself
-  transformAfterLoad(entity, language);
+  transformAfterLoad(entity, language, dataSource);
+
+  // Transform the related entities of all languages of I18n relations (e.g., product.heroImageTranslations)
+  for (const meta of i18nMetadataStorage.getMetadata(entity.constructor, dataSource)) {
+    const translations = meta.relation ? (entity as any)[`${meta.propertyName}Translations`] : undefined;
+    for (const related of Object.values<any>(translations ?? {})) {
+      if (related?.constructor && i18nMetadataStorage.hasI18nColumns(related.constructor, dataSource)) {
+        transformEntityWithRelations(related, language, visited, dataSource);
+      }
+    }
+  }
 
   // Recursively transform all object properties (potential relations)
   for (const key of Object.keys(entity)) {
@@ -311,9 +701,8 @@ export function transformEntityWithRelations<T extends object>(
       for (const item of value) {
         if (item && typeof item === 'object' && !Buffer.isBuffer(item)) {
           // Check if the item might be an entity (has constructor with metadata)
-          const metadata = i18nMetadataStorage.getMetadata(item.constructor);
-          if (metadata.length > 0) {
-            transformEntityWithRelations(item, language, visited);
+          if (i18nMetadataStorage.hasI18nColumns(item.constructor, dataSource)) {
+            transformEntityWithRelations(item, language, visited, dataSource);
           }
         }
       }
@@ -321,9 +710,8 @@ export function transformEntityWithRelations<T extends object>(
     // Handle single relations (e.g., product.category)
     else if (typeof value === 'object' && !Buffer.isBuffer(value) && !(value instanceof Date)) {
       // Check if this object might be an entity with i18n metadata
-      const metadata = i18nMetadataStorage.getMetadata(value.constructor);
-      if (metadata.length > 0) {
-        transformEntityWithRelations(value, language, visited);
+      if (i18nMetadataStorage.hasI18nColumns(value.constructor, dataSource)) {
+        transformEntityWithRelations(value, language, visited, dataSource);
       }
     }
   }
@@ -331,15 +719,28 @@ export function transformEntityWithRelations<T extends object>(
   return entity;
 }
 
-export function transformBeforeSave<T extends object>(entity: T): T {
+export function transformBeforeSave<T extends object>(entity: T, dataSource?: DataSource): T {
   if (!entity) {
     return entity;
   }
 
-  const metadata = i18nMetadataStorage.getMetadata(entity.constructor);
+  return transformForSave(entity, entity.constructor, undefined, dataSource);
+}
+
+/**
+ * Flattens the I18n values of an entity or embedded object using the metadata of its class.
+ * Embedded objects without a language of their own use the language of their entity.
+ */
+function transformForSave<T extends object>(
+  entity: T,
+  target: Function,
+  parentLanguage?: string,
+  dataSource?: DataSource
+): T {
+  const metadata = i18nMetadataStorage.getMetadata(target, dataSource);
   const transformed = { ...entity };
   const i18nEntity = entity as T & I18nEntity;
-  const currentLanguage = i18nEntity[I18N_LANGUAGE_KEY];
+  const currentLanguage = i18nEntity[I18N_LANGUAGE_KEY] ?? parentLanguage;
 
   for (const meta of metadata) {
     const translationsKey = `${meta.propertyName}Translations`;
@@ -352,25 +753,50 @@ export function transformBeforeSave<T extends object>(entity: T): T {
 
     if (translations && typeof translations === 'object') {
       // If translations object is set, flatten all values
-      const flattened = flattenI18nValue(
-        meta.propertyName,
-        translations,
-        meta.options.default_language
-      );
-      Object.assign(transformed, flattened);
+      writeTranslations(transformed, meta, getWritableTranslations(entity, meta, translations));
     } else if (singleValue !== undefined) {
       // Only single value is set - save to current language column
-      const targetLang = currentLanguage || meta.options.default_language;
-      const columnName = targetLang === meta.options.default_language
-        ? meta.propertyName
-        : getTranslationColumnName(meta.propertyName, targetLang);
-      (transformed as any)[columnName] = singleValue;
+      const targetLang = resolveWritableLanguage(meta, currentLanguage || meta.options.default_language);
+      writeTranslations(transformed, meta, { [targetLang]: singleValue });
     }
   }
 
+  forEachI18nEmbedded(entity, target, (embedded, type, propertyName) => {
+    (transformed as any)[propertyName] = transformForSave(embedded, type, currentLanguage, dataSource);
+  }, dataSource);
+
   // Remove internal i18n symbols from transformed object
   delete (transformed as any)[I18N_LANGUAGE_KEY];
   delete (transformed as any)[I18N_TRANSLATIONS_SET_KEY];
+  delete (transformed as any)[I18N_RESOLVED_LANGUAGES_KEY];
 
   return transformed;
 }
+
+/**
+ * Assigns the output of transformBeforeSave() to the entity being saved, merging embedded
+ * objects into the entity's own so their translations properties are kept.
+ * @internal
+ */
+export function assignI18nValues<T extends object>(
+  entity: T,
+  transformed: object,
+  target: Function = entity.constructor,
+  dataSource?: DataSource
+): T {
+  const embeddeds = new Map<string, { embedded: any; type: Function }>();
+  forEachI18nEmbedded(entity, target, (embedded, type, propertyName) => {
+    embeddeds.set(propertyName, { embedded, type });
+  }, dataSource);
+
+  Object.assign(entity, transformed);
+
+  for (const [propertyName, { embedded, type }] of embeddeds) {
+    const transformedEmbedded = (transformed as any)[propertyName];
+    if (transformedEmbedded && transformedEmbedded !== embedded) {
+      (entity as any)[propertyName] = assignI18nValues(embedded, transformedEmbedded, type, dataSource);
+    }
+  }
+
+  return entity;
+}
@@ -0,0 +1,329 @@
+import type { DataSource } from 'typeorm';
+import { i18nMetadataStorage } from './metadata';
+import { getTranslationPropertyName, matchColumnLanguage } from './naming-strategy';
+import { matchLanguage } from './language-utils';
+import { I18N_LANGUAGE_KEY, I18nColumnMetadata, I18nEntity, I18nLanguageStatus } from './types';
+
+/**
+ * A required translation missing on an entity
+ */
+export interface I18nMissingTranslation {
+  /** Entity class name (e.g. "Product") */
+  entity: string;
+  /** Translatable property (e.g. "title", or "seo.title" inside an embedded) */
+  property: string;
+  /** Missing language (e.g. "es") */
+  language: string;
+}
+
+/**
+ * Thrown when entities are saved or created without a translation for a required language.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await repo.save(product);
+ * } catch (error) {
+ *   if (error instanceof I18nValidationError) {
+ *     error.missing; // [{ entity: 'Product', property: 'title', language: 'es' }]
+ *   }
+ * }
+ * ```
+ */
+export class I18nValidationError extends Error {
+  constructor(public readonly missing: I18nMissingTranslation[]) {
+    super(
+      `Missing required translations: ${missing
+        .map(({ entity, property, language }) => `${entity}.${property} (${language})`)
+        .join(', ')}`
+    );
+    this.name = 'I18nValidationError';
+  }
+}
+
+/**
+ * Thrown when a language is requested that none of the I18n properties has,
+ * or a value is written in a language its I18n property doesn't have.
+ *
+ * @example
+ * ```typescript
+ * generateI18nViews(dataSource, { languages: ['sp'] }); // I18nUnknownLanguageError: Unknown I18n language "sp"
+ *
+ * repo.setLanguage('fr');
+ * await repo.save({ id, title: 'Conditions' }); // Unknown I18n language "fr" of LegalDocument.title
+ * ```
+ */
+export class I18nUnknownLanguageError extends Error {
+  constructor(
+    public readonly language: string,
+    public readonly entity?: string,
+    public readonly property?: string
+  ) {
+    super(`Unknown I18n language "${language}"${entity ? ` of ${entity}.${property}` : ''}`);
+    this.name = 'I18nUnknownLanguageError';
+  }
+}
+
+/**
+ * Thrown when a translation of a deprecated or archived language is written.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await repo.save(product);
+ * } catch (error) {
+ *   if (error instanceof I18nLanguageStatusError) {
+ *     error.language; // 'de'
+ *     error.status;   // 'deprecated'
+ *   }
+ * }
+ * ```
+ */
+export class I18nLanguageStatusError extends Error {
+  constructor(
+    public readonly entity: string,
+    public readonly property: string,
+    public readonly language: string,
+    public readonly status: Exclude<I18nLanguageStatus, 'active'>
+  ) {
+    super(`Cannot write the ${status} language "${language}" of ${entity}.${property}`);
+    this.name = 'I18nLanguageStatusError';
+  }
+}
+
+/**
+ * Thrown when an entity is loaded in a language it has no translation for, for properties
+ * with `fallbackPolicy: 'error'`.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await repo.findOneBy({ id });
+ * } catch (error) {
+ *   if (error instanceof I18nMissingTranslationError) {
+ *     error.language; // 'es'
+ *   }
+ * }
+ * ```
+ */
+export class I18nMissingTranslationError extends Error {
+  constructor(
+    public readonly entity: string,
+    public readonly property: string,
+    public readonly language: string
+  ) {
+    super(`Missing translation in language "${language}" of ${entity}.${property}`);
+    this.name = 'I18nMissingTranslationError';
+  }
+}
+
+/**
+ * Translations of deprecated and archived languages as they were loaded, by entity and property
+ */
+const loadedRetiredTranslations = new WeakMap<object, Record<string, Record<string, unknown>>>();
+
+/**
+ * Get the lifecycle status of a language of an I18n column.
+ * @internal
+ */
+export function getI18nLanguageStatus(meta: I18nColumnMetadata, language: string): I18nLanguageStatus {
+  if (meta.options.archived.includes(language)) {
+    return 'archived';
+  }
+  return meta.options.deprecated.includes(language) ? 'deprecated' : 'active';
+}
+
+/**
+ * Remember the translations of deprecated and archived languages of a loaded entity,
+ * so they can be saved back unchanged.
+ * @internal
+ */
+export function rememberLoadedTranslations(
+  entity: object,
+  meta: I18nColumnMetadata,
+  translations: Record<string, unknown>
+): void {
+  const { deprecated, archived } = meta.options;
+  if (deprecated.length === 0 && archived.length === 0) {
+    return;
+  }
+
+  const loaded: Record<string, unknown> = {};
+  for (const language of [...deprecated, ...archived]) {
+    loaded[language] = translations[language];
+  }
+  loadedRetiredTranslations.set(entity, { ...loadedRetiredTranslations.get(entity), [meta.propertyName]: loaded });
+}
+
+/**
+ * Get the translations of an entity's I18n column to write. Values of deprecated and archived
+ * languages are left as stored: changing one throws an I18nLanguageStatusError, and the
+ * loaded values are kept for JSON storage, whose column is rewritten as a whole.
+ * @internal
+ */
+export function getWritableTranslations(
+  entity: object,
+  meta: I18nColumnMetadata,
+  translations: Record<string, any>
+): Record<string, any> {
+  const { deprecated, archived, storage } = meta.options;
+  if (deprecated.length === 0 && archived.length === 0) {
+    return translations;
+  }
+
+  const loaded = loadedRetiredTranslations.get(entity)?.[meta.propertyName] ?? {};
+  const writable = { ...translations };
+  for (const language of [...deprecated, ...archived]) {
+    const value = translations[language];
+    if (value !== undefined && value !== loaded[language]) {
+      throw new I18nLanguageStatusError(
+        meta.target.name,
+        meta.propertyName,
+        language,
+        getI18nLanguageStatus(meta, language) as Exclude<I18nLanguageStatus, 'active'>
+      );
+    }
+
+    delete writable[language];
+    if (storage === 'json' && loaded[language] !== undefined) {
+      writable[language] = loaded[language];
+    }
+  }
+  return writable;
+}
+
+/**
+ * Get the language to write the single value of an I18n column to for the entity's
+ * current language: the language or its closest regional variant. Deprecated and archived
+ * languages and languages the column doesn't have (e.g. of another profile) are rejected.
+ * @internal
+ */
+export function resolveWritableLanguage(meta: I18nColumnMetadata, language: string): string {
+  const match = matchLanguage(language, meta.options.languages);
+  if (match === undefined) {
+    throw new I18nUnknownLanguageError(language, meta.target.name, meta.propertyName);
+  }
+  const status = getI18nLanguageStatus(meta, match);
+  if (status !== 'active') {
+    throw new I18nLanguageStatusError(meta.target.name, meta.propertyName, match, status);
+  }
+  return match;
+}
+
+/**
+ * Read the value of an I18n property in one language from an entity being saved,
+ * wherever it is set (translations object, raw column, JSON object or single value).
+ */
+function getLanguageValue(
+  entity: any,
+  meta: I18nColumnMetadata,
+  language: string,
+  entityLanguage?: string
+): unknown {
+  const { propertyName, options } = meta;
+  const translations = entity[`${propertyName}Translations`];
+  if (translations && typeof translations === 'object' && translations[language] !== undefined) {
+    return translations[language];
+  }
+
+  if (options.storage === 'columns') {
+    return entity[getTranslationPropertyName(meta, language)];
+  }
+
+  const value = entity[propertyName];
+  if (options.storage === 'json' && value && typeof value === 'object') {
+    return value[language];
+  }
+
+  // The single-value property holds the current language
+  const currentLanguage = (entity as I18nEntity)[I18N_LANGUAGE_KEY] ?? entityLanguage ?? options.default_language;
+  return language === matchColumnLanguage(meta, currentLanguage) ? value : undefined;
+}
+
+/**
+ * Find the required translations missing on an entity.
+ *
+ * @param entity - The entity to check
+ * @param partial - Only check properties that are set on the entity (e.g. for updates)
+ * @param dataSource - DataSource the entity is saved with, for DataSources with their own config
+ * @returns The missing translations, empty when the entity is valid
+ *
+ * @example
+ * ```typescript
+ * const missing = findMissingI18nTranslations(product);
+ * // [{ entity: 'Product', property: 'title', language: 'es' }]
+ * ```
+ */
+export function findMissingI18nTranslations(
+  entity: object,
+  partial: boolean = false,
+  dataSource?: DataSource
+): I18nMissingTranslation[] {
+  const missing: I18nMissingTranslation[] = [];
+  if (!entity) {
+    return missing;
+  }
+
+  collectMissingTranslations(entity, entity.constructor, entity.constructor.name, '', partial, missing, dataSource);
+  return missing;
+}
+
+/**
+ * Collect the missing translations of an entity or embedded object, naming embedded
+ * properties by their path from the entity (e.g. "seo.title").
+ */
+function collectMissingTranslations(
+  entity: any,
+  target: Function,
+  entityName: string,
+  pathPrefix: string,
+  partial: boolean,
+  missing: I18nMissingTranslation[],
+  dataSource?: DataSource,
+  entityLanguage?: string
+): void {
+  for (const meta of i18nMetadataStorage.getMetadata(target, dataSource)) {
+    const values = meta.options.languages.map((language) => getLanguageValue(entity, meta, language, entityLanguage));
+    if (partial && values.every((value) => value === undefined)) {
+      continue;
+    }
+
+    for (const language of meta.options.required) {
+      const value = getLanguageValue(entity, meta, language, entityLanguage);
+      if (value === undefined || value === null || value === '') {
+        missing.push({ entity: entityName, property: `${pathPrefix}${meta.propertyName}`, language });
+      }
+    }
+  }
+
+  // A missing embedded object misses all its required translations
+  const language = (entity as I18nEntity)[I18N_LANGUAGE_KEY] ?? entityLanguage;
+  for (const { propertyName, type } of i18nMetadataStorage.getEmbeddeds(target, dataSource)) {
+    const embedded = entity[propertyName];
+    const embeddedPrefix = `${pathPrefix}${propertyName}.`;
+    if (embedded && typeof embedded === 'object') {
+      collectMissingTranslations(embedded, type, entityName, embeddedPrefix, partial, missing, dataSource, language);
+    } else if (!partial) {
+      collectMissingTranslations({}, type, entityName, embeddedPrefix, partial, missing, dataSource, language);
+    }
+  }
+}
+
+/**
+ * Throw an I18nValidationError listing the required translations missing on the entities.
+ *
+ * @param entities - The entities to check
+ * @param isPartial - Whether an entity may omit properties (e.g. an update of a stored entity)
+ * @param dataSource - DataSource the entities are saved with
+ * @internal
+ */
+export function assertI18nTranslations(
+  entities: object[],
+  isPartial: (entity: object) => boolean = () => false,
+  dataSource?: DataSource
+): void {
+  const missing = entities.flatMap((entity) => findMissingI18nTranslations(entity, isPartial(entity), dataSource));
+  if (missing.length > 0) {
+    throw new I18nValidationError(missing);
+  }
+}
@@ -0,0 +1,246 @@
+import { DataSource, EntityMetadata } from 'typeorm';
+import { ColumnMetadata } from 'typeorm/metadata/ColumnMetadata';
+import { I18nMigrationQuery, getI18nPropertyPaths, renderMigration } from './migration';
+import { getShadowPropertyNames, getTranslationPropertyName, resolveColumnLanguage } from './naming-strategy';
+import { escapeTablePath, getI18nDialect, jsonPathExpression, translationTableSql } from './storage';
+import { getI18nTranslationEntity } from './translation-table';
+import { I18nColumnMetadata } from './types';
+import { matchLanguage, normalizeLanguageCodes } from './language-utils';
+import { I18nUnknownLanguageError } from './validation';
+
+/**
+ * Options for generateI18nViews()
+ */
+export interface I18nViewOptions {
+  /**
+   * Base name of the migration class (default: 'I18nViews').
+   * The timestamp is appended, as in TypeORM's generated migrations.
+   */
+  name?: string;
+
+  /**
+   * Migration timestamp (default: Date.now())
+   */
+  timestamp?: number;
+
+  /**
+   * Languages to create views for (default: all languages of each entity that are not archived).
+   * They are matched to the closest configured language (`es-MX` → `es`); languages no entity has
+   * throw an I18nUnknownLanguageError.
+   */
+  languages?: string[];
+
+  /**
+   * Fall back to the default language where a translation is NULL (default: false)
+   */
+  fallback?: boolean;
+
+  /**
+   * Name of the view of a table in a language (default: `${table}_${language}`, e.g. "product_pt_br")
+   */
+  viewName?: (tableName: string, language: string) => string;
+}
+
+/**
+ * Result of generateI18nViews()
+ */
+export interface I18nViewMigration {
+  /** Class name of the migration (e.g. "I18nViews1700000000000") */
+  name: string;
+  /** Statements of the `up` method */
+  upQueries: I18nMigrationQuery[];
+  /** Statements of the `down` method */
+  downQueries: I18nMigrationQuery[];
+  /** Names of the created views */
+  views: string[];
+  /** TypeScript source of the MigrationInterface class */
+  source: string;
+}
+
+/**
+ * Alias of the entity table in view queries
+ */
+const ENTITY_ALIAS = 'i18n_e';
+
+/**
+ * Default name of the view of a table in a language
+ */
+function defaultViewName(tableName: string, language: string): string {
+  return `${tableName}_${language.toLowerCase().replace(/[^a-z0-9]/g, '_')}`;
+}
+
+/**
+ * Quote a string literal for view queries, which cannot take parameters
+ */
+function quoteLiteral(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+/**
+ * Build the SELECT query of the view of one entity in one language: the columns of the
+ * entity, with the base column of every I18n property selecting the language instead.
+ */
+function buildViewQuery(
+  dataSource: DataSource,
+  entityMetadata: EntityMetadata,
+  paths: Array<{ meta: I18nColumnMetadata; pathPrefix: string }>,
+  requestedLanguage: string,
+  fallback: boolean
+): string {
+  const escape = (name: string) => dataSource.driver.escape(name);
+  const alias = escape(ENTITY_ALIAS);
+  const reference = (column: ColumnMetadata) => `${alias}.${escape(column.databaseName)}`;
+  const withFallback = (expression: string, defaultExpression: string) =>
+    fallback && expression !== defaultExpression ? `COALESCE(${expression}, ${defaultExpression})` : expression;
+
+  // Base columns select an expression, the columns of other languages are left out
+  const expressions = new Map<ColumnMetadata, string>();
+  const hidden = new Set<ColumnMetadata>();
+  const translated: string[] = [];
+
+  for (const { meta, pathPrefix } of paths) {
+    const { default_language, storage } = meta.options;
+    const language = resolveColumnLanguage(meta, requestedLanguage);
+
+    if (storage === 'columns') {
+      const columnsOf = (lang: string): ColumnMetadata[] => {
+        const propertyPath = `${pathPrefix}${getTranslationPropertyName(meta, lang)}`;
+        if (meta.relation) {
+          return entityMetadata.findRelationWithPropertyPath(propertyPath)?.joinColumns ?? [];
+        }
+        const column = entityMetadata.findColumnWithPropertyPath(propertyPath);
+        return column ? [column] : [];
+      };
+
+      const baseColumns = columnsOf(default_language);
+      const languageColumns = columnsOf(language);
+      meta.options.languages
+        .filter((lang) => lang !== default_language)
+        .forEach((lang) => columnsOf(lang).forEach((column) => hidden.add(column)));
+      meta.options.languages
+        .flatMap((lang) => getShadowPropertyNames(meta, lang))
+        .map((property) => entityMetadata.findColumnWithPropertyPath(`${pathPrefix}${property}`))
+        .forEach((column) => column && hidden.add(column));
+      baseColumns.forEach((column, index) => {
+        const languageColumn = languageColumns[index] ?? column;
+        expressions.set(column, withFallback(reference(languageColumn), reference(column)));
+      });
+      continue;
+    }
+
+    if (storage === 'json') {
+      const column = entityMetadata.findColumnWithPropertyPath(`${pathPrefix}${meta.propertyName}`);
+      if (column) {
+        const dialect = getI18nDialect(dataSource);
+        expressions.set(
+          column,
+          withFallback(
+            jsonPathExpression(dialect, reference(column), language),
+            jsonPathExpression(dialect, reference(column), default_language)
+          )
+        );
+      }
+      continue;
+    }
+
+    // Table storage: the translation table has no column in the entity table
+    const { table, column } = translationTableSql(dataSource, entityMetadata.target as Function);
+    const translation = (lang: string) =>
+      `(SELECT ${column(meta.propertyName)} FROM ${table} ` +
+      `WHERE ${column('entityId')} = ${reference(entityMetadata.primaryColumns[0])} ` +
+      `AND ${column('locale')} = ${quoteLiteral(lang)})`;
+    const translationColumn = dataSource
+      .getMetadata(getI18nTranslationEntity(entityMetadata.target as Function))
+      .findColumnWithPropertyName(meta.propertyName);
+    translated.push(
+      `${withFallback(translation(language), translation(default_language))} AS ` +
+        escape(translationColumn?.databaseName ?? meta.propertyName)
+    );
+  }
+
+  const selects = entityMetadata.columns
+    .filter((column) => !hidden.has(column))
+    .map((column) => `${expressions.get(column) ?? reference(column)} AS ${escape(column.databaseName)}`);
+
+  return (
+    `SELECT ${[...selects, ...translated].join(', ')} ` +
+    `FROM ${escapeTablePath(dataSource, entityMetadata.tablePath)} ${alias}`
+  );
+}
+
+/**
+ * Generate a migration creating one database view per language for every entity with
+ * I18n properties, e.g. `product_es` for `product`. Each view has the columns of the
+ * entity table, with the columns of I18n properties holding the view's language under
+ * their base name (`name` selects `name_es`), so reports can query a language directly.
+ *
+ * JSON-stored properties are extracted and table-stored properties are read from the
+ * translation table. With `fallback`, missing translations fall back to the default language.
+ * Views are dropped and created again, so the migration can be regenerated when languages change.
+ *
+ * @param dataSource - An initialized DataSource
+ * @param options - View options
+ * @returns The migration queries and the source of the migration class
+ *
+ * @example
+ * ```typescript
+ * const migration = generateI18nViews(dataSource, { fallback: true });
+ * fs.writeFileSync(`migrations/${migration.name}.ts`, migration.source);
+ *
+ * // SELECT name, price FROM product_es
+ * ```
+ */
+export function generateI18nViews(dataSource: DataSource, options: I18nViewOptions = {}): I18nViewMigration {
+  const name = `${options.name ?? 'I18nViews'}${options.timestamp ?? Date.now()}`;
+  const viewName = options.viewName ?? defaultViewName;
+  const upQueries: I18nMigrationQuery[] = [];
+  const downQueries: I18nMigrationQuery[] = [];
+  const views: string[] = [];
+
+  const requested = options.languages && normalizeLanguageCodes(options.languages);
+  const matched = new Set<string>();
+
+  for (const entityMetadata of dataSource.entityMetadatas) {
+    if (entityMetadata.tableType !== 'regular') {
+      continue;
+    }
+
+    const paths = getI18nPropertyPaths(entityMetadata);
+    const entityLanguages = [
+      ...new Set(
+        paths.flatMap(({ meta }) => meta.options.languages.filter((lang) => !meta.options.archived.includes(lang)))
+      ),
+    ];
+    const selected = new Set<string>();
+    for (const language of requested ?? entityLanguages) {
+      const match = matchLanguage(language, entityLanguages);
+      if (match) {
+        selected.add(match);
+        matched.add(language);
+      }
+    }
+    // Views are created in the order of the entity languages
+    const languages = entityLanguages.filter((language) => selected.has(language));
+
+    for (const language of languages) {
+      const view = viewName(entityMetadata.tableName, language);
+      const viewPath = entityMetadata.schema ? `${entityMetadata.schema}.${view}` : view;
+      const escapedView = escapeTablePath(dataSource, viewPath);
+      const query = buildViewQuery(dataSource, entityMetadata, paths, language, options.fallback ?? false);
+
+      upQueries.push(
+        { query: `DROP VIEW IF EXISTS ${escapedView}` },
+        { query: `CREATE VIEW ${escapedView} AS ${query}` }
+      );
+      downQueries.unshift({ query: `DROP VIEW IF EXISTS ${escapedView}` });
+      views.push(viewPath);
+    }
+  }
+
+  const unknown = requested?.find((language) => !matched.has(language));
+  if (unknown) {
+    throw new I18nUnknownLanguageError(unknown);
+  }
+
+  return { name, upQueries, downQueries, views, source: renderMigration(name, upQueries, downQueries) };
+}
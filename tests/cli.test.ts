@@ -0,0 +1,114 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { DataSource, TableColumn } from 'typeorm';
+import { main, parseArgs } from '../src/cli';
+import { CliProduct } from './entities/CliProduct.entity';
+import { CLI_DATABASE } from './fixtures/cli.data-source';
+
+const DATA_SOURCE_FILE = 'tests/fixtures/cli.data-source.ts';
+
+describe('Migration command line', () => {
+  describe('Arguments', () => {
+    it('should parse the command, output and options', () => {
+      expect(
+        parseArgs(['migration:generate', 'src/migrations/AddItalian', '-d', 'src/data-source.ts', '--backfill'])
+      ).toEqual({
+        command: 'migration:generate',
+        output: 'src/migrations/AddItalian',
+        dataSource: 'src/data-source.ts',
+        backfill: true,
+        drop: [],
+        help: false,
+      });
+      expect(parseArgs(['--help']).help).toBe(true);
+    });
+
+    it('should parse the languages to drop', () => {
+      expect(parseArgs(['--drop', 'fr, pt-BR', '--drop', 'de']).drop).toEqual(['fr', 'pt-BR', 'de']);
+      expect(() => parseArgs(['migration:generate', '--drop'])).toThrow('--drop requires the languages');
+      expect(() => parseArgs(['--drop', '--backfill'])).not.toThrow();
+    });
+  });
+
+  describe('Migrations', () => {
+    let outputDir: string;
+    let messages: string[];
+
+    const run = (...args: string[]) =>
+      main(['migration:generate', path.join(outputDir, 'Languages'), '-d', DATA_SOURCE_FILE, ...args], (message) =>
+        messages.push(message)
+      );
+    const readMigration = () => fs.readFileSync(path.join(outputDir, fs.readdirSync(outputDir)[0]), 'utf8');
+
+    beforeEach(async () => {
+      outputDir = fs.mkdtempSync(path.join(os.tmpdir(), 'typeorm-i18n-cli-'));
+      messages = [];
+      fs.rmSync(CLI_DATABASE, { force: true });
+
+      // A schema created before 'it' was configured and after 'fr' was removed
+      const dataSource = new DataSource({
+        type: 'better-sqlite3',
+        database: CLI_DATABASE,
+        entities: [CliProduct],
+        synchronize: true,
+      });
+      await dataSource.initialize();
+      const queryRunner = dataSource.createQueryRunner();
+      await queryRunner.dropColumn('cli_products', 'name_it');
+      await queryRunner.addColumn(
+        'cli_products',
+        new TableColumn({ name: 'name_fr', type: 'varchar', length: '255', isNullable: true })
+      );
+      await queryRunner.release();
+      await dataSource.destroy();
+    });
+
+    afterEach(() => {
+      fs.rmSync(outputDir, { recursive: true, force: true });
+      fs.rmSync(CLI_DATABASE, { force: true });
+    });
+
+    it('should print the usage without a DataSource', async () => {
+      const code = await main(['migration:generate', 'src/migrations/AddItalian'], (message) => messages.push(message));
+
+      expect(code).toBe(1);
+      expect(messages[0]).toMatch(/^Usage: typeorm-i18n migration:generate/);
+    });
+
+    it('should generate a migration backfilling added columns', async () => {
+      expect(await run('--backfill')).toBe(0);
+
+      const source = readMigration();
+      expect(source).toContain('UPDATE "cli_products" SET "name_it" = "name" WHERE "name_it" IS NULL');
+      expect(messages).toEqual([
+        'Columns of unconfigured languages (use --drop <languages> to remove): cli_products.name_fr',
+        expect.stringMatching(/^Migration .*-Languages\.ts has been generated successfully\.$/),
+      ]);
+    });
+
+    it('should drop the columns of the confirmed languages', async () => {
+      expect(await run('--drop', 'fr')).toBe(0);
+
+      // SQLite drops columns by creating the table again
+      const source = readMigration();
+      const up = source.slice(source.indexOf('async up'), source.indexOf('async down'));
+      const tables = up.match(/CREATE TABLE [^`]*/g) ?? [];
+      expect(tables[tables.length - 1]).toContain('"name_it" varchar(255)');
+      expect(tables[tables.length - 1]).not.toContain('name_fr');
+      expect(up).not.toContain('UPDATE');
+      expect(messages).toHaveLength(1);
+    });
+
+    it('should ask for ts-node to load a TypeScript DataSource without it', async () => {
+      jest.doMock('ts-node', () => {
+        throw new Error("Cannot find module 'ts-node'");
+      });
+      try {
+        await expect(run()).rejects.toThrow(`${DATA_SOURCE_FILE} is a TypeScript file: install ts-node`);
+      } finally {
+        jest.dontMock('ts-node');
+      }
+    });
+  });
+});
@@ -0,0 +1,252 @@
+import { DataSource, Entity, PrimaryGeneratedColumn, SelectQueryBuilder } from 'typeorm';
+import {
+  I18nColumn,
+  I18nSubscriber,
+  I18nValue,
+  attachI18nConfig,
+  getI18nConfig,
+  getI18nRepository,
+  resetI18nConfig,
+  setI18nConfig,
+} from '../src';
+import { resetI18nColumnsFinalization } from '../src/decorator';
+import { createE2EDataSource, closeE2EDataSource } from './db-helper';
+
+type Languages = 'en' | 'de' | 'sv';
+
+const languages = { languages: ['en', 'de', 'sv'] as Languages[], default_language: 'en' as const };
+
+@Entity('collation_words')
+class CollationWord {
+  @PrimaryGeneratedColumn()
+  id!: number;
+
+  @I18nColumn({ ...languages, type: 'varchar', length: 100, nullable: true, sortKey: true })
+  word!: string;
+
+  wordTranslations?: I18nValue<Languages, string>;
+
+  @I18nColumn({ ...languages, type: 'varchar', length: 100, nullable: true })
+  note!: string;
+}
+
+const words: Array<Record<Languages, string>> = [
+  { en: 'sugar', de: 'Zucker', sv: 'Zebra' },
+  { en: 'apples', de: 'Äpfel', sv: 'Ödla' },
+  { en: 'apple juice', de: 'apfelsaft', sv: 'Apa' },
+  { en: 'pear', de: 'Birne', sv: 'Äpple' },
+];
+
+describe('Collations', () => {
+  let dataSource: DataSource;
+
+  async function seed(): Promise<void> {
+    const repo = getI18nRepository(CollationWord, dataSource);
+    await repo.save(words.map((wordTranslations) => repo.create({ wordTranslations })));
+  }
+
+  describe('Sort keys', () => {
+    beforeEach(async () => {
+      dataSource = await createE2EDataSource([CollationWord]);
+      await seed();
+    });
+
+    afterEach(async () => {
+      if (dataSource && dataSource.isInitialized) {
+        await closeE2EDataSource(dataSource);
+      }
+    });
+
+    it('should create a sort key column per language', () => {
+      const columns = dataSource.getMetadata(CollationWord).columns.map((column) => column.databaseName);
+
+      expect(columns).toEqual(expect.arrayContaining(['word_sort', 'word_de_sort', 'word_sv_sort']));
+      expect(columns).not.toContain('note_sort');
+    });
+
+    it('should order find results in the alphabet of the language', async () => {
+      const repo = getI18nRepository(CollationWord, dataSource);
+
+      repo.setLanguage('de');
+      const german = await repo.find({ order: { word: 'ASC' } });
+      repo.setLanguage('sv');
+      const swedish = await repo.find({ order: { word: 'ASC' } });
+
+      expect(german.map((word) => word.word)).toEqual(['Äpfel', 'apfelsaft', 'Birne', 'Zucker']);
+      expect(swedish.map((word) => word.word)).toEqual(['Apa', 'Zebra', 'Äpple', 'Ödla']);
+    });
+
+    it('should order by the sort keys of the default language without a current language', async () => {
+      const repo = getI18nRepository(CollationWord, dataSource);
+
+      const results = await repo.find({ order: { word: 'DESC' } });
+
+      expect(results.map((word) => word.word)).toEqual(['sugar', 'pear', 'apples', 'apple juice']);
+    });
+
+    it('should order QueryBuilder results by the sort keys', async () => {
+      const repo = getI18nRepository(CollationWord, dataSource);
+      repo.setLanguage('de');
+
+      const results = await repo.createQueryBuilder('word').orderBy('word.word', 'DESC').getMany();
+
+      expect(results.map((word) => word.word)).toEqual(['Zucker', 'Birne', 'apfelsaft', 'Äpfel']);
+    });
+
+    it('should not load the sort keys', async () => {
+      const repo = getI18nRepository(CollationWord, dataSource);
+
+      const [word] = await repo.find({ order: { id: 'ASC' } });
+
+      expect(Object.keys(word).filter((key) => key.endsWith('_sort'))).toEqual([]);
+    });
+
+    it('should update the sort keys with the translations', async () => {
+      const repo = getI18nRepository(CollationWord, dataSource);
+      repo.setLanguage('de');
+      const sugar = (await repo.findOne({ where: { word: 'Zucker' } }))!;
+
+      sugar.wordTranslations = { ...sugar.wordTranslations!, de: 'Ahornsirup' };
+      await repo.save(sugar);
+
+      const results = await repo.find({ order: { word: 'ASC' } });
+      expect(results.map((word) => word.word)).toEqual(['Ahornsirup', 'Äpfel', 'apfelsaft', 'Birne']);
+    });
+  });
+
+  describe('Configuration', () => {
+    afterEach(async () => {
+      resetI18nConfig();
+      resetI18nColumnsFinalization();
+      if (dataSource && dataSource.isInitialized) {
+        await closeE2EDataSource(dataSource);
+      }
+    });
+
+    it('should normalize the languages of the collations', () => {
+      setI18nConfig({ collations: { DE: 'de-DE-x-icu', sv_se: 'sv-SE-x-icu' } });
+
+      expect(getI18nConfig().collations).toEqual({ de: 'de-DE-x-icu', 'sv-SE': 'sv-SE-x-icu' });
+    });
+
+    it('should fall back to the sort keys on SQLite', async () => {
+      dataSource = attachI18nConfig(
+        new DataSource({
+          type: 'better-sqlite3',
+          database: ':memory:',
+          synchronize: true,
+          entities: [CollationWord],
+          subscribers: [I18nSubscriber],
+        }),
+        { collations: { de: 'de-DE-x-icu', sv: 'sv-SE-x-icu' } }
+      );
+      await dataSource.initialize();
+      await seed();
+
+      const repo = getI18nRepository(CollationWord, dataSource);
+      repo.setLanguage('sv');
+      const query = repo.createQueryBuilder('word').orderBy('word.word', 'ASC');
+
+      expect(query.getQuery()).not.toContain('COLLATE');
+      expect((await query.getMany()).map((word) => word.word)).toEqual(['Apa', 'Zebra', 'Äpple', 'Ödla']);
+      expect((await repo.find({ order: { word: 'ASC' } })).map((word) => word.word)).toEqual([
+        'Apa',
+        'Zebra',
+        'Äpple',
+        'Ödla',
+      ]);
+    });
+  });
+
+  describe('SQL', () => {
+    const collations = {
+      postgres: { de: 'de-DE-x-icu', sv: 'sv"SE' },
+      mysql: { de: 'utf8mb4_german2_ci', sv: 'utf8mb4_swedish`ci' },
+    };
+
+    /** A DataSource of a dialect with collations, whose metadata is built without connecting */
+    async function createDialectDataSource(type: 'postgres' | 'mysql'): Promise<DataSource> {
+      const dialectDataSource = attachI18nConfig(
+        new DataSource({ type, database: 'i18n', entities: [CollationWord], subscribers: [I18nSubscriber] }),
+        { collations: collations[type] }
+      );
+      await (dialectDataSource as unknown as { buildMetadatas(): Promise<void> }).buildMetadatas();
+      return dialectDataSource;
+    }
+
+    /** The SQL of a find() with its order applied through a QueryBuilder */
+    async function getFindQuery(repo: ReturnType<typeof getI18nRepository<CollationWord>>): Promise<string> {
+      let query = '';
+      const getMany = jest
+        .spyOn(SelectQueryBuilder.prototype, 'getMany')
+        .mockImplementation(async function (this: SelectQueryBuilder<any>) {
+          query = this.getQuery();
+          return [];
+        });
+      try {
+        await repo.find({ order: { word: 'DESC' } });
+      } finally {
+        getMany.mockRestore();
+      }
+      return query;
+    }
+
+    it('should order by the collation of the language on PostgreSQL', async () => {
+      const repo = getI18nRepository(CollationWord, await createDialectDataSource('postgres'));
+      repo.setLanguage('de');
+
+      const findQuery = await getFindQuery(repo);
+      const builderQuery = repo.createQueryBuilder('word').orderBy('word.word', 'DESC').getQuery();
+
+      expect(findQuery).toContain('"CollationWord"."word_de" COLLATE "de-DE-x-icu" AS "i18n_order_word"');
+      expect(findQuery).toMatch(/ORDER BY i18n_order_word DESC$/);
+      expect(builderQuery).toContain('"word"."word_de" COLLATE "de-DE-x-icu" AS "i18n_order_word"');
+      expect(builderQuery).toMatch(/ORDER BY i18n_order_word DESC$/);
+    });
+
+    it('should order by the collation of the language on MySQL', async () => {
+      const repo = getI18nRepository(CollationWord, await createDialectDataSource('mysql'));
+      repo.setLanguage('de');
+
+      const findQuery = await getFindQuery(repo);
+      const builderQuery = repo.createQueryBuilder('word').orderBy('word.word', 'DESC').getQuery();
+
+      expect(findQuery).toContain('`CollationWord`.`word_de` COLLATE `utf8mb4_german2_ci` AS `i18n_order_word`');
+      expect(findQuery).toMatch(/ORDER BY i18n_order_word DESC$/);
+      expect(builderQuery).toContain('`word`.`word_de` COLLATE `utf8mb4_german2_ci` AS `i18n_order_word`');
+      expect(builderQuery).toMatch(/ORDER BY i18n_order_word DESC$/);
+    });
+
+    it('should quote the collation names', async () => {
+      const postgresRepo = getI18nRepository(CollationWord, await createDialectDataSource('postgres'));
+      const mysqlRepo = getI18nRepository(CollationWord, await createDialectDataSource('mysql'));
+      postgresRepo.setLanguage('sv');
+      mysqlRepo.setLanguage('sv');
+
+      expect(await getFindQuery(postgresRepo)).toContain('"CollationWord"."word_sv" COLLATE "sv""SE"');
+      expect(mysqlRepo.createQueryBuilder('word').orderBy('word.word').getQuery()).toContain(
+        '`word`.`word_sv` COLLATE `utf8mb4_swedish``ci`'
+      );
+    });
+
+    it('should order by the sort keys of languages without a collation', async () => {
+      const repo = getI18nRepository(CollationWord, await createDialectDataSource('postgres'));
+      repo.setLanguage('en');
+
+      const builderQuery = repo.createQueryBuilder('word').orderBy('word.word', 'ASC').getQuery();
+
+      expect(builderQuery).not.toContain('COLLATE');
+      expect(builderQuery).toMatch(/ORDER BY "word"."word_sort" ASC$/);
+    });
+  });
+
+  it('should reject sort keys on JSON storage', () => {
+    expect(() => {
+      class JsonSortKey {
+        @I18nColumn({ ...languages, storage: 'json', type: 'simple-json', sortKey: true })
+        word!: string;
+      }
+      return JsonSortKey;
+    }).toThrow('I18nColumn on JsonSortKey.word uses storage "json" which does not support the sortKey option');
+  });
+});
@@ -0,0 +1,283 @@
+import { Column, DataSource, Entity, PrimaryGeneratedColumn } from 'typeorm';
+import {
+  I18nColumn,
+  I18nSubscriber,
+  I18nValidationError,
+  I18nValue,
+  attachI18nConfig,
+  getI18nDataSourceConfig,
+  getI18nRepository,
+  i18nMetadataStorage,
+  resetI18nConfig,
+  setI18nConfig,
+  validateI18nSchema,
+} from '../src';
+import { resetI18nColumnsFinalization } from '../src/decorator';
+import { closeE2EDataSource } from './db-helper';
+
+type CatalogLanguages = 'en' | 'es' | 'fr' | 'de';
+
+@Entity('shared_products')
+class SharedProduct {
+  @PrimaryGeneratedColumn()
+  id!: number;
+
+  @Column({ type: 'varchar', length: 50 })
+  sku!: string;
+
+  @I18nColumn({ type: 'varchar', length: 255, nullable: true })
+  name!: string;
+
+  nameTranslations?: I18nValue<CatalogLanguages, string>;
+
+  @I18nColumn({ storage: 'json', type: 'simple-json', nullable: true })
+  description!: string;
+
+  descriptionTranslations?: I18nValue<CatalogLanguages, string>;
+
+  @I18nColumn({ languages: ['en', 'ja'], default_language: 'en', type: 'varchar', length: 100, nullable: true })
+  tagline!: string;
+
+  taglineTranslations?: I18nValue<'en' | 'ja', string>;
+}
+
+function createDataSource(): DataSource {
+  return new DataSource({
+    type: 'better-sqlite3',
+    database: ':memory:',
+    synchronize: true,
+    entities: [SharedProduct],
+    subscribers: [I18nSubscriber],
+  });
+}
+
+function columnNames(dataSource: DataSource): string[] {
+  return dataSource.getMetadata(SharedProduct).columns.map((column) => column.databaseName);
+}
+
+describe('Per-DataSource Configuration', () => {
+  let catalog: DataSource;
+  let backOffice: DataSource;
+
+  beforeEach(async () => {
+    catalog = attachI18nConfig(createDataSource(), {
+      languages: ['en', 'es', 'fr', 'de'],
+      default_language: 'en',
+    });
+    backOffice = attachI18nConfig(createDataSource(), {
+      languages: ['EN', 'DE'],
+      default_language: 'en',
+      required: ['de'],
+    });
+    await Promise.all([catalog.initialize(), backOffice.initialize()]);
+  });
+
+  afterEach(async () => {
+    resetI18nConfig();
+    resetI18nColumnsFinalization();
+    await closeE2EDataSource(catalog);
+    await closeE2EDataSource(backOffice);
+  });
+
+  describe('Columns', () => {
+    it('should generate the language columns of each DataSource', () => {
+      expect(columnNames(catalog)).toEqual(
+        expect.arrayContaining(['name', 'name_es', 'name_fr', 'name_de', 'tagline_ja'])
+      );
+      expect(columnNames(backOffice)).toEqual(expect.arrayContaining(['name', 'name_de', 'tagline_ja']));
+      expect(columnNames(backOffice)).not.toContain('name_es');
+    });
+
+    it('should apply the required languages of each DataSource', () => {
+      expect(catalog.getMetadata(SharedProduct).findColumnWithPropertyName('name_de')?.isNullable).toBe(true);
+      expect(backOffice.getMetadata(SharedProduct).findColumnWithPropertyName('name_de')?.isNullable).toBe(false);
+    });
+
+    it('should not change the global metadata', () => {
+      expect(i18nMetadataStorage.getMetadata(SharedProduct).map((meta) => meta.propertyName)).toEqual(['tagline']);
+      expect(i18nMetadataStorage.getPropertyMetadata(SharedProduct, 'name', backOffice)?.options.languages).toEqual([
+        'en',
+        'de',
+      ]);
+    });
+
+    it('should match the schema of each DataSource', async () => {
+      expect((await validateI18nSchema(catalog)).valid).toBe(true);
+      expect((await validateI18nSchema(backOffice)).valid).toBe(true);
+    });
+  });
+
+  describe('Repositories', () => {
+    it('should save and load the languages of each DataSource', async () => {
+      const catalogRepo = getI18nRepository(SharedProduct, catalog);
+      const backOfficeRepo = getI18nRepository(SharedProduct, backOffice);
+
+      await catalogRepo.save(
+        catalogRepo.create({
+          sku: 'A1',
+          nameTranslations: { en: 'Chair', es: 'Silla', fr: 'Chaise', de: 'Stuhl' },
+          descriptionTranslations: { en: 'Wooden', es: 'De madera', fr: 'En bois', de: 'Aus Holz' },
+        })
+      );
+      await backOfficeRepo.save(
+        backOfficeRepo.create({
+          sku: 'A1',
+          nameTranslations: { en: 'Chair', de: 'Stuhl' },
+          descriptionTranslations: { en: 'Wooden', de: 'Aus Holz' },
+        })
+      );
+
+      const fromCatalog = await catalogRepo.findOneByOrFail({ sku: 'A1' });
+      const fromBackOffice = await backOfficeRepo.findOneByOrFail({ sku: 'A1' });
+
+      expect(fromCatalog.nameTranslations).toEqual({ en: 'Chair', es: 'Silla', fr: 'Chaise', de: 'Stuhl' });
+      expect(fromBackOffice.nameTranslations).toEqual({ en: 'Chair', de: 'Stuhl' });
+      expect(fromBackOffice.descriptionTranslations).toEqual({ en: 'Wooden', de: 'Aus Holz' });
+    });
+
+    it('should query the languages of each DataSource', async () => {
+      const catalogRepo = getI18nRepository(SharedProduct, catalog);
+      const backOfficeRepo = getI18nRepository(SharedProduct, backOffice);
+      await catalogRepo.save(
+        catalogRepo.create({ sku: 'B2', nameTranslations: { en: 'Table', es: 'Mesa', fr: 'Table', de: 'Tisch' } })
+      );
+      await backOfficeRepo.save(
+        backOfficeRepo.create({
+          sku: 'B2',
+          nameTranslations: { en: 'Table', de: 'Tisch' },
+          descriptionTranslations: { en: 'Round', de: 'Rund' },
+        })
+      );
+
+      catalogRepo.setLanguage('es');
+      backOfficeRepo.setLanguage('es');
+
+      const [spanish] = await catalogRepo.find({ where: { name: 'Mesa' } });
+      const [fallback] = await backOfficeRepo.find({ where: { name: 'Table' } });
+      const [builder] = await catalogRepo.createQueryBuilder('product').where({ name: 'Mesa' }).getMany();
+
+      expect(spanish.name).toBe('Mesa');
+      expect(fallback.name).toBe('Table');
+      expect(builder.sku).toBe('B2');
+      expect(catalogRepo.getLanguageColumn('name')).toBe('name_es');
+      expect(backOfficeRepo.getLanguageColumn('name')).toBe('name');
+    });
+
+    it('should validate the required languages of each DataSource', async () => {
+      const catalogRepo = getI18nRepository(SharedProduct, catalog);
+      const backOfficeRepo = getI18nRepository(SharedProduct, backOffice);
+
+      expect(() => catalogRepo.create({ sku: 'C3', nameTranslations: { en: 'Lamp' } as any })).not.toThrow();
+      expect(() => backOfficeRepo.create({ sku: 'C3', nameTranslations: { en: 'Lamp' } as any })).toThrow(
+        I18nValidationError
+      );
+
+      const product = Object.assign(new SharedProduct(), { sku: 'C3', nameTranslations: { en: 'Lamp' } });
+      await expect(backOffice.manager.save(product)).rejects.toThrow(I18nValidationError);
+    });
+
+    it('should transform entities saved through the EntityManager', async () => {
+      const product = Object.assign(new SharedProduct(), {
+        sku: 'D4',
+        nameTranslations: { en: 'Desk', de: 'Schreibtisch' },
+        descriptionTranslations: { en: 'Large', de: 'Groß' },
+      });
+      await backOffice.manager.save(product);
+
+      const loaded = await backOffice.manager.findOneByOrFail(SharedProduct, { sku: 'D4' });
+      expect(loaded.nameTranslations).toEqual({ en: 'Desk', de: 'Schreibtisch' });
+    });
+  });
+
+  describe('Configuration', () => {
+    it('should return the normalized configuration of a DataSource', () => {
+      expect(getI18nDataSourceConfig(backOffice)).toMatchObject({
+        languages: ['en', 'de'],
+        default_language: 'en',
+        required: ['de'],
+      });
+      expect(getI18nDataSourceConfig(new DataSource({ type: 'better-sqlite3', database: ':memory:' }))).toBeUndefined();
+    });
+
+    it('should reject initialized DataSources', () => {
+      expect(() => attachI18nConfig(catalog, { languages: ['en'], default_language: 'en' })).toThrow(
+        'attachI18nConfig() must be called before DataSource'
+      );
+    });
+
+    it('should fall back to the global configuration', async () => {
+      setI18nConfig({ languages: ['en', 'it'], default_language: 'en' });
+
+      @Entity('shared_categories')
+      class SharedCategory {
+        @PrimaryGeneratedColumn()
+        id!: number;
+
+        @I18nColumn({ type: 'varchar', length: 255, nullable: true })
+        title!: string;
+      }
+
+      const createCategoryDataSource = () =>
+        new DataSource({ type: 'better-sqlite3', database: ':memory:', entities: [SharedCategory] });
+      const global = createCategoryDataSource();
+      const partial = attachI18nConfig(createCategoryDataSource(), { languages: ['en', 'nl'] });
+      await global.initialize();
+      await partial.initialize();
+
+      try {
+        const globalColumns = global.getMetadata(SharedCategory).columns.map((column) => column.databaseName);
+        const partialColumns = partial.getMetadata(SharedCategory).columns.map((column) => column.databaseName);
+
+        expect(globalColumns).toEqual(['id', 'title', 'title_it']);
+        expect(partialColumns).toEqual(['id', 'title', 'title_nl']);
+        expect(i18nMetadataStorage.getPropertyMetadata(SharedCategory, 'title', partial)?.options).toMatchObject({
+          languages: ['en', 'nl'],
+          default_language: 'en',
+        });
+      } finally {
+        await closeE2EDataSource(global);
+        await closeE2EDataSource(partial);
+      }
+    });
+
+    it('should not change the columns of DataSources initializing at the same time', async () => {
+      setI18nConfig({ languages: ['en', 'it'], default_language: 'en' });
+
+      @Entity('shared_brands')
+      class SharedBrand {
+        @PrimaryGeneratedColumn()
+        id!: number;
+
+        @I18nColumn({ type: 'varchar', length: 255, nullable: true })
+        name!: string;
+      }
+
+      const createBrandDataSource = () =>
+        new DataSource({
+          type: 'better-sqlite3',
+          database: ':memory:',
+          entities: [SharedBrand],
+          subscribers: [I18nSubscriber],
+        });
+      const attached = attachI18nConfig(createBrandDataSource(), { languages: ['en', 'de'] });
+      const plain = createBrandDataSource();
+      await Promise.all([attached.initialize(), plain.initialize()]);
+
+      try {
+        expect(attached.getMetadata(SharedBrand).columns.map((column) => column.databaseName)).toEqual([
+          'id',
+          'name',
+          'name_de',
+        ]);
+        expect(plain.getMetadata(SharedBrand).columns.map((column) => column.databaseName)).toEqual([
+          'id',
+          'name',
+          'name_it',
+        ]);
+      } finally {
+        await closeE2EDataSource(attached);
+        await closeE2EDataSource(plain);
+      }
+    });
+  });
+});
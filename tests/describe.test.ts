@@ -0,0 +1,199 @@
+import { Column, ColumnType, DataSource, Entity, PrimaryGeneratedColumn } from 'typeorm';
+import { I18nColumn, I18nRelation, I18nValue, describeI18nEntity, getI18nTranslationEntity } from '../src';
+import { createE2EDataSource, closeE2EDataSource } from './db-helper';
+
+type Languages = 'en' | 'es' | 'fr';
+
+const languages = { languages: ['en', 'es', 'fr'] as Languages[], default_language: 'en' as const };
+
+class DescribedSeo {
+  @I18nColumn({ ...languages, type: 'varchar', length: 160, nullable: true })
+  title!: string;
+}
+
+@Entity('describe_images')
+class DescribedImage {
+  @PrimaryGeneratedColumn()
+  id!: number;
+}
+
+@Entity('describe_products')
+class DescribedProduct {
+  @PrimaryGeneratedColumn()
+  id!: number;
+
+  @I18nColumn({ ...languages, type: 'varchar', length: 255, required: ['en', 'es'], deprecated: ['fr'] })
+  name!: string;
+
+  nameTranslations?: I18nValue<Languages, string>;
+
+  @I18nColumn({ ...languages, storage: 'json', type: 'simple-json', nullable: true, fallback: 'en' })
+  description!: string;
+
+  @I18nColumn({ ...languages, storage: 'table', type: 'text', nullable: true })
+  body!: string;
+
+  @I18nRelation(() => DescribedImage, { ...languages, joinColumn: 'image_id' })
+  image!: DescribedImage | null;
+
+  @Column(() => DescribedSeo)
+  seo!: DescribedSeo;
+
+  @Column({ type: 'int', default: 0 })
+  stock!: number;
+}
+
+@Entity('describe_plain')
+class DescribedPlain {
+  @PrimaryGeneratedColumn()
+  id!: number;
+}
+
+describe('describeI18nEntity', () => {
+  let dataSource: DataSource;
+
+  beforeAll(async () => {
+    dataSource = await createE2EDataSource([
+      DescribedImage,
+      DescribedProduct,
+      DescribedPlain,
+      getI18nTranslationEntity(DescribedProduct),
+    ]);
+  });
+
+  afterAll(async () => {
+    if (dataSource && dataSource.isInitialized) {
+      await closeE2EDataSource(dataSource);
+    }
+  });
+
+  function normalizeType(type: ColumnType) {
+    return dataSource.driver.normalizeType({ type });
+  }
+
+  function describeProperty(property: string) {
+    return describeI18nEntity(DescribedProduct, dataSource).properties.find((prop) => prop.property === property);
+  }
+
+  it('should describe the entity and its translatable properties', () => {
+    const descriptor = describeI18nEntity(DescribedProduct, dataSource);
+
+    expect(descriptor).toMatchObject({
+      entity: 'DescribedProduct',
+      table: 'describe_products',
+      translationTable: 'described_product_translation',
+    });
+    expect(descriptor.properties.map((prop) => prop.property)).toEqual([
+      'name',
+      'description',
+      'body',
+      'image',
+      'seo.title',
+    ]);
+  });
+
+  it('should map the languages of columns storage to their database columns', () => {
+    expect(describeProperty('name')).toEqual({
+      property: 'name',
+      translationsKey: 'nameTranslations',
+      storage: 'columns',
+      relation: false,
+      type: normalizeType('varchar'),
+      length: 255,
+      languages: ['en', 'es', 'fr'],
+      defaultLanguage: 'en',
+      required: ['en', 'es'],
+      columns: [
+        {
+          language: 'en',
+          status: 'active',
+          required: true,
+          property: 'name',
+          table: 'describe_products',
+          column: 'name',
+          nullable: false,
+        },
+        {
+          language: 'es',
+          status: 'active',
+          required: true,
+          property: 'name_es',
+          table: 'describe_products',
+          column: 'name_es',
+          nullable: false,
+        },
+        {
+          language: 'fr',
+          status: 'deprecated',
+          required: false,
+          property: 'name_fr',
+          table: 'describe_products',
+          column: 'name_fr',
+          nullable: true,
+        },
+      ],
+    });
+  });
+
+  it('should describe JSON and table storage', () => {
+    const description = describeProperty('description');
+    const body = describeProperty('body');
+
+    expect(description).toMatchObject({ storage: 'json', type: normalizeType('simple-json'), fallback: 'en' });
+    expect(description?.length).toBeUndefined();
+    expect(description?.columns[1]).toMatchObject({
+      language: 'es',
+      property: 'description',
+      table: 'describe_products',
+      column: 'description',
+      jsonKey: 'es',
+    });
+
+    expect(body).toMatchObject({ storage: 'table', type: normalizeType('text') });
+    expect(body?.columns[2]).toMatchObject({
+      language: 'fr',
+      property: 'body',
+      table: 'described_product_translation',
+      column: 'body',
+      locale: 'fr',
+    });
+  });
+
+  it('should describe relations by their foreign keys', () => {
+    expect(describeProperty('image')).toMatchObject({
+      relation: true,
+      type: dataSource.driver.normalizeType(dataSource.getMetadata(DescribedImage).primaryColumns[0]),
+      columns: [
+        { language: 'en', property: 'image', column: 'image_id' },
+        { language: 'es', property: 'image_es', column: 'image_id_es' },
+        { language: 'fr', property: 'image_fr', column: 'image_id_fr' },
+      ],
+    });
+  });
+
+  it('should describe properties of embedded entities by their path', () => {
+    expect(describeProperty('seo.title')).toMatchObject({
+      translationsKey: 'seo.titleTranslations',
+      length: 160,
+      columns: [
+        { language: 'en', property: 'seo.title', column: 'seoTitle' },
+        { language: 'es', property: 'seo.title_es', column: 'seoTitle_es' },
+        { language: 'fr', property: 'seo.title_fr', column: 'seoTitle_fr' },
+      ],
+    });
+  });
+
+  it('should describe entities without translatable properties', () => {
+    expect(describeI18nEntity(DescribedPlain, dataSource)).toEqual({
+      entity: 'DescribedPlain',
+      table: 'describe_plain',
+      properties: [],
+    });
+  });
+
+  it('should be serializable as JSON', () => {
+    const descriptor = describeI18nEntity(DescribedProduct, dataSource);
+
+    expect(JSON.parse(JSON.stringify(descriptor))).toEqual(descriptor);
+  });
+});
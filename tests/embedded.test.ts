@@ -0,0 +1,281 @@
+import { Column, DataSource, Entity, PrimaryGeneratedColumn } from 'typeorm';
+import {
+  I18nColumn,
+  I18nValidationError,
+  I18nValue,
+  getI18nRepository,
+  validateI18nSchema,
+} from '../src';
+import { createE2EDataSource, closeE2EDataSource } from './db-helper';
+
+type Languages = 'en' | 'es' | 'fr';
+
+class SeoMeta {
+  @I18nColumn({
+    languages: ['en', 'es', 'fr'],
+    default_language: 'en',
+    type: 'varchar',
+    length: 255,
+    nullable: true,
+    required: ['en'],
+  })
+  title!: string;
+
+  titleTranslations?: I18nValue<Languages, string>;
+
+  @I18nColumn({
+    languages: ['en', 'es', 'fr'],
+    default_language: 'en',
+    type: 'text',
+    nullable: true,
+  })
+  description!: string;
+
+  descriptionTranslations?: I18nValue<Languages, string>;
+
+  @Column({ type: 'varchar', length: 100, nullable: true })
+  canonicalUrl!: string | null;
+}
+
+@Entity('embedded_pages')
+class Page {
+  @PrimaryGeneratedColumn()
+  id!: number;
+
+  @Column({ type: 'varchar', length: 100 })
+  slug!: string;
+
+  @Column(() => SeoMeta)
+  seo!: SeoMeta;
+}
+
+@Entity('embedded_posts')
+class Post {
+  @PrimaryGeneratedColumn()
+  id!: number;
+
+  @I18nColumn({
+    languages: ['en', 'es', 'fr'],
+    default_language: 'en',
+    type: 'varchar',
+    length: 255,
+  })
+  headline!: string;
+
+  headlineTranslations?: I18nValue<Languages, string>;
+
+  @Column(() => SeoMeta, { prefix: 'meta' })
+  seo!: SeoMeta;
+}
+
+describe('Embedded Entities', () => {
+  let dataSource: DataSource;
+
+  beforeEach(async () => {
+    dataSource = await createE2EDataSource([Page, Post]);
+  });
+
+  afterEach(async () => {
+    if (dataSource && dataSource.isInitialized) {
+      await closeE2EDataSource(dataSource);
+    }
+  });
+
+  async function seedPages() {
+    const repo = getI18nRepository(Page, dataSource);
+    return repo.save([
+      repo.create({
+        slug: 'home',
+        seo: {
+          titleTranslations: { en: 'Home', es: 'Inicio', fr: 'Accueil' },
+          descriptionTranslations: { en: 'Welcome', es: 'Bienvenido', fr: 'Bienvenue' },
+          canonicalUrl: '/home',
+        },
+      }),
+      repo.create({
+        slug: 'about',
+        seo: {
+          titleTranslations: { en: 'About', es: 'Acerca de', fr: 'À propos' },
+          descriptionTranslations: { en: 'About us', es: 'Sobre nosotros', fr: 'À propos de nous' },
+        },
+      }),
+    ]);
+  }
+
+  describe('Column names', () => {
+    it('should prefix the language columns of embedded properties', () => {
+      const columns = dataSource.getMetadata(Page).columns.map((column) => column.databaseName);
+
+      expect(columns).toEqual(
+        expect.arrayContaining(['seoTitle', 'seoTitle_es', 'seoTitle_fr', 'seoDescription', 'seoDescription_es'])
+      );
+    });
+
+    it('should use a custom embedded prefix', () => {
+      const columns = dataSource.getMetadata(Post).columns.map((column) => column.databaseName);
+
+      expect(columns).toEqual(expect.arrayContaining(['headline_es', 'metaTitle', 'metaTitle_es', 'metaTitle_fr']));
+    });
+
+    it('should report embedded language columns in schema validation', async () => {
+      const result = await validateI18nSchema(dataSource);
+
+      expect(result.valid).toBe(true);
+    });
+  });
+
+  describe('Loading', () => {
+    it('should load the translations of embedded properties', async () => {
+      const [home] = await seedPages();
+      const repo = getI18nRepository(Page, dataSource);
+
+      const loaded = await repo.findOneByOrFail({ id: home.id });
+
+      expect(loaded.seo.title).toBe('Home');
+      expect(loaded.seo.titleTranslations).toEqual({ en: 'Home', es: 'Inicio', fr: 'Accueil' });
+      expect(loaded.seo.descriptionTranslations?.fr).toBe('Bienvenue');
+      expect(loaded.seo.canonicalUrl).toBe('/home');
+      expect((loaded.seo as any).title_es).toBeUndefined();
+    });
+
+    it('should set embedded values to the current language', async () => {
+      const [home] = await seedPages();
+      const repo = getI18nRepository(Page, dataSource);
+      repo.setLanguage('es');
+
+      const loaded = await repo.findOneByOrFail({ id: home.id });
+
+      expect(loaded.seo.title).toBe('Inicio');
+      expect(loaded.seo.description).toBe('Bienvenido');
+    });
+
+    it('should transform entities with direct and embedded I18n columns', async () => {
+      const repo = getI18nRepository(Post, dataSource);
+      await repo.save(
+        repo.create({
+          headlineTranslations: { en: 'News', es: 'Noticias', fr: 'Actualités' },
+          seo: { titleTranslations: { en: 'News title', es: 'Título', fr: 'Titre' } },
+        })
+      );
+      repo.setLanguage('fr');
+
+      const [post] = await repo.find();
+
+      expect(post.headline).toBe('Actualités');
+      expect(post.seo.title).toBe('Titre');
+      expect(post.seo.descriptionTranslations).toEqual({ en: null, es: null, fr: null });
+    });
+  });
+
+  describe('Saving', () => {
+    it('should update embedded translations', async () => {
+      const [home] = await seedPages();
+      const repo = getI18nRepository(Page, dataSource);
+
+      const loaded = await repo.findOneByOrFail({ id: home.id });
+      loaded.seo.titleTranslations = { en: 'Home', es: 'Portada', fr: 'Accueil' };
+      await repo.save(loaded);
+
+      const reloaded = await repo.findOneByOrFail({ id: home.id });
+      expect(reloaded.seo.titleTranslations?.es).toBe('Portada');
+      expect(reloaded.seo.descriptionTranslations?.es).toBe('Bienvenido');
+    });
+
+    it('should save a single embedded value to the default language column', async () => {
+      const page = new Page();
+      page.slug = 'blog';
+      page.seo = new SeoMeta();
+      page.seo.title = 'Blog';
+      await dataSource.manager.save(page);
+
+      const repo = getI18nRepository(Page, dataSource);
+      const loaded = await repo.findOneByOrFail({ id: page.id });
+      expect(loaded.seo.titleTranslations).toEqual({ en: 'Blog', es: null, fr: null });
+    });
+
+    it('should keep the translations of the saved entity', async () => {
+      const repo = getI18nRepository(Page, dataSource);
+
+      const saved = await repo.save(
+        repo.create({ slug: 'contact', seo: { titleTranslations: { en: 'Contact', es: 'Contacto', fr: 'Contact' } } })
+      );
+
+      expect(saved.seo.titleTranslations?.es).toBe('Contacto');
+    });
+
+    it('should reject missing required embedded translations', () => {
+      const repo = getI18nRepository(Page, dataSource);
+
+      expect(() => repo.create({ slug: 'empty', seo: { titleTranslations: { es: 'Vacío' } as any } })).toThrow(
+        I18nValidationError
+      );
+
+      try {
+        repo.create({ slug: 'empty', seo: { titleTranslations: { es: 'Vacío' } as any } });
+      } catch (error) {
+        expect((error as I18nValidationError).missing).toEqual([
+          { entity: 'Page', property: 'seo.title', language: 'en' },
+        ]);
+      }
+    });
+  });
+
+  describe('Querying', () => {
+    it('should find by embedded properties in the current language', async () => {
+      await seedPages();
+      const repo = getI18nRepository(Page, dataSource);
+      repo.setLanguage('es');
+
+      const pages = await repo.find({ where: { seo: { title: 'Acerca de' } } });
+
+      expect(pages).toHaveLength(1);
+      expect(pages[0].slug).toBe('about');
+    });
+
+    it('should combine embedded and regular conditions', async () => {
+      await seedPages();
+      const repo = getI18nRepository(Page, dataSource);
+      repo.setLanguage('fr');
+
+      expect(await repo.countBy({ slug: 'home', seo: { title: 'Accueil' } })).toBe(1);
+      expect(await repo.countBy({ slug: 'about', seo: { title: 'Accueil' } })).toBe(0);
+    });
+
+    it('should order by embedded properties in the current language', async () => {
+      await seedPages();
+      const repo = getI18nRepository(Page, dataSource);
+      repo.setLanguage('fr');
+
+      // "À propos" sorts after "Accueil" byte-wise
+      const pages = await repo.find({ order: { seo: { title: 'ASC' } } });
+      repo.setLanguage('es');
+      const spanish = await repo.find({ order: { seo: { title: 'ASC' } } });
+
+      expect(pages.map((page) => page.slug)).toEqual(['home', 'about']);
+      expect(spanish.map((page) => page.slug)).toEqual(['about', 'home']);
+    });
+
+    it('should return embedded language columns', () => {
+      const repo = getI18nRepository(Page, dataSource);
+      repo.setLanguage('es');
+
+      expect(repo.getLanguageColumn('seo.title')).toBe('seo.title_es');
+      expect(repo.getLanguageColumn('slug')).toBe('slug');
+    });
+
+    it('should translate embedded properties in QueryBuilder', async () => {
+      await seedPages();
+      const repo = getI18nRepository(Page, dataSource);
+      repo.setLanguage('es');
+
+      const pages = await repo
+        .createQueryBuilder('page')
+        .where({ seo: { title: 'Inicio' } })
+        .orderBy('page.seo.description', 'ASC')
+        .getMany();
+
+      expect(pages).toHaveLength(1);
+      expect(pages[0].seo.title).toBe('Inicio');
+    });
+  });
+});
@@ -0,0 +1,21 @@
+import { Entity, PrimaryGeneratedColumn } from 'typeorm';
+import { I18nColumn, I18nValue } from '../../src';
+
+/**
+ * Test entity for the migration command line
+ */
+@Entity('cli_products')
+export class CliProduct {
+  @PrimaryGeneratedColumn()
+  id!: number;
+
+  @I18nColumn({
+    languages: ['en', 'es', 'it'],
+    default_language: 'en',
+    type: 'varchar',
+    length: 255,
+  })
+  name!: string;
+
+  nameTranslations?: I18nValue<'en' | 'es' | 'it', string>;
+}
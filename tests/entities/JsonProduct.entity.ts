@@ -0,0 +1,26 @@
+import { Entity, PrimaryGeneratedColumn, Column } from 'typeorm';
+import { I18nColumn, I18nValue } from '../../src';
+
+export type JsonProductLanguages = 'en' | 'es' | 'fr';
+
+/**
+ * Test entity storing all translations in a single JSON column
+ */
+@Entity('json_products')
+export class JsonProduct {
+  @PrimaryGeneratedColumn()
+  id!: number;
+
+  @I18nColumn({
+    languages: ['en', 'es', 'fr'],
+    default_language: 'en',
+    storage: 'json',
+    type: process.env.DB_TYPE === 'postgres' ? 'jsonb' : 'json',
+  })
+  name!: string;
+
+  nameTranslations?: I18nValue<JsonProductLanguages, string>;
+
+  @Column({ type: 'real' })
+  price!: number;
+}
@@ -0,0 +1,38 @@
+import { Entity, PrimaryGeneratedColumn, Column } from 'typeorm';
+import { I18nColumn, I18nValue } from '../../src';
+
+export type TableProductLanguages = 'en' | 'es' | 'fr';
+
+/**
+ * Test entity storing translations in a companion translation table
+ */
+@Entity('table_products')
+export class TableProduct {
+  @PrimaryGeneratedColumn()
+  id!: number;
+
+  @I18nColumn({
+    languages: ['en', 'es', 'fr'],
+    default_language: 'en',
+    storage: 'table',
+    translationTable: 'table_product_translations',
+    type: 'varchar',
+    length: 255,
+  })
+  name!: string;
+
+  nameTranslations?: I18nValue<TableProductLanguages, string>;
+
+  @I18nColumn({
+    languages: ['en', 'es', 'fr'],
+    default_language: 'en',
+    storage: 'table',
+    type: 'text',
+  })
+  description!: string;
+
+  descriptionTranslations?: I18nValue<TableProductLanguages, string>;
+
+  @Column({ type: 'real' })
+  price!: number;
+}
@@ -0,0 +1,293 @@
+import { DataSource, Entity, PrimaryGeneratedColumn } from 'typeorm';
+import {
+  I18nColumn,
+  I18nEntity,
+  I18nValue,
+  findMissingI18nTranslations,
+  getI18nRepository,
+  i18nMetadataStorage,
+  resetI18nConfig,
+  setI18nConfig,
+} from '../src';
+import { resetI18nColumnsFinalization } from '../src/decorator';
+import { createE2EDataSource, closeE2EDataSource } from './db-helper';
+
+type StoreLanguages = 'en' | 'es' | 'fr';
+
+@I18nEntity({ languages: ['en', 'es', 'fr'], default_language: 'en', fallback: 'en' })
+@Entity('entity_decorator_stores')
+class Store {
+  @PrimaryGeneratedColumn()
+  id!: number;
+
+  @I18nColumn({ type: 'varchar', length: 255, nullable: true })
+  name!: string;
+
+  nameTranslations?: I18nValue<StoreLanguages, string>;
+
+  @I18nColumn({ storage: 'json', type: 'simple-json', nullable: true })
+  slogan!: string;
+
+  sloganTranslations?: I18nValue<StoreLanguages, string>;
+
+  @I18nColumn({ languages: ['en', 'es'], default_language: 'es', type: 'varchar', length: 100, nullable: true })
+  city!: string;
+
+  cityTranslations?: I18nValue<'en' | 'es', string>;
+}
+
+function columnNames(dataSource: DataSource, target: Function): string[] {
+  return dataSource.getMetadata(target).columns.map((column) => column.databaseName);
+}
+
+describe('@I18nEntity', () => {
+  let dataSource: DataSource;
+
+  afterEach(async () => {
+    resetI18nConfig();
+    resetI18nColumnsFinalization();
+
+    if (dataSource && dataSource.isInitialized) {
+      await closeE2EDataSource(dataSource);
+    }
+  });
+
+  describe('Columns', () => {
+    it('should apply the entity options to all of its columns', async () => {
+      dataSource = await createE2EDataSource([Store]);
+
+      expect(columnNames(dataSource, Store)).toEqual(
+        expect.arrayContaining(['name', 'name_es', 'name_fr', 'slogan', 'city', 'city_en'])
+      );
+      expect(i18nMetadataStorage.getPropertyMetadata(Store, 'slogan')?.options).toMatchObject({
+        languages: ['en', 'es', 'fr'],
+        default_language: 'en',
+        fallback: 'en',
+      });
+    });
+
+    it('should let column options override the entity options', () => {
+      expect(i18nMetadataStorage.getPropertyMetadata(Store, 'city')?.options).toMatchObject({
+        languages: ['en', 'es'],
+        default_language: 'es',
+        fallback: 'en',
+      });
+    });
+
+    it('should take precedence over the global configuration', async () => {
+      setI18nConfig({ languages: ['en', 'it'], default_language: 'en', required: ['en'] });
+
+      @I18nEntity({ languages: ['en', 'de'], default_language: 'en' })
+      @Entity('entity_decorator_brands')
+      class Brand {
+        @PrimaryGeneratedColumn()
+        id!: number;
+
+        @I18nColumn({ type: 'varchar', length: 255, index: true })
+        title!: string;
+      }
+
+      dataSource = await createE2EDataSource([Brand]);
+      const columns = columnNames(dataSource, Brand);
+
+      expect(columns).toEqual(['id', 'title', 'title_de']);
+      expect(dataSource.getMetadata(Brand).indices.map((index) => index.name).sort()).toEqual([
+        'IDX_Brand_title_de',
+        'IDX_Brand_title_en',
+      ]);
+      expect(i18nMetadataStorage.getPropertyMetadata(Brand, 'title')?.options.required).toEqual(['en']);
+    });
+
+    it('should take languages from the profile of the entity', () => {
+      setI18nConfig({
+        languages: ['en', 'es'],
+        default_language: 'en',
+        profiles: { legal: { languages: ['en', 'de'], default_language: 'en', required: ['de'] } },
+      });
+
+      @I18nEntity({ profile: 'legal' })
+      @Entity('entity_decorator_contracts')
+      class Contract {
+        @PrimaryGeneratedColumn()
+        id!: number;
+
+        @I18nColumn({ type: 'text', nullable: true })
+        terms!: string;
+
+        @I18nColumn({ languages: ['en', 'es'], type: 'text', nullable: true })
+        notes!: string;
+      }
+
+      expect(i18nMetadataStorage.getPropertyMetadata(Contract, 'terms')?.options).toMatchObject({
+        languages: ['en', 'de'],
+        required: ['de'],
+        profile: 'legal',
+      });
+      expect(i18nMetadataStorage.getPropertyMetadata(Contract, 'notes')?.options.languages).toEqual(['en', 'es']);
+    });
+
+    it('should wait for the profile of the entity to be configured', async () => {
+      setI18nConfig({ languages: ['en', 'es'], default_language: 'en' });
+
+      @I18nEntity({ profile: 'legal' })
+      @Entity('entity_decorator_agreements')
+      class Agreement {
+        @PrimaryGeneratedColumn()
+        id!: number;
+
+        @I18nColumn({ type: 'text', nullable: true })
+        terms!: string;
+      }
+
+      expect(i18nMetadataStorage.getPropertyMetadata(Agreement, 'terms')).toBeUndefined();
+
+      setI18nConfig({
+        languages: ['en', 'es'],
+        default_language: 'en',
+        profiles: { legal: { languages: ['en', 'de'], default_language: 'en' } },
+      });
+      dataSource = await createE2EDataSource([Agreement]);
+
+      expect(i18nMetadataStorage.getPropertyMetadata(Agreement, 'terms')?.options.languages).toEqual(['en', 'de']);
+      expect(columnNames(dataSource, Agreement)).toEqual(['id', 'terms', 'terms_de']);
+    });
+
+    it('should apply the required languages of the entity', () => {
+      @I18nEntity({ languages: ['en', 'es'], default_language: 'en', required: ['es'] })
+      @Entity('entity_decorator_required')
+      class Required {
+        @PrimaryGeneratedColumn()
+        id!: number;
+
+        @I18nColumn({ type: 'text', nullable: true })
+        body!: string;
+
+        bodyTranslations?: I18nValue<'en' | 'es', string>;
+      }
+
+      const entity = Object.assign(new Required(), { bodyTranslations: { en: 'Hello' } });
+
+      expect(findMissingI18nTranslations(entity)).toEqual([
+        { entity: 'Required', property: 'body', language: 'es' },
+      ]);
+    });
+
+    it('should be inherited by subclasses', () => {
+      @I18nEntity({ languages: ['en', 'ja'], default_language: 'en' })
+      abstract class Translatable {
+        @I18nColumn({ type: 'varchar', length: 255, nullable: true })
+        title!: string;
+      }
+
+      @I18nEntity({ fallback: 'en' })
+      @Entity('entity_decorator_articles')
+      class Article extends Translatable {
+        @PrimaryGeneratedColumn()
+        id!: number;
+
+        @I18nColumn({ type: 'text', nullable: true })
+        body!: string;
+      }
+
+      expect(i18nMetadataStorage.getEntityOptions(Article)).toEqual({
+        languages: ['en', 'ja'],
+        default_language: 'en',
+        fallback: 'en',
+      });
+      expect(i18nMetadataStorage.getMetadata(Article).map((meta) => meta.options.languages)).toEqual([
+        ['en', 'ja'],
+        ['en', 'ja'],
+      ]);
+      expect(i18nMetadataStorage.getPropertyMetadata(Article, 'body')?.options.fallback).toBe('en');
+    });
+
+    it('should reject a fallback outside the languages of a column', () => {
+      expect(() => {
+        @I18nEntity({ languages: ['en', 'es'], default_language: 'en', fallback: 'fr' })
+        @Entity('entity_decorator_invalid')
+        class Invalid {
+          @PrimaryGeneratedColumn()
+          id!: number;
+
+          @I18nColumn({ type: 'text' })
+          body!: string;
+        }
+        return Invalid;
+      }).toThrow('fallback language "fr" of I18nColumn on Invalid.body must be included in the languages array');
+    });
+  });
+
+  describe('Registration', () => {
+    it('should register the entity before its columns are finalized', () => {
+      @I18nEntity({ default_language: 'en', required: ['en'] })
+      @Entity('entity_decorator_pending')
+      class Pending {
+        @PrimaryGeneratedColumn()
+        id!: number;
+
+        @I18nColumn({ type: 'text', nullable: true })
+        body!: string;
+      }
+
+      expect(i18nMetadataStorage.isI18nEntity(Pending)).toBe(true);
+      expect(i18nMetadataStorage.getMetadata(Pending)).toEqual([]);
+
+      setI18nConfig({ languages: ['EN', 'ES'], default_language: 'es' });
+
+      expect(i18nMetadataStorage.getPropertyMetadata(Pending, 'body')?.options).toMatchObject({
+        languages: ['en', 'es'],
+        default_language: 'en',
+        required: ['en'],
+      });
+    });
+
+    it('should not register other entities', () => {
+      @Entity('entity_decorator_plain')
+      class Plain {
+        @PrimaryGeneratedColumn()
+        id!: number;
+      }
+
+      expect(i18nMetadataStorage.isI18nEntity(Plain)).toBe(false);
+      expect(i18nMetadataStorage.getEntityOptions(Plain)).toBeUndefined();
+    });
+  });
+
+  describe('Fallback', () => {
+    beforeEach(async () => {
+      dataSource = await createE2EDataSource([Store]);
+
+      const repo = getI18nRepository(Store, dataSource);
+      await repo.save(
+        repo.create({
+          nameTranslations: { en: 'Corner Shop', es: 'Tienda' },
+          sloganTranslations: { en: 'Always open' },
+          cityTranslations: { en: 'Seville' },
+        })
+      );
+    });
+
+    it('should use the fallback language for missing translations', async () => {
+      const repo = getI18nRepository(Store, dataSource);
+      repo.setLanguage('fr');
+
+      const [store] = await repo.find();
+
+      expect(store.name).toBe('Corner Shop');
+      expect(store.slogan).toBe('Always open');
+      expect(store.nameTranslations?.fr).toBeNull();
+    });
+
+    it('should prefer existing translations', async () => {
+      const repo = getI18nRepository(Store, dataSource);
+      repo.setLanguage('es');
+
+      const [store] = await repo.find();
+
+      expect(store.name).toBe('Tienda');
+      expect(store.slogan).toBe('Always open');
+      expect(store.city).toBe('Seville');
+    });
+
+  });
+});
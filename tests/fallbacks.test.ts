@@ -0,0 +1,420 @@
+import { Column, DataSource, Entity, ManyToOne, PrimaryGeneratedColumn } from 'typeorm';
+import {
+  I18nColumn,
+  I18nEntity,
+  I18nMissingTranslationError,
+  I18nValue,
+  I18N_RESOLVED_LANGUAGES_KEY,
+  getI18nRepository,
+  getResolvedLanguage,
+  getTranslation,
+  isFallback,
+  resetI18nConfig,
+  setI18nConfig,
+  transformAfterLoad,
+} from '../src';
+import { resetI18nColumnsFinalization } from '../src/decorator';
+import { createE2EDataSource, closeE2EDataSource } from './db-helper';
+
+type Languages = 'en' | 'pt' | 'pt-BR' | 'es' | 'fr';
+
+const languages = { languages: ['en', 'pt', 'pt-BR', 'es', 'fr'] as Languages[], default_language: 'en' as const };
+
+/** Translations with missing languages */
+function partial<TLang extends string>(translations: Partial<Record<TLang, string | null>>): I18nValue<TLang, string> {
+  return translations as I18nValue<TLang, string>;
+}
+
+@Entity('fallback_brands')
+class FallbackBrand {
+  @PrimaryGeneratedColumn()
+  id!: number;
+
+  @I18nColumn({ ...languages, type: 'varchar', length: 100, nullable: true, fallbacks: { '*': ['es', 'en'] } })
+  country!: string;
+
+  countryTranslations?: I18nValue<Languages, string>;
+}
+
+@Entity('fallback_shoes')
+class FallbackShoe {
+  @PrimaryGeneratedColumn()
+  id!: number;
+
+  @I18nColumn({
+    ...languages,
+    type: 'varchar',
+    length: 100,
+    nullable: true,
+    fallbacks: { 'pt-br': ['pt', 'en'], '*': ['en'] },
+  })
+  name!: string;
+
+  nameTranslations?: I18nValue<Languages, string>;
+
+  @I18nColumn({ ...languages, type: 'varchar', length: 100, nullable: true, fallback: 'en', fallbackPolicy: 'none' })
+  slogan!: string;
+
+  sloganTranslations?: I18nValue<Languages, string>;
+
+  @I18nColumn({ ...languages, storage: 'json', type: 'simple-json', nullable: true, fallbacks: { fr: ['es'] } })
+  description!: string;
+
+  descriptionTranslations?: I18nValue<Languages, string>;
+
+  @ManyToOne(() => FallbackBrand, { nullable: true })
+  brand!: FallbackBrand | null;
+}
+
+class FallbackSeo {
+  @I18nColumn({ ...languages, type: 'varchar', length: 100, nullable: true, fallbacks: { '*': ['en'] } })
+  title!: string;
+
+  titleTranslations?: I18nValue<Languages, string>;
+}
+
+@Entity('fallback_pages')
+class FallbackPage {
+  @PrimaryGeneratedColumn()
+  id!: number;
+
+  @Column(() => FallbackSeo)
+  seo!: FallbackSeo;
+}
+
+@Entity('fallback_contracts')
+class FallbackContract {
+  @PrimaryGeneratedColumn()
+  id!: number;
+
+  @I18nColumn({ ...languages, type: 'text', nullable: true, fallbacks: { '*': ['en'] }, fallbackPolicy: 'error' })
+  terms!: string;
+
+  termsTranslations?: I18nValue<Languages, string>;
+}
+
+describe('Fallback chains', () => {
+  let dataSource: DataSource;
+
+  afterEach(async () => {
+    resetI18nConfig();
+    resetI18nColumnsFinalization();
+    if (dataSource && dataSource.isInitialized) {
+      await closeE2EDataSource(dataSource);
+    }
+  });
+
+  describe('Loading', () => {
+    beforeEach(async () => {
+      dataSource = await createE2EDataSource([FallbackBrand, FallbackShoe, FallbackContract]);
+
+      const brandRepo = getI18nRepository(FallbackBrand, dataSource);
+      const brand = await brandRepo.save(
+        brandRepo.create({ countryTranslations: partial<Languages>({ en: 'Italy', es: 'Italia', fr: null }) })
+      );
+
+      const repo = getI18nRepository(FallbackShoe, dataSource);
+      await repo.save(
+        repo.create({
+          nameTranslations: partial<Languages>({ en: 'Shoes', pt: 'Sapatos', 'pt-BR': null, es: null, fr: null }),
+          sloganTranslations: partial<Languages>({ en: 'Walk on', es: null }),
+          descriptionTranslations: partial<Languages>({ en: 'Leather shoes', es: 'Zapatos de cuero', fr: null }),
+          brand,
+        })
+      );
+    });
+
+    it('should follow the chain of the language', async () => {
+      const repo = getI18nRepository(FallbackShoe, dataSource);
+      repo.setLanguage('pt-BR');
+
+      const [shoe] = await repo.find();
+
+      expect(shoe.name).toBe('Sapatos');
+      expect(shoe.nameTranslations?.['pt-BR']).toBeNull();
+    });
+
+    it('should use the * chain for other languages', async () => {
+      const repo = getI18nRepository(FallbackShoe, dataSource);
+      repo.setLanguage('fr');
+
+      const [shoe] = await repo.find();
+
+      expect(shoe.name).toBe('Shoes');
+      expect(shoe.description).toBe('Zapatos de cuero');
+    });
+
+    it('should follow the same chain when the language of a loaded entity changes', async () => {
+      const repo = getI18nRepository(FallbackShoe, dataSource);
+      repo.setLanguage('pt');
+      const [loaded] = await repo.find();
+      repo.setLanguage('es');
+      const [switched] = await repo.find();
+
+      transformAfterLoad(switched, 'pt');
+
+      // The chains of description (fr only) leave out the default language
+      expect(loaded.description).toBeNull();
+      expect(switched.description).toBeNull();
+      expect(switched.name).toBe('Sapatos');
+    });
+
+    it('should follow the chain for languages the column does not have', async () => {
+      const repo = getI18nRepository(FallbackShoe, dataSource);
+      repo.setLanguage('de');
+
+      const shoe = await repo.createQueryBuilder('shoe').leftJoinAndSelect('shoe.brand', 'brand').getOneOrFail();
+
+      expect(shoe.brand?.country).toBe('Italia');
+      expect(shoe.name).toBe('Shoes');
+      expect(shoe.slogan).toBeNull();
+    });
+
+    it('should not fall back with the none policy', async () => {
+      const repo = getI18nRepository(FallbackShoe, dataSource);
+      repo.setLanguage('es');
+
+      const [shoe] = await repo.find();
+
+      expect(shoe.slogan).toBeNull();
+      expect(shoe.name).toBe('Shoes');
+    });
+
+    it('should apply the chains to related entities', async () => {
+      const repo = getI18nRepository(FallbackShoe, dataSource);
+      repo.setLanguage('fr');
+
+      const shoe = await repo.createQueryBuilder('shoe').leftJoinAndSelect('shoe.brand', 'brand').getOne();
+
+      expect(shoe?.brand?.country).toBe('Italia');
+    });
+
+    it('should throw for missing translations with the error policy', async () => {
+      const repo = getI18nRepository(FallbackContract, dataSource);
+      repo.setLanguage('es');
+
+      await repo.save(repo.create({ termsTranslations: partial<Languages>({ en: 'Terms', es: null }) }));
+      repo.setLanguage('en');
+      const [contract] = await repo.find();
+      repo.setLanguage('es');
+
+      expect(contract.terms).toBe('Terms');
+      await expect(repo.find()).rejects.toThrow(I18nMissingTranslationError);
+      await expect(repo.find()).rejects.toThrow('Missing translation in language "es" of FallbackContract.terms');
+    });
+
+    it('should enforce the error policy for languages the column does not have', async () => {
+      const repo = getI18nRepository(FallbackContract, dataSource);
+      await repo.save(repo.create({ termsTranslations: partial<Languages>({ en: 'Terms' }) }));
+
+      repo.setLanguage('de');
+
+      await expect(repo.find()).rejects.toThrow('Missing translation in language "de" of FallbackContract.terms');
+    });
+
+    it('should only enforce the error policy for the requested language', async () => {
+      const repo = getI18nRepository(FallbackContract, dataSource);
+      repo.setLanguage('es');
+      await repo.save(repo.create({ termsTranslations: partial<Languages>({ en: null, es: 'Términos' }) }));
+
+      const [contract] = await repo.find();
+      const loaded = await repo.createQueryBuilder('contract').getOne();
+      repo.setLanguage('en');
+
+      expect(contract.terms).toBe('Términos');
+      expect(loaded?.terms).toBe('Términos');
+      await expect(repo.find()).rejects.toThrow('Missing translation in language "en" of FallbackContract.terms');
+    });
+  });
+
+  describe('Provenance', () => {
+    beforeEach(async () => {
+      dataSource = await createE2EDataSource([FallbackBrand, FallbackShoe, FallbackPage]);
+
+      const repo = getI18nRepository(FallbackShoe, dataSource);
+      await repo.save(
+        repo.create({
+          nameTranslations: partial<Languages>({ en: 'Shoes', pt: 'Sapatos', 'pt-BR': null, es: 'Zapatos', fr: null }),
+          sloganTranslations: partial<Languages>({ en: 'Walk on', es: null }),
+          descriptionTranslations: partial<Languages>({ en: 'Leather shoes', es: 'Zapatos de cuero', fr: null }),
+        })
+      );
+
+      const pageRepo = getI18nRepository(FallbackPage, dataSource);
+      await pageRepo.save(
+        pageRepo.create({ seo: { titleTranslations: partial<Languages>({ en: 'Home', es: 'Inicio', fr: null }) } })
+      );
+    });
+
+    it('should tell the language of each loaded value', async () => {
+      const repo = getI18nRepository(FallbackShoe, dataSource);
+      repo.setLanguage('pt-BR');
+
+      const [shoe] = await repo.find();
+
+      expect(getResolvedLanguage(shoe, 'name')).toBe('pt');
+      expect(isFallback(shoe, 'name')).toBe(true);
+    });
+
+    it('should mark values of languages the column does not have as fallbacks', async () => {
+      const repo = getI18nRepository(FallbackShoe, dataSource);
+      repo.setLanguage('de');
+
+      const [shoe] = await repo.find();
+
+      expect(shoe.name).toBe('Shoes');
+      expect(getResolvedLanguage(shoe, 'name')).toBe('en');
+      expect(isFallback(shoe, 'name')).toBe(true);
+    });
+
+    it('should not mark values of the current language as fallbacks', async () => {
+      const repo = getI18nRepository(FallbackShoe, dataSource);
+      repo.setLanguage('es');
+
+      const [shoe] = await repo.find();
+
+      expect(getResolvedLanguage(shoe, 'name')).toBe('es');
+      expect(isFallback(shoe, 'name')).toBe(false);
+      expect(getResolvedLanguage(shoe, 'slogan')).toBe('es');
+      expect(isFallback(shoe, 'slogan')).toBe(false);
+    });
+
+    it('should tell the language of JSON-stored and embedded values', async () => {
+      const repo = getI18nRepository(FallbackShoe, dataSource);
+      const pageRepo = getI18nRepository(FallbackPage, dataSource);
+      repo.setLanguage('fr');
+      pageRepo.setLanguage('fr');
+
+      const [shoe] = await repo.find();
+      const [page] = await pageRepo.find();
+
+      expect(shoe.description).toBe('Zapatos de cuero');
+      expect(getResolvedLanguage(shoe, 'description')).toBe('es');
+      expect(page.seo.title).toBe('Home');
+      expect(getResolvedLanguage(page, 'seo.title')).toBe('en');
+      expect(isFallback(page, 'seo.title')).toBe(true);
+    });
+
+    it('should not expose the provenance as a property', async () => {
+      const repo = getI18nRepository(FallbackShoe, dataSource);
+      repo.setLanguage('fr');
+
+      const [shoe] = await repo.find();
+
+      expect(JSON.stringify(shoe)).not.toContain('fallback');
+      expect((shoe as I18nEntity)[I18N_RESOLVED_LANGUAGES_KEY]).toMatchObject({
+        name: { language: 'en', fallback: true },
+      });
+    });
+
+    it('should update the provenance when the language changes', async () => {
+      const repo = getI18nRepository(FallbackShoe, dataSource);
+      repo.setLanguage('es');
+      const [shoe] = await repo.find();
+
+      transformAfterLoad(shoe, 'fr');
+
+      expect(shoe.name).toBe('Shoes');
+      expect(getResolvedLanguage(shoe, 'name')).toBe('en');
+      expect(isFallback(shoe, 'name')).toBe(true);
+    });
+
+    it('should only report languages of the chain when the language changes', async () => {
+      const repo = getI18nRepository(FallbackShoe, dataSource);
+      repo.setLanguage('es');
+      const [shoe] = await repo.find();
+
+      transformAfterLoad(shoe, 'pt');
+
+      // The chains of description (fr only) leave out the default language
+      expect(shoe.description).toBeNull();
+      expect(getResolvedLanguage(shoe, 'description')).toBe('pt');
+      expect(isFallback(shoe, 'description')).toBe(false);
+    });
+
+    it('should be unknown for properties that were not loaded', () => {
+      const shoe = new FallbackShoe();
+
+      expect(getResolvedLanguage(shoe, 'name')).toBeUndefined();
+      expect(isFallback(shoe, 'name')).toBe(false);
+      expect(getResolvedLanguage(shoe, 'missing.name')).toBeUndefined();
+    });
+  });
+
+  describe('Configuration', () => {
+    it('should use the chains of the configuration and the entity', async () => {
+      setI18nConfig({
+        languages: ['en', 'es', 'fr'],
+        default_language: 'en',
+        fallbacks: { FR: ['es'], '*': ['en'] },
+      });
+
+      @Entity('fallback_configured')
+      @I18nEntity({ fallbacks: { fr: ['en'] } })
+      class FallbackConfigured {
+        @PrimaryGeneratedColumn()
+        id!: number;
+
+        @I18nColumn({ type: 'varchar', length: 100, nullable: true })
+        title!: string;
+
+        titleTranslations?: I18nValue<'en' | 'es' | 'fr', string>;
+
+        @I18nColumn({ languages: ['en', 'es', 'fr'], default_language: 'es', type: 'varchar', nullable: true })
+        subtitle!: string;
+
+        subtitleTranslations?: I18nValue<'en' | 'es' | 'fr', string>;
+      }
+
+      dataSource = await createE2EDataSource([FallbackConfigured]);
+      const repo = getI18nRepository(FallbackConfigured, dataSource);
+      await repo.save(
+        repo.create({
+          titleTranslations: partial<'en' | 'es' | 'fr'>({ en: 'Title', es: 'Título', fr: null }),
+          subtitleTranslations: partial<'en' | 'es' | 'fr'>({ en: 'Subtitle', es: 'Subtítulo', fr: null }),
+        })
+      );
+      repo.setLanguage('fr');
+
+      const [loaded] = await repo.find();
+
+      expect(loaded.title).toBe('Title');
+      expect(loaded.subtitle).toBe('Subtitle');
+    });
+
+    it('should reject chains with languages the column does not have', () => {
+      expect(() => {
+        class InvalidChain {
+          @I18nColumn({ languages: ['en', 'es'], default_language: 'en', type: 'text', fallbacks: { es: ['fr'] } })
+          body!: string;
+        }
+        return InvalidChain;
+      }).toThrow(
+        'fallbacks of I18nColumn on InvalidChain.body have language "fr" which is not included in the languages array'
+      );
+    });
+  });
+
+  describe('getTranslation', () => {
+    const name = partial<'en' | 'pt' | 'pt-BR' | 'es'>({ en: 'Shoes', pt: 'Sapatos', 'pt-BR': null, es: null });
+
+    it('should try a chain of languages', () => {
+      expect(getTranslation(name, 'pt-BR', ['es', 'pt', 'en'])).toBe('Sapatos');
+      expect(getTranslation(name, 'es', 'en')).toBe('Shoes');
+      expect(getTranslation(name, 'pt', ['en'])).toBe('Sapatos');
+    });
+
+    it('should take chains by language', () => {
+      expect(getTranslation(name, 'pt-BR', { 'pt-br': ['pt'], '*': ['en'] })).toBe('Sapatos');
+      expect(getTranslation(name, 'es', { 'pt-br': ['pt'], '*': ['en'] })).toBe('Shoes');
+    });
+
+    it('should use the chains of the global configuration', () => {
+      expect(getTranslation(name, 'es')).toBeUndefined();
+
+      setI18nConfig({ languages: ['en', 'pt', 'es'], default_language: 'en', fallbacks: { '*': ['en'] } });
+
+      expect(getTranslation(name, 'es')).toBe('Shoes');
+    });
+  });
+});
@@ -0,0 +1,17 @@
+import * as os from 'os';
+import * as path from 'path';
+import { DataSource } from 'typeorm';
+import { I18nSubscriber } from '../../src';
+import { CliProduct } from '../entities/CliProduct.entity';
+
+export const CLI_DATABASE = path.join(os.tmpdir(), 'typeorm-i18n-cli.db');
+
+/**
+ * DataSource loaded by the migration command line in tests
+ */
+export default new DataSource({
+  type: 'better-sqlite3',
+  database: CLI_DATABASE,
+  entities: [CliProduct],
+  subscribers: [I18nSubscriber],
+});
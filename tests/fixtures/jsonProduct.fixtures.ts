@@ -0,0 +1,29 @@
+import { JsonProduct, JsonProductLanguages } from '../entities/JsonProduct.entity';
+import { I18nValue } from '../../src';
+
+export const jsonProductFixtures: Partial<JsonProduct>[] = [
+  {
+    nameTranslations: {
+      en: 'Laptop',
+      es: 'Portátil',
+      fr: 'Ordinateur portable',
+    } as I18nValue<JsonProductLanguages, string>,
+    price: 999.99,
+  },
+  {
+    nameTranslations: {
+      en: 'Mouse',
+      es: 'Ratón',
+      fr: 'Souris',
+    } as I18nValue<JsonProductLanguages, string>,
+    price: 29.99,
+  },
+  {
+    nameTranslations: {
+      en: 'Keyboard',
+      es: 'Teclado',
+      fr: 'Clavier',
+    } as I18nValue<JsonProductLanguages, string>,
+    price: 149.99,
+  },
+];
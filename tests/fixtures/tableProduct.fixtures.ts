@@ -0,0 +1,44 @@
+import { TableProduct, TableProductLanguages } from '../entities/TableProduct.entity';
+import { I18nValue } from '../../src';
+
+export const tableProductFixtures: Partial<TableProduct>[] = [
+  {
+    nameTranslations: {
+      en: 'Laptop',
+      es: 'Portátil',
+      fr: 'Ordinateur portable',
+    } as I18nValue<TableProductLanguages, string>,
+    descriptionTranslations: {
+      en: 'Portable computer',
+      es: 'Ordenador portátil',
+      fr: 'Ordinateur mobile',
+    } as I18nValue<TableProductLanguages, string>,
+    price: 999.99,
+  },
+  {
+    nameTranslations: {
+      en: 'Mouse',
+      es: 'Ratón',
+      fr: 'Souris',
+    } as I18nValue<TableProductLanguages, string>,
+    descriptionTranslations: {
+      en: 'Pointing device',
+      es: 'Dispositivo apuntador',
+      fr: 'Dispositif de pointage',
+    } as I18nValue<TableProductLanguages, string>,
+    price: 29.99,
+  },
+  {
+    nameTranslations: {
+      en: 'Keyboard',
+      es: 'Teclado',
+      fr: 'Clavier',
+    } as I18nValue<TableProductLanguages, string>,
+    descriptionTranslations: {
+      en: 'Typing device',
+      es: 'Dispositivo de escritura',
+      fr: 'Dispositif de saisie',
+    } as I18nValue<TableProductLanguages, string>,
+    price: 149.99,
+  },
+];
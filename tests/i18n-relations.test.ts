@@ -0,0 +1,288 @@
+import { Column, DataSource, Entity, PrimaryGeneratedColumn, getMetadataArgsStorage } from 'typeorm';
+import {
+  I18N_LANGUAGE_KEY,
+  I18nColumn,
+  I18nEntity,
+  I18nRelation,
+  I18nValue,
+  getI18nRepository,
+  i18nMetadataStorage,
+  transformEntityWithRelations,
+} from '../src';
+import { createE2EDataSource, closeE2EDataSource } from './db-helper';
+
+type Languages = 'en' | 'es' | 'fr';
+
+const languages = { languages: ['en', 'es', 'fr'] as Languages[], default_language: 'en' as const };
+
+@Entity('i18n_relation_images')
+class Image {
+  @PrimaryGeneratedColumn()
+  id!: number;
+
+  @Column({ type: 'varchar', length: 255 })
+  url!: string;
+}
+
+@Entity('i18n_relation_documents')
+class LegalDocument {
+  @PrimaryGeneratedColumn()
+  id!: number;
+
+  @I18nColumn({ ...languages, type: 'varchar', length: 255, nullable: true })
+  title!: string;
+
+  titleTranslations?: I18nValue<Languages, string>;
+}
+
+@Entity('i18n_relation_products')
+class MarketProduct {
+  @PrimaryGeneratedColumn()
+  id!: number;
+
+  @I18nColumn({ ...languages, type: 'varchar', length: 255, nullable: true })
+  name!: string;
+
+  nameTranslations?: I18nValue<Languages, string>;
+
+  @I18nRelation(() => Image, { ...languages, joinColumn: 'hero_image_id', fallback: 'en' })
+  heroImage!: Image | null;
+
+  heroImageTranslations?: I18nValue<Languages, Image | null>;
+
+  @I18nRelation(() => LegalDocument, { ...languages, onDelete: 'SET NULL' })
+  terms!: LegalDocument | null;
+
+  termsTranslations?: I18nValue<Languages, LegalDocument | null>;
+}
+
+describe('@I18nRelation', () => {
+  let dataSource: DataSource;
+  let images: Record<Languages, Image>;
+  let documents: LegalDocument[];
+
+  beforeEach(async () => {
+    dataSource = await createE2EDataSource([Image, LegalDocument, MarketProduct]);
+
+    const imageRepo = dataSource.getRepository(Image);
+    images = {
+      en: await imageRepo.save(imageRepo.create({ url: 'hero-en.png' })),
+      es: await imageRepo.save(imageRepo.create({ url: 'hero-es.png' })),
+      fr: await imageRepo.save(imageRepo.create({ url: 'hero-fr.png' })),
+    };
+
+    const documentRepo = getI18nRepository(LegalDocument, dataSource);
+    documents = await documentRepo.save([
+      documentRepo.create({ titleTranslations: { en: 'US terms', es: 'Términos US', fr: 'Conditions US' } }),
+      documentRepo.create({ titleTranslations: { en: 'EU terms', es: 'Términos UE', fr: 'Conditions UE' } }),
+    ]);
+  });
+
+  afterEach(async () => {
+    if (dataSource && dataSource.isInitialized) {
+      await closeE2EDataSource(dataSource);
+    }
+  });
+
+  async function saveProduct(): Promise<MarketProduct> {
+    const repo = getI18nRepository(MarketProduct, dataSource);
+    return repo.save(
+      repo.create({
+        nameTranslations: { en: 'Chair', es: 'Silla', fr: 'Chaise' },
+        heroImageTranslations: { en: images.en, es: images.es, fr: null },
+        termsTranslations: { en: documents[0], es: documents[1], fr: documents[1] },
+      })
+    );
+  }
+
+  async function readRaw(id: number): Promise<Record<string, any> | undefined> {
+    return dataSource
+      .createQueryBuilder()
+      .select('*')
+      .from('i18n_relation_products', 'product')
+      .where('product.id = :id', { id })
+      .getRawOne();
+  }
+
+  describe('Schema', () => {
+    it('should create one foreign key per language', () => {
+      const metadata = dataSource.getMetadata(MarketProduct);
+      const foreignKeys = metadata.foreignKeys.map((foreignKey) => foreignKey.columnNames[0]).sort();
+
+      expect(foreignKeys).toEqual([
+        'hero_image_id',
+        'hero_image_id_es',
+        'hero_image_id_fr',
+        'termsEsId',
+        'termsFrId',
+        'termsId',
+      ]);
+      expect(metadata.relations.map((relation) => relation.propertyName)).toEqual(
+        expect.arrayContaining(['heroImage', 'heroImage_es', 'heroImage_fr'])
+      );
+      expect(i18nMetadataStorage.getPropertyMetadata(MarketProduct, 'heroImage')).toMatchObject({
+        relation: true,
+        options: { languages: ['en', 'es', 'fr'], default_language: 'en', fallback: 'en' },
+      });
+    });
+
+    it('should make the foreign keys of required languages not nullable', () => {
+      @Entity('i18n_relation_required')
+      class Required {
+        @PrimaryGeneratedColumn()
+        id!: number;
+
+        @I18nRelation(() => Image, { ...languages, required: ['en', 'es'] })
+        logo!: Image;
+      }
+
+      const nullable = (propertyName: string) =>
+        getMetadataArgsStorage().relations.find(
+          (relation) => relation.target === Required && relation.propertyName === propertyName
+        )?.options.nullable;
+
+      expect([nullable('logo'), nullable('logo_es'), nullable('logo_fr')]).toEqual([false, false, true]);
+    });
+
+    it('should take the languages of the entity', async () => {
+      @I18nEntity({ languages: ['en', 'de'], default_language: 'en' })
+      @Entity('i18n_relation_banners')
+      class Banner {
+        @PrimaryGeneratedColumn()
+        id!: number;
+
+        @I18nRelation(() => Image, { nullable: true })
+        image!: Image | null;
+      }
+
+      await closeE2EDataSource(dataSource);
+      dataSource = await createE2EDataSource([Image, Banner]);
+
+      expect(dataSource.getMetadata(Banner).relations.map((relation) => relation.propertyName)).toEqual([
+        'image',
+        'image_de',
+      ]);
+    });
+
+    it('should validate the language options', () => {
+      expect(() => {
+        @Entity('i18n_relation_invalid')
+        class Invalid {
+          @PrimaryGeneratedColumn()
+          id!: number;
+
+          @I18nRelation(() => Image, { ...languages, fallback: 'de' as Languages })
+          logo!: Image;
+        }
+        return Invalid;
+      }).toThrow('fallback language "de" of I18nRelation on Invalid.logo must be included in the languages array');
+    });
+  });
+
+  describe('Writing', () => {
+    it('should save the related entity of every language', async () => {
+      const product = await saveProduct();
+
+      expect(await readRaw(product.id)).toMatchObject({
+        hero_image_id: images.en.id,
+        hero_image_id_es: images.es.id,
+        hero_image_id_fr: null,
+        termsId: documents[0].id,
+        termsEsId: documents[1].id,
+      });
+    });
+
+    it('should save the related entity of the current language', async () => {
+      const repo = getI18nRepository(MarketProduct, dataSource);
+      const { id } = await saveProduct();
+      repo.setLanguage('fr');
+      const product = await repo.findOneOrFail({ where: { id }, relations: ['heroImage'] });
+
+      product.heroImageTranslations = { ...product.heroImageTranslations!, fr: images.fr };
+      await repo.save(product);
+
+      const created = Object.assign(new MarketProduct(), { heroImage: images.fr, [I18N_LANGUAGE_KEY]: 'fr' });
+      await dataSource.manager.save(created);
+
+      expect(await readRaw(id)).toMatchObject({ hero_image_id: images.en.id, hero_image_id_fr: images.fr.id });
+      expect((await readRaw(created.id))?.hero_image_id_fr).toBe(images.fr.id);
+    });
+  });
+
+  describe('Loading', () => {
+    it('should load the relations of all languages', async () => {
+      const repo = getI18nRepository(MarketProduct, dataSource);
+      const { id } = await saveProduct();
+      repo.setLanguage('es');
+
+      const product = await repo.findOneOrFail({ where: { id }, relations: ['heroImage', 'terms'] });
+
+      expect(product.heroImage?.url).toBe('hero-es.png');
+      expect(product.heroImageTranslations).toEqual({
+        en: expect.objectContaining({ url: 'hero-en.png' }),
+        es: expect.objectContaining({ url: 'hero-es.png' }),
+        fr: null,
+      });
+      expect(product.terms?.title).toBe('Términos UE');
+      expect((product as any).heroImage_es).toBeUndefined();
+    });
+
+    it('should load relations given as an object and use the fallback language', async () => {
+      const repo = getI18nRepository(MarketProduct, dataSource);
+      const { id } = await saveProduct();
+      repo.setLanguage('fr');
+
+      const [product] = await repo.find({ where: { id }, relations: { heroImage: true, terms: true } });
+
+      expect(product.heroImage?.url).toBe('hero-en.png');
+      expect(product.heroImageTranslations?.fr).toBeNull();
+      expect(product.terms?.id).toBe(documents[1].id);
+    });
+
+    it('should translate the related entities of every language', async () => {
+      const repo = getI18nRepository(MarketProduct, dataSource);
+      const { id } = await saveProduct();
+      repo.setLanguage('fr');
+
+      const product = await repo.findOneOrFail({ where: { id }, relations: ['terms'] });
+
+      expect(product.terms?.title).toBe('Conditions UE');
+      expect(product.termsTranslations?.en?.title).toBe('Conditions US');
+      expect(product.termsTranslations?.es?.title).toBe('Conditions UE');
+    });
+
+    it('should leave relations that were not loaded alone', async () => {
+      const repo = getI18nRepository(MarketProduct, dataSource);
+      const { id } = await saveProduct();
+      repo.setLanguage('es');
+
+      const product = await repo.findOneOrFail({ where: { id } });
+
+      expect(product.name).toBe('Silla');
+      expect(product.heroImage).toBeUndefined();
+      expect(product.heroImageTranslations).toBeUndefined();
+    });
+
+    it('should query the relation of the current language', async () => {
+      const repo = getI18nRepository(MarketProduct, dataSource);
+      await saveProduct();
+      repo.setLanguage('es');
+
+      const products = await repo.find({ where: { heroImage: { id: images.es.id } } });
+      const none = await repo.find({ where: { heroImage: { id: images.en.id } } });
+
+      expect(products).toHaveLength(1);
+      expect(none).toHaveLength(0);
+    });
+
+    it('should switch the language of loaded relations', async () => {
+      const repo = getI18nRepository(MarketProduct, dataSource);
+      const { id } = await saveProduct();
+      const product = await repo.findOneOrFail({ where: { id }, relations: ['heroImage'] });
+
+      transformEntityWithRelations(product, 'es');
+
+      expect(product.heroImage?.url).toBe('hero-es.png');
+    });
+  });
+});
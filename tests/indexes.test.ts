@@ -0,0 +1,147 @@
+import { DataSource, Entity, PrimaryGeneratedColumn, Column } from 'typeorm';
+import { I18nColumn, I18nValue, getI18nRepository, getI18nTranslationEntity } from '../src';
+import { createE2EDataSource, closeE2EDataSource } from './db-helper';
+
+type Languages = 'en' | 'es';
+
+@Entity('indexed_products')
+class IndexedProduct {
+  @PrimaryGeneratedColumn()
+  id!: number;
+
+  @Column({ type: 'int', name: 'tenant_id' })
+  tenantId!: number;
+
+  @I18nColumn({
+    languages: ['en', 'es'],
+    default_language: 'en',
+    type: 'varchar',
+    length: 100,
+    unique: { columns: ['tenantId'] },
+  })
+  slug!: string;
+
+  slugTranslations?: I18nValue<Languages, string>;
+
+  @I18nColumn({
+    languages: ['en', 'es'],
+    default_language: 'en',
+    type: 'varchar',
+    length: 255,
+    nullable: true,
+    index: { name: 'idx_indexed_products_name_{language}' },
+  })
+  name!: string;
+
+  nameTranslations?: I18nValue<Languages, string>;
+}
+
+@Entity('indexed_table_products')
+class IndexedTableProduct {
+  @PrimaryGeneratedColumn()
+  id!: number;
+
+  @I18nColumn({
+    languages: ['en', 'es'],
+    default_language: 'en',
+    storage: 'table',
+    type: 'varchar',
+    length: 100,
+    unique: true,
+  })
+  slug!: string;
+
+  slugTranslations?: I18nValue<Languages, string>;
+}
+
+describe('Per-Language Indexes', () => {
+  let dataSource: DataSource;
+
+  beforeEach(async () => {
+    dataSource = await createE2EDataSource([
+      IndexedProduct,
+      IndexedTableProduct,
+      getI18nTranslationEntity(IndexedTableProduct),
+    ]);
+  });
+
+  afterEach(async () => {
+    if (dataSource && dataSource.isInitialized) {
+      await closeE2EDataSource(dataSource);
+    }
+  });
+
+  function getIndices(entity: Function) {
+    return dataSource.getMetadata(entity).indices.map((index) => ({
+      name: index.name,
+      columns: index.columns.map((column) => column.databaseName),
+      unique: index.isUnique,
+    }));
+  }
+
+  describe('Schema', () => {
+    it('should create one index per language column with predictable names', () => {
+      const indices = getIndices(IndexedProduct);
+
+      expect(indices).toEqual(
+        expect.arrayContaining([
+          { name: 'UQ_IndexedProduct_tenantId_slug_en', columns: ['tenant_id', 'slug'], unique: true },
+          { name: 'UQ_IndexedProduct_tenantId_slug_es', columns: ['tenant_id', 'slug_es'], unique: true },
+          { name: 'idx_indexed_products_name_en', columns: ['name'], unique: false },
+          { name: 'idx_indexed_products_name_es', columns: ['name_es'], unique: false },
+        ])
+      );
+    });
+
+    it('should not clone unique onto the language columns', () => {
+      const metadata = dataSource.getMetadata(IndexedProduct);
+
+      expect(metadata.uniques).toHaveLength(0);
+      expect(metadata.indices.filter((index) => index.isUnique)).toHaveLength(2);
+    });
+
+    it('should index the translation table by locale for table storage', () => {
+      expect(getIndices(getI18nTranslationEntity(IndexedTableProduct))).toEqual(
+        expect.arrayContaining([
+          { name: 'UQ_IndexedTableProductTranslation_slug', columns: ['locale', 'slug'], unique: true },
+        ])
+      );
+    });
+
+    it('should reject indexes with JSON storage', () => {
+      expect(() => {
+        class InvalidJsonEntity {
+          @I18nColumn({ languages: ['en'], default_language: 'en', storage: 'json', type: 'json', index: true })
+          name!: string;
+        }
+        return InvalidJsonEntity;
+      }).toThrow('does not support the index and unique options');
+    });
+  });
+
+  describe('Constraints', () => {
+    it('should enforce uniqueness per language and tenant', async () => {
+      const repo = getI18nRepository(IndexedProduct, dataSource);
+      await repo.save(
+        repo.create({ tenantId: 1, slugTranslations: { en: 'chair', es: 'silla' }, nameTranslations: { en: 'Chair' } })
+      );
+
+      // Same slug in another language or tenant is allowed
+      await repo.save(repo.create({ tenantId: 1, slugTranslations: { en: 'silla', es: 'chair' } }));
+      await repo.save(repo.create({ tenantId: 2, slugTranslations: { en: 'chair', es: 'silla' } }));
+
+      await expect(
+        repo.save(repo.create({ tenantId: 1, slugTranslations: { en: 'table', es: 'silla' } }))
+      ).rejects.toThrow();
+      expect(await repo.count()).toBe(3);
+    });
+
+    it('should enforce uniqueness per locale in the translation table', async () => {
+      const repo = getI18nRepository(IndexedTableProduct, dataSource);
+      await repo.save(repo.create({ slugTranslations: { en: 'chair', es: 'silla' } }));
+      await repo.save(repo.create({ slugTranslations: { en: 'silla', es: 'chair' } }));
+
+      await expect(repo.save(repo.create({ slugTranslations: { en: 'table', es: 'silla' } }))).rejects.toThrow();
+    });
+  });
+});
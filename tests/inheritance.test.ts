@@ -0,0 +1,268 @@
+import {
+  ChildEntity,
+  Column,
+  DataSource,
+  Entity,
+  PrimaryGeneratedColumn,
+  TableInheritance,
+} from 'typeorm';
+import { I18nColumn, I18nValue, getI18nRepository, getI18nTranslationEntity, i18nMetadataStorage } from '../src';
+import { createE2EDataSource, closeE2EDataSource } from './db-helper';
+
+type Languages = 'en' | 'es' | 'fr';
+
+const i18nOptions = {
+  languages: ['en', 'es', 'fr'] as Languages[],
+  default_language: 'en' as Languages,
+  type: 'varchar' as const,
+  length: 255,
+  nullable: true,
+};
+
+// Concrete table inheritance: each entity has its own table with the inherited columns
+abstract class BaseContent {
+  @PrimaryGeneratedColumn()
+  id!: number;
+
+  @I18nColumn(i18nOptions)
+  title!: string;
+
+  titleTranslations?: I18nValue<Languages, string>;
+}
+
+@Entity('inheritance_news')
+class NewsItem extends BaseContent {
+  @I18nColumn(i18nOptions)
+  summary!: string;
+
+  summaryTranslations?: I18nValue<Languages, string>;
+}
+
+@Entity('inheritance_events')
+class EventItem extends BaseContent {
+  @Column({ type: 'varchar', length: 50 })
+  venue!: string;
+}
+
+// Single table inheritance: all entities share the parent's table
+@Entity('inheritance_media')
+@TableInheritance({ column: { type: 'varchar', name: 'kind' } })
+class Media {
+  @PrimaryGeneratedColumn()
+  id!: number;
+
+  @I18nColumn(i18nOptions)
+  caption!: string;
+
+  captionTranslations?: I18nValue<Languages, string>;
+}
+
+@ChildEntity('photo')
+class Photo extends Media {
+  @Column({ type: 'int', nullable: true })
+  width!: number;
+}
+
+@ChildEntity('video')
+class Video extends Media {
+  @I18nColumn({ ...i18nOptions, storage: 'json', type: 'simple-json' })
+  transcript!: string;
+
+  transcriptTranslations?: I18nValue<Languages, string>;
+}
+
+@Entity('inheritance_sheets')
+@TableInheritance({ column: { type: 'varchar', name: 'kind' } })
+class Sheet {
+  @PrimaryGeneratedColumn()
+  id!: number;
+
+  @I18nColumn({ ...i18nOptions, storage: 'table', translationTable: 'inheritance_sheet_translations' })
+  label!: string;
+
+  labelTranslations?: I18nValue<Languages, string>;
+}
+
+@ChildEntity('form')
+class Form extends Sheet {}
+
+describe('Entity Inheritance', () => {
+  let dataSource: DataSource;
+
+  beforeEach(async () => {
+    dataSource = await createE2EDataSource([
+      NewsItem,
+      EventItem,
+      Media,
+      Photo,
+      Video,
+      Sheet,
+      Form,
+      getI18nTranslationEntity(Sheet),
+    ]);
+  });
+
+  afterEach(async () => {
+    if (dataSource && dataSource.isInitialized) {
+      await closeE2EDataSource(dataSource);
+    }
+  });
+
+  describe('Metadata', () => {
+    it('should resolve metadata along the prototype chain', () => {
+      expect(i18nMetadataStorage.getMetadata(NewsItem).map((m) => m.propertyName)).toEqual(['title', 'summary']);
+      expect(i18nMetadataStorage.getMetadata(EventItem).map((m) => m.propertyName)).toEqual(['title']);
+      expect(i18nMetadataStorage.getMetadata(Photo).map((m) => m.propertyName)).toEqual(['caption']);
+      expect(i18nMetadataStorage.isI18nColumn(Video, 'caption')).toBe(true);
+    });
+
+    it('should not add subclass columns to the parent', () => {
+      expect(i18nMetadataStorage.getMetadata(BaseContent).map((m) => m.propertyName)).toEqual(['title']);
+      expect(i18nMetadataStorage.getMetadata(Media).map((m) => m.propertyName)).toEqual(['caption']);
+    });
+  });
+
+  describe('Concrete table inheritance', () => {
+    it('should create inherited language columns in each table', () => {
+      const newsColumns = dataSource.getMetadata(NewsItem).columns.map((column) => column.databaseName);
+      const eventColumns = dataSource.getMetadata(EventItem).columns.map((column) => column.databaseName);
+
+      expect(newsColumns).toEqual(expect.arrayContaining(['title', 'title_es', 'title_fr', 'summary_es']));
+      expect(eventColumns).toEqual(expect.arrayContaining(['title', 'title_es', 'title_fr']));
+    });
+
+    it('should save, load and query inherited translations', async () => {
+      const repo = getI18nRepository(NewsItem, dataSource);
+      await repo.save(
+        repo.create({
+          titleTranslations: { en: 'Launch', es: 'Lanzamiento', fr: 'Lancement' },
+          summaryTranslations: { en: 'We launched', es: 'Lanzamos', fr: 'Nous avons lancé' },
+        })
+      );
+      repo.setLanguage('es');
+
+      const news = await repo.findOneByOrFail({ title: 'Lanzamiento' });
+
+      expect(news).toBeInstanceOf(NewsItem);
+      expect(news.title).toBe('Lanzamiento');
+      expect(news.summary).toBe('Lanzamos');
+      expect(news.titleTranslations).toEqual({ en: 'Launch', es: 'Lanzamiento', fr: 'Lancement' });
+      expect((news as any).title_es).toBeUndefined();
+    });
+
+    it('should update inherited translations', async () => {
+      const repo = getI18nRepository(EventItem, dataSource);
+      const saved = await repo.save(
+        repo.create({ venue: 'Berlin', titleTranslations: { en: 'Meetup', es: 'Encuentro', fr: 'Rencontre' } })
+      );
+
+      saved.titleTranslations = { en: 'Meetup', es: 'Reunión', fr: 'Rencontre' };
+      await dataSource.manager.save(saved);
+
+      const loaded = await repo.findOneByOrFail({ id: saved.id });
+      expect(loaded.titleTranslations?.es).toBe('Reunión');
+    });
+
+    it('should order by inherited columns in the current language', async () => {
+      const repo = getI18nRepository(EventItem, dataSource);
+      await repo.save([
+        repo.create({ venue: 'Madrid', titleTranslations: { en: 'A', es: 'Zeta', fr: 'B' } }),
+        repo.create({ venue: 'Paris', titleTranslations: { en: 'Z', es: 'Alfa', fr: 'Y' } }),
+      ]);
+      repo.setLanguage('es');
+
+      const events = await repo.find({ order: { title: 'ASC' } });
+      const builderEvents = await repo.createQueryBuilder('event').orderBy('event.title', 'DESC').getMany();
+
+      expect(events.map((event) => event.venue)).toEqual(['Paris', 'Madrid']);
+      expect(builderEvents.map((event) => event.venue)).toEqual(['Madrid', 'Paris']);
+    });
+  });
+
+  describe('Single table inheritance', () => {
+    async function seedMedia() {
+      const photoRepo = getI18nRepository(Photo, dataSource);
+      const videoRepo = getI18nRepository(Video, dataSource);
+
+      const photo = await photoRepo.save(
+        photoRepo.create({ width: 800, captionTranslations: { en: 'Beach', es: 'Playa', fr: 'Plage' } })
+      );
+      const video = await videoRepo.save(
+        videoRepo.create({
+          captionTranslations: { en: 'Forest', es: 'Bosque', fr: 'Forêt' },
+          transcriptTranslations: { en: 'Birds', es: 'Pájaros', fr: 'Oiseaux' },
+        })
+      );
+      return { photo, video };
+    }
+
+    it('should store child translations in the parent table', () => {
+      const columns = dataSource.getMetadata(Media).columns.map((column) => column.databaseName);
+
+      expect(columns).toEqual(expect.arrayContaining(['caption', 'caption_es', 'caption_fr', 'transcript']));
+    });
+
+    it('should load parent translations on child entities', async () => {
+      const { photo } = await seedMedia();
+      const repo = getI18nRepository(Photo, dataSource);
+      repo.setLanguage('fr');
+
+      const loaded = await repo.findOneByOrFail({ id: photo.id });
+
+      expect(loaded.caption).toBe('Plage');
+      expect(loaded.captionTranslations).toEqual({ en: 'Beach', es: 'Playa', fr: 'Plage' });
+    });
+
+    it('should load each child with its own translations through the parent repository', async () => {
+      await seedMedia();
+      const repo = getI18nRepository(Media, dataSource);
+      repo.setLanguage('es');
+
+      const media = await repo.find({ order: { id: 'ASC' } });
+
+      expect(media[0]).toBeInstanceOf(Photo);
+      expect(media[0].caption).toBe('Playa');
+      expect(media[1]).toBeInstanceOf(Video);
+      expect(media[1].caption).toBe('Bosque');
+      expect((media[1] as Video).transcript).toBe('Pájaros');
+    });
+
+    it('should query parent and child columns from a child repository', async () => {
+      await seedMedia();
+      const repo = getI18nRepository(Video, dataSource);
+      repo.setLanguage('fr');
+
+      expect(await repo.countBy({ caption: 'Forêt' })).toBe(1);
+      expect(await repo.countBy({ caption: 'Plage' })).toBe(0);
+      expect(await repo.countBy({ transcript: 'Oiseaux' })).toBe(1);
+    });
+
+    it('should update parent translations of a child entity', async () => {
+      const { photo } = await seedMedia();
+      const repo = getI18nRepository(Photo, dataSource);
+
+      const loaded = await repo.findOneByOrFail({ id: photo.id });
+      loaded.captionTranslations = { en: 'Beach', es: 'Costa', fr: 'Plage' };
+      await repo.save(loaded);
+
+      const reloaded = await repo.findOneByOrFail({ id: photo.id });
+      expect(reloaded.captionTranslations?.es).toBe('Costa');
+    });
+  });
+
+  it('should use the translation table of the parent for child entities', async () => {
+    expect(getI18nTranslationEntity(Form)).toBe(getI18nTranslationEntity(Sheet));
+
+    const repo = getI18nRepository(Form, dataSource);
+    const saved = await repo.save(
+      repo.create({ labelTranslations: { en: 'Signup', es: 'Registro', fr: 'Inscription' } })
+    );
+    repo.setLanguage('es');
+
+    const loaded = await repo.findOneByOrFail({ label: 'Registro' });
+
+    expect(loaded.id).toBe(saved.id);
+    expect(loaded.label).toBe('Registro');
+    expect(loaded.labelTranslations).toEqual({ es: 'Registro' });
+  });
+});
@@ -0,0 +1,233 @@
+import { DataSource, Entity, ILike, In, PrimaryGeneratedColumn } from 'typeorm';
+import { getI18nRepository, i18nMetadataStorage, I18nColumn, I18nValue } from '../src';
+import { createE2EDataSource, closeE2EDataSource, seedDatabase } from './db-helper';
+import { JsonProduct } from './entities/JsonProduct.entity';
+import { jsonProductFixtures } from './fixtures/jsonProduct.fixtures';
+
+@Entity('json_text_notes')
+class JsonTextNote {
+  @PrimaryGeneratedColumn()
+  id!: number;
+
+  @I18nColumn({ languages: ['en', 'es'], default_language: 'en', storage: 'json', type: 'text', nullable: true })
+  body!: string;
+
+  bodyTranslations?: I18nValue<'en' | 'es', string>;
+}
+
+describe('JSON Storage Strategy', () => {
+  let dataSource: DataSource;
+
+  beforeEach(async () => {
+    dataSource = await createE2EDataSource([JsonProduct]);
+    await seedDatabase(dataSource, JsonProduct, jsonProductFixtures);
+  });
+
+  afterEach(async () => {
+    if (dataSource && dataSource.isInitialized) {
+      await closeE2EDataSource(dataSource);
+    }
+  });
+
+  describe('Schema', () => {
+    it('should create a single column for all languages', () => {
+      const columnNames = dataSource
+        .getRepository(JsonProduct)
+        .metadata.columns.map((col) => col.databaseName);
+
+      expect(columnNames).toContain('name');
+      expect(columnNames).not.toContain('name_es');
+      expect(columnNames).not.toContain('name_fr');
+    });
+
+    it('should store the storage strategy in metadata', () => {
+      const meta = i18nMetadataStorage.getPropertyMetadata(JsonProduct, 'name');
+      expect(meta?.options.storage).toBe('json');
+    });
+
+    it('should reject non-JSON column types', () => {
+      expect(() => {
+        class InvalidJsonEntity {
+          @I18nColumn({ languages: ['en'], default_language: 'en', storage: 'json', type: 'varchar' })
+          name!: string;
+        }
+        return InvalidJsonEntity;
+      }).toThrow('requires a JSON column type');
+    });
+  });
+
+  describe('Loading', () => {
+    it('should populate translations from the JSON column', async () => {
+      const repo = getI18nRepository(JsonProduct, dataSource);
+
+      const product = await repo.findOne({ where: { price: 999.99 } });
+
+      expect(product?.nameTranslations).toEqual({
+        en: 'Laptop',
+        es: 'Portátil',
+        fr: 'Ordinateur portable',
+      });
+      expect(product?.name).toBe('Laptop');
+    });
+
+    it('should set the single-value property to the current language', async () => {
+      const repo = getI18nRepository(JsonProduct, dataSource);
+      repo.setLanguage('fr');
+
+      const products = await repo.find();
+
+      expect(products.map((p) => p.name).sort()).toEqual(['Clavier', 'Ordinateur portable', 'Souris']);
+    });
+  });
+
+  describe('Where clauses', () => {
+    it('should match the default language without a language set', async () => {
+      const repo = getI18nRepository(JsonProduct, dataSource);
+
+      const products = await repo.find({ where: { name: 'Mouse' } as any });
+
+      expect(products).toHaveLength(1);
+      expect(products[0].nameTranslations?.es).toBe('Ratón');
+    });
+
+    it('should match the current language', async () => {
+      const repo = getI18nRepository(JsonProduct, dataSource);
+      repo.setLanguage('es');
+
+      const product = await repo.findOneBy({ name: 'Teclado' } as any);
+
+      expect(product?.nameTranslations?.en).toBe('Keyboard');
+      expect(product?.name).toBe('Teclado');
+    });
+
+    it('should support find operators', async () => {
+      const repo = getI18nRepository(JsonProduct, dataSource);
+      repo.setLanguage('es');
+
+      const liked = await repo.find({ where: { name: ILike('%TECLA%') } as any });
+      const inList = await repo.count({ where: { name: In(['Ratón', 'Portátil']) } as any });
+
+      expect(liked).toHaveLength(1);
+      expect(liked[0].name).toBe('Teclado');
+      expect(inList).toBe(2);
+    });
+
+    it('should translate where objects in the QueryBuilder', async () => {
+      const repo = getI18nRepository(JsonProduct, dataSource);
+      repo.setLanguage('fr');
+
+      const products = await repo
+        .createQueryBuilder('product')
+        .where({ name: 'Souris' })
+        .getMany();
+
+      expect(products).toHaveLength(1);
+      expect(products[0].name).toBe('Souris');
+    });
+  });
+
+  describe('Ordering', () => {
+    it('should order find results by the current language', async () => {
+      const repo = getI18nRepository(JsonProduct, dataSource);
+      repo.setLanguage('es');
+
+      const products = await repo.find({ order: { name: 'ASC' } as any });
+
+      expect(products.map((p) => p.name)).toEqual(['Portátil', 'Ratón', 'Teclado']);
+    });
+
+    it('should order and paginate with findAndCount', async () => {
+      const repo = getI18nRepository(JsonProduct, dataSource);
+      repo.setLanguage('fr');
+
+      const [products, count] = await repo.findAndCount({
+        order: { name: 'DESC' } as any,
+        take: 2,
+      });
+
+      expect(count).toBe(3);
+      expect(products.map((p) => p.name)).toEqual(['Souris', 'Ordinateur portable']);
+    });
+
+    it('should order QueryBuilder results by the current language', async () => {
+      const repo = getI18nRepository(JsonProduct, dataSource);
+      repo.setLanguage('fr');
+
+      const products = await repo
+        .createQueryBuilder('product')
+        .orderBy('product.name', 'ASC')
+        .getMany();
+
+      expect(products.map((p) => p.name)).toEqual(['Clavier', 'Ordinateur portable', 'Souris']);
+    });
+  });
+
+  describe('Saving', () => {
+    it('should update translations through the repository', async () => {
+      const repo = getI18nRepository(JsonProduct, dataSource);
+      repo.setLanguage('es');
+
+      const product = await repo.findOneByOrFail({ name: 'Ratón' } as any);
+      product.nameTranslations = { en: 'Wireless Mouse', es: 'Ratón inalámbrico', fr: 'Souris sans fil' };
+      const saved = await repo.save(product);
+
+      expect(saved.name).toBe('Ratón inalámbrico');
+
+      const reloaded = await repo.findOneByOrFail({ id: product.id });
+      expect(reloaded.nameTranslations).toEqual({
+        en: 'Wireless Mouse',
+        es: 'Ratón inalámbrico',
+        fr: 'Souris sans fil',
+      });
+    });
+
+    it('should create entities with translations', async () => {
+      const repo = getI18nRepository(JsonProduct, dataSource);
+
+      const product = repo.create({
+        nameTranslations: { en: 'Monitor', es: 'Monitor', fr: 'Écran' },
+        price: 199,
+      });
+      await repo.save(product);
+
+      repo.setLanguage('fr');
+      const loaded = await repo.findOneBy({ name: 'Écran' } as any);
+      expect(loaded?.name).toBe('Écran');
+      expect(loaded?.nameTranslations?.en).toBe('Monitor');
+    });
+  });
+});
+
+describe('JSON Storage in text columns', () => {
+  let textDataSource: DataSource;
+
+  beforeEach(async () => {
+    textDataSource = await createE2EDataSource([JsonTextNote]);
+  });
+
+  afterEach(async () => {
+    await closeE2EDataSource(textDataSource);
+  });
+
+  it('should keep the translations serialized in a text column', async () => {
+    const repo = getI18nRepository(JsonTextNote, textDataSource);
+    await repo.save(repo.create({ bodyTranslations: { en: 'Hello', es: 'Hola' } }));
+
+    const [row] = await textDataSource.query('SELECT body FROM json_text_notes');
+    const column = textDataSource.getMetadata(JsonTextNote).findColumnWithPropertyName('body');
+
+    expect(JSON.parse(row.body)).toEqual({ en: 'Hello', es: 'Hola' });
+    expect(textDataSource.driver.normalizeType(column!)).toBe('text');
+  });
+
+  it('should load and query the translations of a text column', async () => {
+    const repo = getI18nRepository(JsonTextNote, textDataSource);
+    await repo.save(repo.create({ bodyTranslations: { en: 'Hello', es: 'Hola' } }));
+    repo.setLanguage('es');
+
+    const note = await repo.findOneBy({ body: 'Hola' } as any);
+
+    expect(note?.body).toBe('Hola');
+    expect(note?.bodyTranslations).toEqual({ en: 'Hello', es: 'Hola' });
+  });
+});
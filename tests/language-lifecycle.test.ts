@@ -0,0 +1,274 @@
+import { DataSource, Entity, PrimaryGeneratedColumn } from 'typeorm';
+import {
+  I18N_LANGUAGE_KEY,
+  I18nColumn,
+  I18nLanguageStatusError,
+  I18nValue,
+  getI18nRepository,
+  getI18nTranslationEntity,
+  i18nMetadataStorage,
+  isFallback,
+  prepareI18nUpdate,
+  resetI18nConfig,
+  setI18nConfig,
+  transformBeforeSave,
+} from '../src';
+import { resetI18nColumnsFinalization } from '../src/decorator';
+import { createE2EDataSource, closeE2EDataSource } from './db-helper';
+
+type Languages = 'en' | 'de' | 'it' | 'fr';
+
+const lifecycle = {
+  languages: ['en', 'de', 'it', 'fr'] as Languages[],
+  default_language: 'en' as const,
+  deprecated: ['de'] as Languages[],
+  archived: ['it'] as Languages[],
+};
+
+@Entity('lifecycle_products')
+class LifecycleProduct {
+  @PrimaryGeneratedColumn()
+  id!: number;
+
+  @I18nColumn({ ...lifecycle, type: 'varchar', length: 255, nullable: true })
+  name!: string;
+
+  nameTranslations?: I18nValue<Languages, string>;
+
+  @I18nColumn({ ...lifecycle, storage: 'json', type: 'simple-json', nullable: true })
+  description!: string;
+
+  descriptionTranslations?: I18nValue<Languages, string>;
+
+  @I18nColumn({ ...lifecycle, storage: 'table', type: 'varchar', length: 255 })
+  slogan!: string;
+
+  sloganTranslations?: I18nValue<Languages, string>;
+}
+
+describe('Language Lifecycle', () => {
+  let dataSource: DataSource;
+  let productId: number;
+
+  beforeEach(async () => {
+    dataSource = await createE2EDataSource([LifecycleProduct, getI18nTranslationEntity(LifecycleProduct)]);
+
+    // Translations of retired languages were written before the languages were retired
+    const result = await dataSource
+      .createQueryBuilder()
+      .insert()
+      .into(LifecycleProduct)
+      .values({
+        name: 'Chair',
+        name_de: 'Stuhl',
+        name_it: 'Sedia',
+        name_fr: 'Chaise',
+        description: { en: 'Wooden', de: 'Aus Holz', it: 'Di legno' },
+      } as any)
+      .callListeners(false)
+      .execute();
+    productId = result.identifiers[0].id;
+
+    await dataSource
+      .createQueryBuilder()
+      .insert()
+      .into(getI18nTranslationEntity(LifecycleProduct))
+      .values([
+        { entityId: productId, locale: 'en', slogan: 'Sit down' },
+        { entityId: productId, locale: 'de', slogan: 'Setz dich' },
+        { entityId: productId, locale: 'it', slogan: 'Siediti' },
+      ])
+      .execute();
+  });
+
+  afterEach(async () => {
+    resetI18nConfig();
+    resetI18nColumnsFinalization();
+
+    if (dataSource && dataSource.isInitialized) {
+      await closeE2EDataSource(dataSource);
+    }
+  });
+
+  async function readRaw(): Promise<Record<string, any> | undefined> {
+    return dataSource
+      .createQueryBuilder()
+      .select('*')
+      .from('lifecycle_products', 'product')
+      .where('product.id = :id', { id: productId })
+      .getRawOne();
+  }
+
+  describe('Loading', () => {
+    it('should load deprecated languages but not archived ones', async () => {
+      const repo = getI18nRepository(LifecycleProduct, dataSource);
+
+      const product = await repo.findOneByOrFail({ id: productId });
+
+      expect(product.nameTranslations).toEqual({ en: 'Chair', de: 'Stuhl', fr: 'Chaise' });
+      expect(product.descriptionTranslations).toEqual({ en: 'Wooden', de: 'Aus Holz', fr: null });
+      expect(product.sloganTranslations).toEqual({ en: 'Sit down', de: 'Setz dich' });
+      expect((product as any).name_it).toBeUndefined();
+    });
+
+    it('should load and query the default language for archived languages', async () => {
+      const repo = getI18nRepository(LifecycleProduct, dataSource);
+
+      repo.setLanguage('de');
+      const [german] = await repo.find({ where: { name: 'Stuhl' } });
+      repo.setLanguage('it');
+      const [italian] = await repo.find({ where: { name: 'Chair' } });
+
+      expect(german.name).toBe('Stuhl');
+      expect(italian.name).toBe('Chair');
+      expect(italian.description).toBe('Wooden');
+      expect(italian.slogan).toBe('Sit down');
+      expect(isFallback(italian, 'name')).toBe(true);
+      expect(isFallback(german, 'name')).toBe(false);
+      expect(repo.getLanguageColumn('name')).toBe('name');
+    });
+  });
+
+  describe('Writing', () => {
+    it('should keep retired translations when saving a loaded entity', async () => {
+      const repo = getI18nRepository(LifecycleProduct, dataSource);
+      const product = await repo.findOneByOrFail({ id: productId });
+
+      product.nameTranslations = { ...product.nameTranslations!, fr: 'Chaise en bois' };
+      product.descriptionTranslations = { ...product.descriptionTranslations!, fr: 'En bois' };
+      product.sloganTranslations = { ...product.sloganTranslations!, en: 'Take a seat' };
+      await repo.save(product);
+
+      const raw = await readRaw();
+      expect(raw).toMatchObject({ name: 'Chair', name_de: 'Stuhl', name_it: 'Sedia', name_fr: 'Chaise en bois' });
+      expect(JSON.parse(raw?.description)).toEqual({ en: 'Wooden', de: 'Aus Holz', it: 'Di legno', fr: 'En bois' });
+
+      const reloaded = await repo.findOneByOrFail({ id: productId });
+      expect(reloaded.sloganTranslations).toEqual({ en: 'Take a seat', de: 'Setz dich' });
+    });
+
+    it('should reject changed translations of deprecated languages', async () => {
+      const repo = getI18nRepository(LifecycleProduct, dataSource);
+      const product = await repo.findOneByOrFail({ id: productId });
+
+      product.nameTranslations = { ...product.nameTranslations!, de: 'Sessel' };
+
+      await expect(repo.save(product)).rejects.toThrow(I18nLanguageStatusError);
+      await expect(repo.save(product)).rejects.toThrow(
+        'Cannot write the deprecated language "de" of LifecycleProduct.name'
+      );
+      expect((await readRaw())?.name_de).toBe('Stuhl');
+    });
+
+    it('should reject new translations of retired languages', () => {
+      const repo = getI18nRepository(LifecycleProduct, dataSource);
+
+      expect(() => repo.create({ nameTranslations: { en: 'Table', de: 'Tisch' } })).toThrow(I18nLanguageStatusError);
+      const product = Object.assign(new LifecycleProduct(), {
+        descriptionTranslations: { en: 'Round', it: 'Tondo' },
+      });
+      expect(() => prepareI18nUpdate(product)).toThrow('Cannot write the archived language "it" of LifecycleProduct.description');
+    });
+
+    it('should reject single values in retired languages', () => {
+      const german = Object.assign(new LifecycleProduct(), { name: 'Tisch', [I18N_LANGUAGE_KEY]: 'de-AT' });
+      const italian = Object.assign(new LifecycleProduct(), { name: 'Tavolo', [I18N_LANGUAGE_KEY]: 'it' });
+      const french = Object.assign(new LifecycleProduct(), { name: 'Table', [I18N_LANGUAGE_KEY]: 'fr' });
+
+      expect(() => transformBeforeSave(german)).toThrow('Cannot write the deprecated language "de"');
+      expect(() => transformBeforeSave(italian)).toThrow('Cannot write the archived language "it"');
+      expect(transformBeforeSave(french)).toMatchObject({ name_fr: 'Table' });
+    });
+
+    it('should reject retired languages saved through the EntityManager', async () => {
+      const repo = getI18nRepository(LifecycleProduct, dataSource);
+      const product = await repo.findOneByOrFail({ id: productId });
+
+      product.name = 'Armchair';
+      product.nameTranslations = { ...product.nameTranslations!, en: 'Armchair', de: 'Sessel' };
+      await expect(dataSource.manager.save(product)).rejects.toThrow(I18nLanguageStatusError);
+
+      const created = Object.assign(new LifecycleProduct(), {
+        sloganTranslations: { en: 'Relax', de: 'Entspann dich' },
+      });
+      await expect(dataSource.manager.save(created)).rejects.toThrow(I18nLanguageStatusError);
+    });
+  });
+
+  describe('Configuration', () => {
+    it('should take retired languages from the global configuration', () => {
+      setI18nConfig({
+        languages: ['en', 'de', 'nl'],
+        default_language: 'en',
+        deprecated: ['DE', 'fr'],
+        archived: ['nl'],
+      });
+
+      @Entity('lifecycle_categories')
+      class LifecycleCategory {
+        @PrimaryGeneratedColumn()
+        id!: number;
+
+        @I18nColumn({ type: 'varchar', length: 255, nullable: true })
+        title!: string;
+      }
+
+      expect(i18nMetadataStorage.getPropertyMetadata(LifecycleCategory, 'title')?.options).toMatchObject({
+        deprecated: ['de'],
+        archived: ['nl'],
+      });
+    });
+
+    it('should reject retired default and required languages', () => {
+      expect(() => {
+        @Entity('lifecycle_invalid_default')
+        class InvalidDefault {
+          @PrimaryGeneratedColumn()
+          id!: number;
+
+          @I18nColumn({ languages: ['en', 'de'], default_language: 'en', archived: ['en'], type: 'text' })
+          body!: string;
+        }
+        return InvalidDefault;
+      }).toThrow('archived language "en" of I18nColumn on InvalidDefault.body cannot be the default_language');
+
+      expect(() => {
+        @Entity('lifecycle_invalid_required')
+        class InvalidRequired {
+          @PrimaryGeneratedColumn()
+          id!: number;
+
+          @I18nColumn({
+            languages: ['en', 'de'],
+            default_language: 'en',
+            required: ['de'],
+            deprecated: ['de'],
+            type: 'text',
+          })
+          body!: string;
+        }
+        return InvalidRequired;
+      }).toThrow('deprecated language "de" of I18nColumn on InvalidRequired.body cannot be the default_language');
+    });
+
+    it('should reject languages that are both deprecated and archived', () => {
+      expect(() => {
+        @Entity('lifecycle_invalid_both')
+        class InvalidBoth {
+          @PrimaryGeneratedColumn()
+          id!: number;
+
+          @I18nColumn({
+            languages: ['en', 'de'],
+            default_language: 'en',
+            deprecated: ['de'],
+            archived: ['de'],
+            type: 'text',
+          })
+          body!: string;
+        }
+        return InvalidBoth;
+      }).toThrow('archived language "de" of I18nColumn on InvalidBoth.body cannot be deprecated');
+    });
+  });
+});
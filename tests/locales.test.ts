@@ -0,0 +1,171 @@
+import { DataSource, Entity, PrimaryGeneratedColumn } from 'typeorm';
+import { I18nColumn, I18nValue, getI18nRepository } from '../src';
+import { languageColumnSuffix, matchLanguage, normalizeLanguageCode } from '../src/language-utils';
+import { createE2EDataSource, closeE2EDataSource } from './db-helper';
+
+type Languages = 'en' | 'pt-BR' | 'pt-PT' | 'zh-Hant-TW';
+
+@Entity('locale_products')
+class LocaleProduct {
+  @PrimaryGeneratedColumn()
+  id!: number;
+
+  @I18nColumn({
+    languages: ['en', 'pt-br', 'PT-PT', 'zh_hant_tw'],
+    default_language: 'en',
+    type: 'varchar',
+    length: 255,
+    nullable: true,
+  })
+  name!: string;
+
+  nameTranslations?: I18nValue<Languages, string>;
+
+  @I18nColumn({
+    languages: ['en', 'pt-BR', 'pt-PT'],
+    default_language: 'en',
+    storage: 'json',
+    type: 'simple-json',
+    nullable: true,
+  })
+  slogan!: string;
+
+  sloganTranslations?: I18nValue<'en' | 'pt-BR' | 'pt-PT', string>;
+}
+
+describe('BCP 47 Locales', () => {
+  describe('normalizeLanguageCode', () => {
+    it('should canonicalize the case of each subtag', () => {
+      expect(normalizeLanguageCode('zh-hant-tw')).toBe('zh-Hant-TW');
+      expect(normalizeLanguageCode('SR-LATN')).toBe('sr-Latn');
+      expect(normalizeLanguageCode('es-419')).toBe('es-419');
+      expect(normalizeLanguageCode('de-CH-1996')).toBe('de-CH-1996');
+    });
+
+    it('should accept underscores as separators', () => {
+      expect(normalizeLanguageCode('pt_br')).toBe('pt-BR');
+    });
+
+    it('should lowercase extension and private use subtags', () => {
+      expect(normalizeLanguageCode('en-US-x-TWAIN')).toBe('en-US-x-twain');
+    });
+  });
+
+  describe('languageColumnSuffix', () => {
+    it('should map tags to safe lowercase suffixes', () => {
+      expect(languageColumnSuffix('es')).toBe('es');
+      expect(languageColumnSuffix('pt-BR')).toBe('pt_br');
+      expect(languageColumnSuffix('zh-Hant-TW')).toBe('zh_hant_tw');
+    });
+  });
+
+  describe('matchLanguage', () => {
+    const available = ['en', 'pt-BR', 'pt-PT', 'zh-Hant'];
+
+    it('should match exact tags in any case', () => {
+      expect(matchLanguage('PT-pt', available)).toBe('pt-PT');
+    });
+
+    it('should fall back to less specific tags', () => {
+      expect(matchLanguage('en-GB', available)).toBe('en');
+      expect(matchLanguage('zh-Hant-TW', available)).toBe('zh-Hant');
+    });
+
+    it('should fall back to another region of the same language', () => {
+      expect(matchLanguage('pt', available)).toBe('pt-BR');
+      expect(matchLanguage('zh-Hans-CN', available)).toBe('zh-Hant');
+    });
+
+    it('should return undefined without a match', () => {
+      expect(matchLanguage('de-DE', available)).toBeUndefined();
+    });
+  });
+
+  describe('Entities', () => {
+    let dataSource: DataSource;
+
+    beforeEach(async () => {
+      dataSource = await createE2EDataSource([LocaleProduct]);
+
+      const repo = getI18nRepository(LocaleProduct, dataSource);
+      await repo.save(
+        repo.create({
+          nameTranslations: { en: 'Bus', 'pt-BR': 'Ônibus', 'pt-PT': 'Autocarro', 'zh-Hant-TW': '公車' },
+          sloganTranslations: { en: 'Ride', 'pt-BR': 'Embarque', 'pt-PT': 'Viaje' },
+        })
+      );
+    });
+
+    afterEach(async () => {
+      if (dataSource && dataSource.isInitialized) {
+        await closeE2EDataSource(dataSource);
+      }
+    });
+
+    it('should name language columns with safe suffixes', () => {
+      const columns = dataSource.getMetadata(LocaleProduct).columns.map((column) => column.databaseName);
+
+      expect(columns).toEqual(expect.arrayContaining(['name', 'name_pt_br', 'name_pt_pt', 'name_zh_hant_tw']));
+    });
+
+    it('should key translations by the canonical tag', async () => {
+      const repo = getI18nRepository(LocaleProduct, dataSource);
+
+      const [product] = await repo.find();
+
+      expect(product.nameTranslations).toEqual({
+        en: 'Bus',
+        'pt-BR': 'Ônibus',
+        'pt-PT': 'Autocarro',
+        'zh-Hant-TW': '公車',
+      });
+      expect(product.sloganTranslations?.['pt-PT']).toBe('Viaje');
+      expect((product as any).name_pt_br).toBeUndefined();
+    });
+
+    it('should keep regional variants apart', async () => {
+      const repo = getI18nRepository(LocaleProduct, dataSource);
+
+      repo.setLanguage('pt-br');
+      const [brazil] = await repo.find({ where: { name: 'Ônibus' } });
+      repo.setLanguage('PT_PT');
+      const [portugal] = await repo.find({ where: { slogan: 'Viaje' } });
+
+      expect(brazil.name).toBe('Ônibus');
+      expect(brazil.slogan).toBe('Embarque');
+      expect(portugal.name).toBe('Autocarro');
+      expect(repo.getLanguage()).toBe('pt-PT');
+    });
+
+    it('should use the closest configured language', async () => {
+      const repo = getI18nRepository(LocaleProduct, dataSource);
+
+      repo.setLanguage('zh-TW');
+      expect(repo.getLanguageColumn('name')).toBe('name_zh_hant_tw');
+
+      repo.setLanguage('en-GB');
+      const [british] = await repo.find({ where: { name: 'Bus' } });
+      expect(british.name).toBe('Bus');
+
+      repo.setLanguage('pt');
+      const [portuguese] = await repo.find({ order: { slogan: 'ASC' } });
+      expect(portuguese.name).toBe('Ônibus');
+      expect(portuguese.slogan).toBe('Embarque');
+    });
+
+    it('should save a single value to the closest configured language', async () => {
+      const repo = getI18nRepository(LocaleProduct, dataSource);
+      repo.setLanguage('pt-PT');
+      const [product] = await repo.find();
+
+      product.nameTranslations = undefined;
+      product.name = 'Autocarro novo';
+      await dataSource.manager.save(product);
+
+      repo.clearLanguage();
+      const reloaded = await repo.findOneByOrFail({ id: product.id });
+      expect(reloaded.nameTranslations?.['pt-PT']).toBe('Autocarro novo');
+      expect(reloaded.nameTranslations?.['pt-BR']).toBe('Ônibus');
+    });
+  });
+});
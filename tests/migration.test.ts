@@ -0,0 +1,245 @@
+import { DataSource, Entity, PrimaryGeneratedColumn, Column, TableColumn } from 'typeorm';
+import { I18nColumn, I18nValue, generateI18nMigration, I18nMigration } from '../src';
+import { createE2EDataSource, closeE2EDataSource } from './db-helper';
+
+@Entity('migration_products')
+class MigrationProduct {
+  @PrimaryGeneratedColumn()
+  id!: number;
+
+  @I18nColumn({
+    languages: ['en', 'es', 'it'],
+    default_language: 'en',
+    type: 'varchar',
+    length: 255,
+  })
+  name!: string;
+
+  nameTranslations?: I18nValue<'en' | 'es' | 'it', string>;
+
+  @Column({ type: 'varchar', length: 50, nullable: true })
+  name_code!: string | null;
+}
+
+@Entity('migration_categories')
+class MigrationCategory {
+  @PrimaryGeneratedColumn()
+  id!: number;
+
+  @I18nColumn({
+    languages: ['en', 'it'],
+    default_language: 'en',
+    required: ['en', 'it'],
+    type: 'varchar',
+    length: 255,
+  })
+  name!: string;
+
+  nameTranslations?: I18nValue<'en' | 'it', string>;
+}
+
+@Entity('migration_regional_products')
+class MigrationRegionalProduct {
+  @PrimaryGeneratedColumn()
+  id!: number;
+
+  @I18nColumn({
+    languages: ['en', 'pt-BR'],
+    default_language: 'en',
+    type: 'varchar',
+    length: 255,
+    nullable: true,
+  })
+  name!: string;
+}
+
+async function runQueries(dataSource: DataSource, queries: I18nMigration['upQueries']): Promise<void> {
+  for (const query of queries) {
+    await dataSource.query(query.query, query.parameters);
+  }
+}
+
+async function getColumns(dataSource: DataSource, tableName: string): Promise<TableColumn[]> {
+  const queryRunner = dataSource.createQueryRunner();
+  try {
+    const table = await queryRunner.getTable(tableName);
+    return table!.columns;
+  } finally {
+    await queryRunner.release();
+  }
+}
+
+async function getColumnNames(dataSource: DataSource): Promise<string[]> {
+  return (await getColumns(dataSource, 'migration_products')).map((column) => column.name);
+}
+
+describe('Migration Generator', () => {
+  let dataSource: DataSource;
+
+  beforeEach(async () => {
+    dataSource = await createE2EDataSource([MigrationProduct]);
+
+    // Simulate a schema created before 'it' was configured and after 'fr' was removed
+    const queryRunner = dataSource.createQueryRunner();
+    await queryRunner.dropColumn('migration_products', 'name_it');
+    await queryRunner.addColumn(
+      'migration_products',
+      new TableColumn({ name: 'name_fr', type: 'varchar', length: '255', isNullable: true })
+    );
+    await queryRunner.release();
+
+    await dataSource.query(
+      `INSERT INTO migration_products (name, name_es, name_fr, name_code) VALUES ('Laptop', 'Portátil', 'Ordinateur', 'LP')`
+    );
+  });
+
+  afterEach(async () => {
+    if (dataSource && dataSource.isInitialized) {
+      await closeE2EDataSource(dataSource);
+    }
+  });
+
+  it('should report added and stale language columns', async () => {
+    const migration = await generateI18nMigration(dataSource, { timestamp: 1700000000000 });
+
+    expect(migration.name).toBe('I18nLanguages1700000000000');
+    expect(migration.addedColumns).toEqual(['migration_products.name_it']);
+    expect(migration.staleColumns).toEqual(['migration_products.name_fr']);
+    expect(migration.upQueries.length).toBeGreaterThan(0);
+    expect(migration.source).toContain('export class I18nLanguages1700000000000 implements MigrationInterface');
+    expect(migration.source).toContain('await queryRunner.query(`');
+  });
+
+  it('should add missing language columns and revert them', async () => {
+    const migration = await generateI18nMigration(dataSource);
+
+    await runQueries(dataSource, migration.upQueries);
+    const columns = await getColumnNames(dataSource);
+    expect(columns).toEqual(expect.arrayContaining(['name_it', 'name_fr', 'name_code']));
+
+    const [row] = await dataSource.query('SELECT name_it FROM migration_products');
+    expect(row.name_it).toBeNull();
+
+    await runQueries(dataSource, migration.downQueries);
+    expect(await getColumnNames(dataSource)).not.toContain('name_it');
+  });
+
+  it('should backfill added columns from the default language', async () => {
+    const migration = await generateI18nMigration(dataSource, { backfill: true });
+
+    await runQueries(dataSource, migration.upQueries);
+
+    const [row] = await dataSource.query('SELECT name, name_es, name_it FROM migration_products');
+    expect(row).toEqual({ name: 'Laptop', name_es: 'Portátil', name_it: 'Laptop' });
+  });
+
+  it('should drop stale language columns only for the confirmed languages', async () => {
+    const migration = await generateI18nMigration(dataSource, { drop: ['fr'] });
+
+    await runQueries(dataSource, migration.upQueries);
+    let columns = await getColumnNames(dataSource);
+    expect(columns).not.toContain('name_fr');
+    expect(columns).toEqual(expect.arrayContaining(['name_it', 'name_code']));
+
+    await runQueries(dataSource, migration.downQueries);
+    columns = await getColumnNames(dataSource);
+    expect(columns).toContain('name_fr');
+    expect(columns).not.toContain('name_it');
+  });
+
+  it('should not drop columns that only look like translations', async () => {
+    const queryRunner = dataSource.createQueryRunner();
+    await queryRunner.addColumn(
+      'migration_products',
+      new TableColumn({ name: 'name_old', type: 'varchar', length: '255', isNullable: true })
+    );
+    await queryRunner.release();
+
+    const unconfirmed = await generateI18nMigration(dataSource);
+    const migration = await generateI18nMigration(dataSource, { drop: ['FR'] });
+    await runQueries(dataSource, migration.upQueries);
+
+    expect(unconfirmed.staleColumns).toEqual(['migration_products.name_fr', 'migration_products.name_old']);
+    expect(await getColumnNames(dataSource)).toEqual(expect.arrayContaining(['name_old', 'name_code']));
+    expect(await getColumnNames(dataSource)).not.toContain('name_fr');
+  });
+
+  it('should generate no queries for an up-to-date schema', async () => {
+    await runQueries(dataSource, (await generateI18nMigration(dataSource, { drop: ['fr'] })).upQueries);
+
+    const migration = await generateI18nMigration(dataSource, { drop: ['fr'] });
+
+    expect(migration.upQueries).toEqual([]);
+    expect(migration.addedColumns).toEqual([]);
+    expect(migration.staleColumns).toEqual([]);
+  });
+});
+
+describe('Migration Generator with required languages', () => {
+  let dataSource: DataSource;
+
+  beforeEach(async () => {
+    dataSource = await createE2EDataSource([MigrationCategory]);
+
+    // Simulate a table with rows created before the required 'it' was configured
+    const queryRunner = dataSource.createQueryRunner();
+    await queryRunner.dropColumn('migration_categories', 'name_it');
+    await queryRunner.release();
+
+    await dataSource.query(`INSERT INTO migration_categories (name) VALUES ('Computers')`);
+  });
+
+  afterEach(async () => {
+    if (dataSource && dataSource.isInitialized) {
+      await closeE2EDataSource(dataSource);
+    }
+  });
+
+  it('should backfill columns of required languages before making them NOT NULL', async () => {
+    const migration = await generateI18nMigration(dataSource, { backfill: true });
+
+    await runQueries(dataSource, migration.upQueries);
+
+    const [row] = await dataSource.query('SELECT name, name_it FROM migration_categories');
+    expect(row).toEqual({ name: 'Computers', name_it: 'Computers' });
+    const column = (await getColumns(dataSource, 'migration_categories')).find(({ name }) => name === 'name_it');
+    expect(column?.isNullable).toBe(false);
+
+    await runQueries(dataSource, migration.downQueries);
+    const columns = await getColumns(dataSource, 'migration_categories');
+    expect(columns.map(({ name }) => name)).not.toContain('name_it');
+    expect(await dataSource.query('SELECT name FROM migration_categories')).toEqual([{ name: 'Computers' }]);
+  });
+
+  it('should refuse to add columns of required languages without backfill', async () => {
+    await expect(generateI18nMigration(dataSource)).rejects.toThrow(
+      'migration_categories.name_it of the required language "it" can\'t be added to existing rows without a value'
+    );
+  });
+});
+
+describe('Migration Generator with regional languages', () => {
+  let dataSource: DataSource;
+
+  beforeEach(async () => {
+    dataSource = await createE2EDataSource([MigrationRegionalProduct]);
+  });
+
+  afterEach(async () => {
+    if (dataSource && dataSource.isInitialized) {
+      await closeE2EDataSource(dataSource);
+    }
+  });
+
+  it('should report columns named after lowercase tags by earlier versions as stale', async () => {
+    // Earlier versions named the column after the lowercase tag
+    const queryRunner = dataSource.createQueryRunner();
+    await queryRunner.renameColumn('migration_regional_products', 'name_pt_br', 'name_pt-br');
+    await queryRunner.release();
+
+    const migration = await generateI18nMigration(dataSource);
+
+    expect(migration.addedColumns).toEqual(['migration_regional_products.name_pt_br']);
+    expect(migration.staleColumns).toEqual(['migration_regional_products.name_pt-br']);
+  });
+});
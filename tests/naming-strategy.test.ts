@@ -0,0 +1,227 @@
+import { DataSource, DefaultNamingStrategy, Entity, PrimaryGeneratedColumn } from 'typeorm';
+import {
+  setI18nConfig,
+  resetI18nConfig,
+  I18nColumn,
+  I18nValue,
+  getI18nRepository,
+  getTranslationColumnName,
+  DefaultI18nNamingStrategy,
+  PrefixI18nNamingStrategy,
+  CamelCaseI18nNamingStrategy,
+} from '../src';
+import { resetI18nColumnsFinalization } from '../src/decorator';
+import { createE2EDataSource, closeE2EDataSource, getDatabaseConfig } from './db-helper';
+
+/**
+ * TypeORM naming strategy converting camelCase property names to snake_case columns
+ */
+class SnakeNamingStrategy extends DefaultNamingStrategy {
+  override columnName(propertyName: string, customName: string | undefined, prefixes: string[]): string {
+    const name = customName ?? propertyName.replace(/([a-z0-9])([A-Z])/g, '$1_$2').toLowerCase();
+    return super.columnName(name, '', prefixes);
+  }
+}
+
+function columnNames(dataSource: DataSource, entity: Function): string[] {
+  return dataSource.getMetadata(entity).columns.map((col) => col.databaseName);
+}
+
+describe('Naming Strategies', () => {
+  let dataSource: DataSource;
+
+  afterEach(async () => {
+    resetI18nConfig();
+    resetI18nColumnsFinalization();
+
+    if (dataSource && dataSource.isInitialized) {
+      await closeE2EDataSource(dataSource);
+    }
+  });
+
+  describe('Built-in strategies', () => {
+    it('should name translation properties', () => {
+      expect(new DefaultI18nNamingStrategy().translationPropertyName('name', 'de')).toBe('name_de');
+      expect(new DefaultI18nNamingStrategy('__').translationPropertyName('short_name', 'de')).toBe(
+        'short_name__de'
+      );
+      expect(new PrefixI18nNamingStrategy().translationPropertyName('name', 'de')).toBe('de_name');
+      expect(new CamelCaseI18nNamingStrategy().translationPropertyName('name', 'de')).toBe('nameDe');
+      expect(new CamelCaseI18nNamingStrategy().translationPropertyName('name', 'zh-cn')).toBe('nameZhCn');
+    });
+
+    it('should use the global strategy in getTranslationColumnName', () => {
+      expect(getTranslationColumnName('name', 'de')).toBe('name_de');
+
+      setI18nConfig({ namingStrategy: new PrefixI18nNamingStrategy() });
+
+      expect(getTranslationColumnName('name', 'de')).toBe('de_name');
+      expect(getTranslationColumnName('name', 'de', new CamelCaseI18nNamingStrategy())).toBe('nameDe');
+    });
+  });
+
+  describe('Column-level strategy', () => {
+    type Languages = 'en' | 'de' | 'fr';
+
+    @Entity('naming_delimiter_products')
+    class DelimiterProduct {
+      @PrimaryGeneratedColumn()
+      id!: number;
+
+      @I18nColumn({
+        languages: ['en', 'de', 'fr'],
+        default_language: 'en',
+        namingStrategy: new DefaultI18nNamingStrategy('__'),
+        type: 'varchar',
+        length: 255,
+      })
+      short_name!: string;
+
+      short_nameTranslations?: I18nValue<Languages, string>;
+
+      @I18nColumn({
+        languages: ['en', 'de', 'fr'],
+        default_language: 'en',
+        type: 'varchar',
+        length: 255,
+      })
+      short!: string;
+
+      shortTranslations?: I18nValue<Languages, string>;
+    }
+
+    beforeEach(async () => {
+      dataSource = await createE2EDataSource([DelimiterProduct]);
+      const repo = getI18nRepository(DelimiterProduct, dataSource);
+      await repo.save([
+        repo.create({
+          short_nameTranslations: { en: 'Apple', de: 'Apfel', fr: 'Pomme' },
+          shortTranslations: { en: 'A', de: 'Ap', fr: 'Po' },
+        }),
+        repo.create({
+          short_nameTranslations: { en: 'Pear', de: 'Birne', fr: 'Poire' },
+          shortTranslations: { en: 'P', de: 'Bi', fr: 'Pi' },
+        }),
+      ]);
+    });
+
+    it('should create columns that do not clash with snake_case properties', () => {
+      expect(columnNames(dataSource, DelimiterProduct)).toEqual(
+        expect.arrayContaining(['short_name', 'short_name__de', 'short_name__fr', 'short', 'short_de', 'short_fr'])
+      );
+    });
+
+    it('should load, query and order translations', async () => {
+      const repo = getI18nRepository(DelimiterProduct, dataSource);
+      repo.setLanguage('de');
+
+      const found = await repo.findOneBy({ short_name: 'Birne' } as any);
+      const ordered = await repo.find({ order: { short_name: 'DESC' } as any });
+
+      expect(found?.short_nameTranslations).toEqual({ en: 'Pear', de: 'Birne', fr: 'Poire' });
+      expect(found?.short).toBe('Bi');
+      expect(ordered.map((p) => p.short_name)).toEqual(['Birne', 'Apfel']);
+      expect(repo.getLanguageColumn('short_name')).toBe('short_name__de');
+    });
+
+    it('should query through the QueryBuilder', async () => {
+      const repo = getI18nRepository(DelimiterProduct, dataSource);
+      repo.setLanguage('fr');
+
+      const products = await repo
+        .createQueryBuilder('product')
+        .where({ short_name: 'Pomme' })
+        .getMany();
+
+      expect(products).toHaveLength(1);
+      expect(products[0].short_name).toBe('Pomme');
+    });
+  });
+
+  describe('Global strategy', () => {
+    it('should name columns with the global strategy', async () => {
+      setI18nConfig({
+        languages: ['en', 'de'],
+        default_language: 'en',
+        namingStrategy: new PrefixI18nNamingStrategy(),
+      });
+
+      @Entity('naming_prefix_products')
+      class PrefixProduct {
+        @PrimaryGeneratedColumn()
+        id!: number;
+
+        @I18nColumn({ type: 'varchar', length: 255 })
+        name!: string;
+
+        nameTranslations?: I18nValue<'en' | 'de', string>;
+      }
+
+      dataSource = await createE2EDataSource([PrefixProduct]);
+      const repo = getI18nRepository(PrefixProduct, dataSource);
+      await repo.save(repo.create({ nameTranslations: { en: 'Chair', de: 'Stuhl' } }));
+
+      repo.setLanguage('de');
+      const product = await repo.createQueryBuilder('product').orderBy('product.name').getOne();
+
+      expect(columnNames(dataSource, PrefixProduct)).toEqual(expect.arrayContaining(['name', 'de_name']));
+      expect(product?.name).toBe('Stuhl');
+      expect((product as any)?.de_name).toBeUndefined();
+    });
+  });
+
+  describe('TypeORM naming strategy', () => {
+    @Entity('naming_camel_products')
+    class CamelProduct {
+      @PrimaryGeneratedColumn()
+      id!: number;
+
+      @I18nColumn({
+        languages: ['en', 'de'],
+        default_language: 'en',
+        namingStrategy: new CamelCaseI18nNamingStrategy(),
+        type: 'varchar',
+        length: 255,
+      })
+      name!: string;
+
+      nameTranslations?: I18nValue<'en' | 'de', string>;
+
+      @I18nColumn({
+        languages: ['en', 'de'],
+        default_language: 'en',
+        name: 'product_label',
+        type: 'varchar',
+        length: 255,
+      })
+      label!: string;
+
+      labelTranslations?: I18nValue<'en' | 'de', string>;
+    }
+
+    it('should derive database names with the TypeORM naming strategy', async () => {
+      dataSource = new DataSource({
+        ...getDatabaseConfig(),
+        entities: [CamelProduct],
+        namingStrategy: new SnakeNamingStrategy(),
+      });
+      await dataSource.initialize();
+
+      const repo = getI18nRepository(CamelProduct, dataSource);
+      await repo.save(
+        repo.create({
+          nameTranslations: { en: 'Table', de: 'Tisch' },
+          labelTranslations: { en: 'New', de: 'Neu' },
+        })
+      );
+
+      repo.setLanguage('de');
+      const product = await repo.findOneBy({ name: 'Tisch' } as any);
+
+      expect(columnNames(dataSource, CamelProduct)).toEqual(
+        expect.arrayContaining(['name', 'name_de', 'product_label', 'product_label_de'])
+      );
+      expect(product?.label).toBe('Neu');
+    });
+  });
+});
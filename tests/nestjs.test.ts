@@ -20,7 +20,13 @@ import {
 import { I18nLanguageMiddleware } from '../src/nestjs/i18n-language.middleware';
 import { I18nModule } from '../src/nestjs/i18n.module';
 import { setLanguageExtractionConfig } from '../src/nestjs/types';
-import { getI18nRepository, setI18nConfig, resetI18nConfig } from '../src';
+import {
+  getI18nConfig,
+  getI18nRepository,
+  PrefixI18nNamingStrategy,
+  setI18nConfig,
+  resetI18nConfig,
+} from '../src';
 import { createE2EDataSource, closeE2EDataSource, seedDatabase } from './db-helper';
 import { Product } from './entities/Product.entity';
 import { productFixtures } from './fixtures/product.fixtures';
@@ -52,6 +58,61 @@ describe('NestJS Integration', () => {
       expect(service.getLanguage()).toBe('fr');
     });
 
+    it('should canonicalize regional language tags', () => {
+      service.setLanguage('zh_hant_tw');
+      expect(service.getLanguage()).toBe('zh-Hant-TW');
+    });
+
+    it('should match the closest configured language', () => {
+      const configured = new I18nLanguageService({ languages: ['en', 'pt-BR', 'pt-PT'], defaultLanguage: 'en' });
+
+      configured.setLanguage('pt-pt');
+      expect(configured.getLanguage()).toBe('pt-PT');
+
+      configured.setLanguage('en-GB');
+      expect(configured.getLanguage()).toBe('en');
+    });
+
+    it('should match the languages of configured profiles', () => {
+      const configured = new I18nLanguageService({
+        languages: ['en', 'es'],
+        defaultLanguage: 'en',
+        profiles: { legal: { languages: ['en', 'de-CH'], default_language: 'en' } },
+      });
+
+      configured.setLanguage('de');
+      expect(configured.getLanguage()).toBe('de-CH');
+    });
+
+    it('should replace archived languages with the default language', () => {
+      const configured = new I18nLanguageService({
+        languages: ['en', 'de', 'it'],
+        defaultLanguage: 'en',
+        deprecated: ['de'],
+        archived: ['it'],
+      });
+
+      configured.setLanguage('de-DE');
+      expect(configured.getLanguage()).toBe('de');
+
+      configured.setLanguage('it');
+      expect(configured.getLanguage()).toBe('en');
+    });
+
+    it('should normalize the configured languages', () => {
+      const configured = new I18nLanguageService({
+        languages: ['EN', 'pt_br', 'IT'],
+        defaultLanguage: 'EN',
+        archived: ['IT'],
+      });
+
+      configured.setLanguage('pt');
+      expect(configured.getLanguage()).toBe('pt-BR');
+
+      configured.setLanguage('it');
+      expect(configured.getLanguage()).toBe('en');
+    });
+
     it('should allow changing language', () => {
       service.setLanguage('en');
       expect(service.getLanguage()).toBe('en');
@@ -199,6 +260,30 @@ describe('NestJS Integration', () => {
   });
 
   describe('I18nModule.forRoot', () => {
+    afterEach(() => {
+      resetI18nConfig();
+    });
+
+    it('should pass every configuration option to setI18nConfig', () => {
+      const namingStrategy = new PrefixI18nNamingStrategy();
+      I18nModule.forRoot({
+        languages: ['en', 'pt-BR', 'de'],
+        defaultLanguage: 'en',
+        fallbacks: { 'pt_br': ['en'] },
+        collations: { DE: 'de-DE-x-icu' },
+        namingStrategy,
+        required: ['EN'],
+        resolveLanguage: () => 'en',
+      });
+
+      const config = getI18nConfig();
+      expect(config.fallbacks).toEqual({ 'pt-BR': ['en'] });
+      expect(config.collations).toEqual({ de: 'de-DE-x-icu' });
+      expect(config.namingStrategy).toBe(namingStrategy);
+      expect(config.required).toEqual(['en']);
+      expect(config).not.toHaveProperty('resolveLanguage');
+    });
+
     it('should create a dynamic module with correct providers', () => {
       const result = I18nModule.forRoot({
         languages: ['en', 'es'],
@@ -259,6 +344,20 @@ describe('NestJS Integration', () => {
       expect(result.providers).toBeDefined();
     });
 
+    it('should pass every configuration option to setI18nConfig', () => {
+      const options: I18nModuleOptions = { languages: ['en', 'es'], defaultLanguage: 'en', fallbacks: { '*': ['en'] } };
+      const result = I18nModule.forRootAsync({ useFactory: () => options });
+      const init = result.providers!.find((provider: any) => provider.provide === 'I18N_CONFIG_INIT') as any;
+
+      try {
+        init.useFactory(options);
+        expect(getI18nConfig()).toMatchObject({ languages: ['en', 'es'], default_language: 'en' });
+        expect(getI18nConfig().fallbacks).toEqual({ '*': ['en'] });
+      } finally {
+        resetI18nConfig();
+      }
+    });
+
     it('should include inject dependencies', () => {
       const CONFIG_TOKEN = 'CONFIG';
       const result = I18nModule.forRootAsync({
@@ -512,10 +611,16 @@ describe('NestJS Integration', () => {
         expect(resolver(req)).toBe('es');
       });
 
-      it('should parse Accept-Language header', () => {
+      it('should parse Accept-Language header keeping the region', () => {
         const resolver = fromHeader('accept-language');
         const req = { headers: { 'accept-language': 'es-ES,es;q=0.9,en;q=0.8' } };
-        expect(resolver(req)).toBe('es');
+        expect(resolver(req)).toBe('es-ES');
+      });
+
+      it('should return the preferred Accept-Language tag', () => {
+        const resolver = fromHeader();
+        const req = { headers: { 'accept-language': 'en;q=0.5, *;q=0.1, zh-hant-tw, pt-br;q=0.8' } };
+        expect(resolver(req)).toBe('zh-Hant-TW');
       });
 
       it('should handle simple Accept-Language', () => {
@@ -671,6 +776,42 @@ describe('NestJS Integration', () => {
         expect(await resolver({})).toBe('es');
       });
 
+      it('should match regional variants to allowed languages', async () => {
+        expect(await validated(() => 'es-MX', ['en', 'es'])({})).toBe('es');
+        expect(await validated(() => 'pt-br', ['en', 'pt-BR', 'pt-PT'])({})).toBe('pt-BR');
+        expect(await validated(() => 'pt', ['en', 'pt-BR', 'pt-PT'])({})).toBe('pt-BR');
+        expect(await validated(() => 'de-AT', ['en', 'es'])({})).toBeNull();
+      });
+
+      it('should validate against the languages of a profile', async () => {
+        setI18nConfig({
+          languages: ['en', 'es', 'fr', 'ja'],
+          default_language: 'en',
+          profiles: { legal: { languages: ['en', 'de'], default_language: 'en' } },
+        });
+
+        try {
+          expect(await validated(() => 'de-AT', 'legal')({})).toBe('de');
+          expect(await validated(() => 'ja', 'legal')({})).toBeNull();
+          await expect(validated(() => 'en', 'marketing')({})).rejects.toThrow(
+            'I18n profile "marketing" is not configured'
+          );
+        } finally {
+          resetI18nConfig();
+        }
+      });
+
+      it('should not allow archived languages', async () => {
+        setI18nConfig({ languages: ['en', 'de', 'it'], default_language: 'en', deprecated: ['de'], archived: ['it'] });
+
+        try {
+          expect(await validated(() => 'de', ['en', 'de', 'it'])({})).toBe('de');
+          expect(await validated(() => 'it-CH', ['en', 'de', 'it'])({})).toBeNull();
+        } finally {
+          resetI18nConfig();
+        }
+      });
+
       it('should return null when wrapped resolver returns null', async () => {
         const resolver = validated(
           () => null,
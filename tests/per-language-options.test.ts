@@ -0,0 +1,102 @@
+import { DataSource, Entity, PrimaryGeneratedColumn } from 'typeorm';
+import { I18nColumn, I18nValue, getI18nRepository } from '../src';
+import { createE2EDataSource, closeE2EDataSource } from './db-helper';
+
+type Languages = 'en' | 'de' | 'ja';
+
+@Entity('per_language_products')
+class PerLanguageProduct {
+  @PrimaryGeneratedColumn()
+  id!: number;
+
+  @I18nColumn({
+    languages: ['en', 'de', 'ja'],
+    default_language: 'en',
+    type: 'varchar',
+    length: 255,
+    perLanguage: {
+      en: { length: 200 },
+      de: { length: 400 },
+      ja: { comment: 'Japanese name', default: '' },
+    },
+  })
+  name!: string;
+
+  nameTranslations?: I18nValue<Languages, string>;
+}
+
+describe('Per-Language Column Options', () => {
+  let dataSource: DataSource;
+
+  beforeEach(async () => {
+    dataSource = await createE2EDataSource([PerLanguageProduct]);
+  });
+
+  afterEach(async () => {
+    if (dataSource && dataSource.isInitialized) {
+      await closeE2EDataSource(dataSource);
+    }
+  });
+
+  function getColumn(propertyName: string) {
+    return dataSource.getMetadata(PerLanguageProduct).findColumnWithPropertyName(propertyName)!;
+  }
+
+  it('should override options of individual language columns', () => {
+    expect(getColumn('name_de').length).toBe('400');
+    expect(getColumn('name_ja').length).toBe('255');
+    expect(getColumn('name_ja').comment).toBe('Japanese name');
+  });
+
+  it('should override options of the default language column', () => {
+    expect(getColumn('name').length).toBe('200');
+    expect(getColumn('name').isNullable).toBe(false);
+  });
+
+  it('should keep other language columns nullable', () => {
+    expect(getColumn('name_de').isNullable).toBe(true);
+    expect(getColumn('name_ja').isNullable).toBe(true);
+  });
+
+  it('should save and load translations with overridden columns', async () => {
+    const repo = getI18nRepository(PerLanguageProduct, dataSource);
+    const longName = 'Hochleistungs-Notebook '.repeat(15).trim();
+
+    const saved = await repo.save(repo.create({ nameTranslations: { en: 'Laptop', de: longName } }));
+    const loaded = await repo.findOneByOrFail({ id: saved.id });
+
+    expect(loaded.nameTranslations?.de).toBe(longName);
+    expect(loaded.nameTranslations?.ja).toBe('');
+  });
+
+  it('should reject languages that are not configured', () => {
+    expect(() => {
+      class InvalidPerLanguageEntity {
+        @I18nColumn({
+          languages: ['en', 'de'],
+          default_language: 'en',
+          type: 'varchar',
+          perLanguage: { fr: { length: 10 } } as any,
+        })
+        name!: string;
+      }
+      return InvalidPerLanguageEntity;
+    }).toThrow('has language "fr" which is not included in the languages array');
+  });
+
+  it('should reject perLanguage with JSON storage', () => {
+    expect(() => {
+      class InvalidJsonEntity {
+        @I18nColumn({
+          languages: ['en', 'de'],
+          default_language: 'en',
+          storage: 'json',
+          type: 'json',
+          perLanguage: { de: { length: 10 } },
+        })
+        name!: string;
+      }
+      return InvalidJsonEntity;
+    }).toThrow('requires storage "columns"');
+  });
+});
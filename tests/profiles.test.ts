@@ -0,0 +1,250 @@
+import { DataSource, Entity, PrimaryGeneratedColumn } from 'typeorm';
+import {
+  I18nColumn,
+  I18nUnknownLanguageError,
+  I18nValidationError,
+  I18nValue,
+  getI18nProfile,
+  getI18nRepository,
+  i18nMetadataStorage,
+  resetI18nConfig,
+  setI18nConfig,
+} from '../src';
+import { resetI18nColumnsFinalization } from '../src/decorator';
+import { createE2EDataSource, closeE2EDataSource } from './db-helper';
+
+type MarketingLanguages = 'en' | 'es' | 'fr' | 'ja';
+type LegalLanguages = 'en' | 'de';
+
+const profiles = {
+  marketing: { languages: ['en', 'es', 'fr', 'ja'], default_language: 'en' },
+  legal: { languages: ['EN', 'DE'], default_language: 'en', required: ['en', 'de'] },
+};
+
+describe('Language Profiles', () => {
+  let dataSource: DataSource;
+
+  afterEach(async () => {
+    resetI18nConfig();
+    resetI18nColumnsFinalization();
+
+    if (dataSource && dataSource.isInitialized) {
+      await closeE2EDataSource(dataSource);
+    }
+  });
+
+  describe('Configuration', () => {
+    it('should normalize the languages of each profile', () => {
+      setI18nConfig({ profiles });
+
+      expect(getI18nProfile('legal')).toEqual({
+        languages: ['en', 'de'],
+        default_language: 'en',
+        required: ['en', 'de'],
+      });
+    });
+
+    it('should reject a default language outside the profile languages', () => {
+      expect(() =>
+        setI18nConfig({ profiles: { legal: { languages: ['en', 'de'], default_language: 'fr' } } })
+      ).toThrow('default_language "fr" of I18n profile "legal" must be included in its languages');
+    });
+
+    it('should reject unknown profiles', () => {
+      setI18nConfig({ languages: ['en'], default_language: 'en', profiles });
+
+      expect(() => getI18nProfile('finance')).toThrow('I18n profile "finance" is not configured');
+      expect(() => {
+        @Entity('profile_unknown')
+        class UnknownProfileEntity {
+          @PrimaryGeneratedColumn()
+          id!: number;
+
+          @I18nColumn({ profile: 'finance', type: 'text' })
+          body!: string;
+        }
+        return UnknownProfileEntity;
+      }).toThrow('I18n profile "finance" is not configured');
+    });
+  });
+
+  describe('Columns', () => {
+    it('should take languages from the profile of each column', async () => {
+      setI18nConfig({ languages: ['en', 'es'], default_language: 'en', profiles });
+
+      @Entity('profile_campaigns')
+      class Campaign {
+        @PrimaryGeneratedColumn()
+        id!: number;
+
+        @I18nColumn({ profile: 'marketing', type: 'varchar', length: 255, nullable: true })
+        headline!: string;
+
+        headlineTranslations?: I18nValue<MarketingLanguages, string>;
+
+        @I18nColumn({ profile: 'legal', type: 'text', nullable: true })
+        disclaimer!: string;
+
+        disclaimerTranslations?: I18nValue<LegalLanguages, string>;
+
+        @I18nColumn({ type: 'varchar', length: 50, nullable: true })
+        label!: string;
+      }
+
+      dataSource = await createE2EDataSource([Campaign]);
+      const columns = dataSource.getMetadata(Campaign).columns.map((column) => column.databaseName);
+
+      expect(columns).toEqual(
+        expect.arrayContaining(['headline_es', 'headline_fr', 'headline_ja', 'disclaimer_de', 'label_es'])
+      );
+      expect(columns).not.toContain('disclaimer_es');
+      expect(columns).not.toContain('label_ja');
+      expect(i18nMetadataStorage.getPropertyMetadata(Campaign, 'disclaimer')?.options).toMatchObject({
+        languages: ['en', 'de'],
+        default_language: 'en',
+        required: ['en', 'de'],
+        profile: 'legal',
+      });
+    });
+
+    it('should let column options override the profile', () => {
+      setI18nConfig({ profiles });
+
+      @Entity('profile_overrides')
+      class Override {
+        @PrimaryGeneratedColumn()
+        id!: number;
+
+        @I18nColumn({ profile: 'legal', default_language: 'de', required: [], type: 'text' })
+        body!: string;
+      }
+
+      expect(i18nMetadataStorage.getPropertyMetadata(Override, 'body')?.options).toMatchObject({
+        languages: ['en', 'de'],
+        default_language: 'de',
+        required: [],
+      });
+    });
+
+    it('should wait for the profile to be configured', () => {
+      @Entity('profile_pending')
+      class Pending {
+        @PrimaryGeneratedColumn()
+        id!: number;
+
+        @I18nColumn({ profile: 'legal', type: 'text' })
+        body!: string;
+      }
+
+      expect(i18nMetadataStorage.getPropertyMetadata(Pending, 'body')).toBeUndefined();
+
+      setI18nConfig({ profiles });
+
+      expect(i18nMetadataStorage.getPropertyMetadata(Pending, 'body')?.options.languages).toEqual(['en', 'de']);
+    });
+
+    it('should wait for profiles after a config without them', async () => {
+      setI18nConfig({ languages: ['en', 'es'], default_language: 'en' });
+
+      @Entity('profile_terms')
+      class Terms {
+        @PrimaryGeneratedColumn()
+        id!: number;
+
+        @I18nColumn({ profile: 'legal', type: 'text', nullable: true })
+        terms!: string;
+      }
+
+      expect(i18nMetadataStorage.getPropertyMetadata(Terms, 'terms')).toBeUndefined();
+
+      setI18nConfig({ languages: ['en', 'es'], default_language: 'en', profiles });
+      dataSource = await createE2EDataSource([Terms]);
+
+      expect(i18nMetadataStorage.getPropertyMetadata(Terms, 'terms')?.options.languages).toEqual(['en', 'de']);
+      expect(dataSource.getMetadata(Terms).columns.map((column) => column.databaseName)).toEqual([
+        'id',
+        'terms',
+        'terms_de',
+      ]);
+    });
+  });
+
+  describe('Repository', () => {
+    async function setup() {
+      setI18nConfig({ profiles });
+
+      @Entity('profile_documents')
+      class LegalDocument {
+        @PrimaryGeneratedColumn()
+        id!: number;
+
+        @I18nColumn({ profile: 'legal', type: 'varchar', length: 255 })
+        title!: string;
+
+        titleTranslations?: I18nValue<LegalLanguages, string>;
+      }
+
+      dataSource = await createE2EDataSource([LegalDocument]);
+      const repo = getI18nRepository(LegalDocument, dataSource);
+      await repo.save(repo.create({ titleTranslations: { en: 'Terms', de: 'Bedingungen' } }));
+      return repo;
+    }
+
+    it('should apply the required languages of the profile', async () => {
+      const repo = await setup();
+
+      expect(() => repo.create({ titleTranslations: { en: 'Privacy' } as any })).toThrow(I18nValidationError);
+    });
+
+    it('should use the profile languages of the entity', async () => {
+      const repo = await setup();
+      repo.setLanguage('de-AT');
+
+      const [document] = await repo.find({ where: { title: 'Bedingungen' } });
+
+      expect(document.title).toBe('Bedingungen');
+      expect(repo.getLanguageColumn('title')).toBe('title_de');
+    });
+
+    it('should fall back to the profile default for languages of other profiles', async () => {
+      const repo = await setup();
+      repo.setLanguage('ja');
+
+      const documents = await repo.find({ where: { title: 'Terms' }, order: { title: 'ASC' } });
+
+      expect(documents).toHaveLength(1);
+      expect(documents[0].title).toBe('Terms');
+      expect(repo.getLanguageColumn('title')).toBe('title');
+    });
+
+    it('should reject writes in languages of other profiles', async () => {
+      setI18nConfig({ languages: ['en', 'fr'], default_language: 'en', profiles });
+
+      @Entity('profile_notices')
+      class Notice {
+        @PrimaryGeneratedColumn()
+        id!: number;
+
+        @I18nColumn({ profile: 'legal', required: [], type: 'varchar', length: 255 })
+        title!: string;
+
+        titleTranslations?: I18nValue<LegalLanguages, string>;
+      }
+
+      dataSource = await createE2EDataSource([Notice]);
+      const repo = getI18nRepository(Notice, dataSource);
+      const { id } = await repo.save(repo.create({ titleTranslations: { en: 'Terms', de: 'Bedingungen' } }));
+
+      repo.setLanguage('fr');
+      const notice = await repo.findOneByOrFail({ id });
+      notice.titleTranslations = undefined;
+      notice.title = 'Conditions';
+
+      await expect(repo.save(notice)).rejects.toThrow(I18nUnknownLanguageError);
+      await expect(repo.save(notice)).rejects.toThrow('Unknown I18n language "fr" of Notice.title');
+
+      const stored = await repo.clearLanguage().findOneByOrFail({ id });
+      expect(stored.titleTranslations).toEqual({ en: 'Terms', de: 'Bedingungen' });
+    });
+  });
+});
@@ -876,10 +876,10 @@ describe('QueryBuilder and Type Helpers', () => {
         expect(normalizeLanguageCode('es')).toBe('es');
       });
 
-      it('should handle language codes with regions', () => {
-        expect(normalizeLanguageCode('ZH-CN')).toBe('zh-cn');
-        expect(normalizeLanguageCode('en-US')).toBe('en-us');
-        expect(normalizeLanguageCode('pt-BR')).toBe('pt-br');
+      it('should canonicalize language codes with regions', () => {
+        expect(normalizeLanguageCode('ZH-CN')).toBe('zh-CN');
+        expect(normalizeLanguageCode('en-us')).toBe('en-US');
+        expect(normalizeLanguageCode('pt-BR')).toBe('pt-BR');
       });
     });
 
@@ -0,0 +1,204 @@
+import { DataSource, Entity, PrimaryGeneratedColumn, Column } from 'typeorm';
+import {
+  I18nColumn,
+  I18nValue,
+  I18nValidationError,
+  findMissingI18nTranslations,
+  getI18nRepository,
+  setI18nConfig,
+  resetI18nConfig,
+} from '../src';
+import { resetI18nColumnsFinalization } from '../src/decorator';
+import { createE2EDataSource, closeE2EDataSource } from './db-helper';
+
+type Languages = 'en' | 'es' | 'fr';
+
+@Entity('required_products')
+class RequiredProduct {
+  @PrimaryGeneratedColumn()
+  id!: number;
+
+  @I18nColumn({
+    languages: ['en', 'es', 'fr'],
+    default_language: 'en',
+    required: ['en', 'es'],
+    type: 'varchar',
+    length: 255,
+    nullable: true,
+  })
+  title!: string;
+
+  titleTranslations?: I18nValue<Languages, string>;
+
+  @I18nColumn({
+    languages: ['en', 'es', 'fr'],
+    default_language: 'en',
+    required: ['es'],
+    storage: 'json',
+    type: 'json',
+  })
+  slogan!: string;
+
+  sloganTranslations?: I18nValue<Languages, string>;
+
+  @Column({ type: 'real', default: 0 })
+  price!: number;
+}
+
+describe('Required Languages', () => {
+  let dataSource: DataSource;
+
+  beforeEach(async () => {
+    dataSource = await createE2EDataSource([RequiredProduct]);
+  });
+
+  afterEach(async () => {
+    resetI18nConfig();
+    resetI18nColumnsFinalization();
+
+    if (dataSource && dataSource.isInitialized) {
+      await closeE2EDataSource(dataSource);
+    }
+  });
+
+  const valid = {
+    titleTranslations: { en: 'Laptop', es: 'Portátil' },
+    sloganTranslations: { es: 'Ligero' },
+  } as Partial<RequiredProduct>;
+
+  describe('Schema', () => {
+    it('should make columns of required languages NOT NULL', () => {
+      const metadata = dataSource.getMetadata(RequiredProduct);
+
+      expect(metadata.findColumnWithPropertyName('title')!.isNullable).toBe(false);
+      expect(metadata.findColumnWithPropertyName('title_es')!.isNullable).toBe(false);
+      expect(metadata.findColumnWithPropertyName('title_fr')!.isNullable).toBe(true);
+    });
+
+    it('should reject required languages that are not configured', () => {
+      expect(() => {
+        class InvalidRequiredEntity {
+          @I18nColumn({
+            languages: ['en', 'es'],
+            default_language: 'en',
+            required: ['de'] as any,
+            type: 'varchar',
+          })
+          name!: string;
+        }
+        return InvalidRequiredEntity;
+      }).toThrow('required language "de"');
+    });
+  });
+
+  describe('Validation', () => {
+    it('should reject create() with a structured error', () => {
+      const repo = getI18nRepository(RequiredProduct, dataSource);
+
+      let error: unknown;
+      try {
+        repo.create({ titleTranslations: { en: 'Laptop' } } as any);
+      } catch (e) {
+        error = e;
+      }
+
+      expect(error).toBeInstanceOf(I18nValidationError);
+      expect((error as I18nValidationError).missing).toEqual([
+        { entity: 'RequiredProduct', property: 'title', language: 'es' },
+        { entity: 'RequiredProduct', property: 'slogan', language: 'es' },
+      ]);
+      expect((error as Error).message).toBe(
+        'Missing required translations: RequiredProduct.title (es), RequiredProduct.slogan (es)'
+      );
+    });
+
+    it('should reject save() listing every entity', async () => {
+      const repo = getI18nRepository(RequiredProduct, dataSource);
+      const first = Object.assign(new RequiredProduct(), valid, {
+        titleTranslations: { en: 'Mouse', es: '' },
+      });
+      const second = Object.assign(new RequiredProduct(), valid, {
+        titleTranslations: { es: 'Teclado' },
+      });
+
+      await expect(repo.save([first, second])).rejects.toMatchObject({
+        missing: [
+          { entity: 'RequiredProduct', property: 'title', language: 'es' },
+          { entity: 'RequiredProduct', property: 'title', language: 'en' },
+        ],
+      });
+      expect(await repo.count()).toBe(0);
+    });
+
+    it('should reject inserts through the subscriber', async () => {
+      const repo = dataSource.getRepository(RequiredProduct);
+      const product = Object.assign(new RequiredProduct(), { ...valid, sloganTranslations: { fr: 'Léger' } });
+
+      await expect(repo.save(product)).rejects.toThrow(I18nValidationError);
+    });
+
+    it('should save entities with all required translations', async () => {
+      const repo = getI18nRepository(RequiredProduct, dataSource);
+
+      const saved = await repo.save(repo.create(valid));
+      const loaded = await repo.findOneByOrFail({ id: saved.id });
+
+      expect(loaded.titleTranslations?.es).toBe('Portátil');
+      expect(loaded.titleTranslations?.fr).toBeNull();
+    });
+
+    it('should allow partial updates of stored entities', async () => {
+      const repo = getI18nRepository(RequiredProduct, dataSource);
+      const saved = await repo.save(repo.create(valid));
+
+      await repo.save({ id: saved.id, price: 10 });
+
+      const loaded = await repo.findOneByOrFail({ id: saved.id });
+      expect(loaded.price).toBe(10);
+      expect(loaded.titleTranslations?.es).toBe('Portátil');
+    });
+
+    it('should reject updates removing a required translation', async () => {
+      const repo = getI18nRepository(RequiredProduct, dataSource);
+      const saved = await repo.save(repo.create(valid));
+
+      const loaded = await repo.findOneByOrFail({ id: saved.id });
+      loaded.titleTranslations = { ...loaded.titleTranslations!, es: null as any };
+
+      await expect(repo.save(loaded)).rejects.toThrow('RequiredProduct.title (es)');
+    });
+
+    it('should find missing translations without saving', () => {
+      const product = Object.assign(new RequiredProduct(), { title: 'Laptop' });
+
+      expect(findMissingI18nTranslations(product)).toEqual([
+        { entity: 'RequiredProduct', property: 'title', language: 'es' },
+        { entity: 'RequiredProduct', property: 'slogan', language: 'es' },
+      ]);
+      expect(findMissingI18nTranslations(Object.assign(new RequiredProduct(), valid))).toEqual([]);
+    });
+  });
+
+  describe('Global configuration', () => {
+    it('should apply globally required languages supported by the column', async () => {
+      setI18nConfig({ languages: ['en', 'es'], default_language: 'en', required: ['es', 'de'] });
+
+      @Entity('required_global_products')
+      class GlobalRequiredProduct {
+        @PrimaryGeneratedColumn()
+        id!: number;
+
+        @I18nColumn({ type: 'varchar', length: 255 })
+        name!: string;
+
+        nameTranslations?: I18nValue<'en' | 'es', string>;
+      }
+
+      const product = Object.assign(new GlobalRequiredProduct(), { nameTranslations: { en: 'Chair' } });
+
+      expect(findMissingI18nTranslations(product)).toEqual([
+        { entity: 'GlobalRequiredProduct', property: 'name', language: 'es' },
+      ]);
+    });
+  });
+});
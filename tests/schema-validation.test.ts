@@ -0,0 +1,130 @@
+import { DataSource, Entity, PrimaryGeneratedColumn, QueryRunner, TableColumn } from 'typeorm';
+import { I18nColumn, I18nValue, validateI18nSchema } from '../src';
+import { createE2EDataSource, closeE2EDataSource } from './db-helper';
+
+@Entity('schema_products')
+class SchemaProduct {
+  @PrimaryGeneratedColumn()
+  id!: number;
+
+  @I18nColumn({
+    languages: ['en', 'es', 'it'],
+    default_language: 'en',
+    type: 'varchar',
+    length: 255,
+  })
+  name!: string;
+
+  nameTranslations?: I18nValue<'en' | 'es' | 'it', string>;
+
+  @I18nColumn({
+    languages: ['en', 'es'],
+    default_language: 'en',
+    storage: 'json',
+    type: 'json',
+  })
+  tagline!: string;
+}
+
+describe('Schema Validation', () => {
+  let dataSource: DataSource;
+
+  beforeEach(async () => {
+    dataSource = await createE2EDataSource([SchemaProduct]);
+  });
+
+  afterEach(async () => {
+    if (dataSource && dataSource.isInitialized) {
+      await closeE2EDataSource(dataSource);
+    }
+  });
+
+  async function alterTable(change: (queryRunner: QueryRunner) => Promise<void>): Promise<void> {
+    const queryRunner = dataSource.createQueryRunner();
+    try {
+      await change(queryRunner);
+    } finally {
+      await queryRunner.release();
+    }
+  }
+
+  it('should report a synchronized schema as valid', async () => {
+    const result = await validateI18nSchema(dataSource);
+
+    expect(result).toEqual({ valid: true, issues: [] });
+  });
+
+  it('should report missing language columns', async () => {
+    await alterTable((queryRunner) => queryRunner.dropColumn('schema_products', 'name_it'));
+
+    const result = await validateI18nSchema(dataSource);
+
+    expect(result.valid).toBe(false);
+    expect(result.issues).toEqual([
+      {
+        type: 'missing',
+        entity: 'SchemaProduct',
+        table: 'schema_products',
+        property: 'name',
+        language: 'it',
+        column: 'name_it',
+      },
+    ]);
+  });
+
+  it('should report extra columns of unconfigured languages', async () => {
+    await alterTable((queryRunner) =>
+      queryRunner.addColumn(
+        'schema_products',
+        new TableColumn({ name: 'name_fr', type: 'varchar', length: '255', isNullable: true })
+      )
+    );
+
+    const result = await validateI18nSchema(dataSource);
+
+    expect(result.issues).toEqual([
+      expect.objectContaining({ type: 'extra', property: 'name', language: 'fr', column: 'name_fr' }),
+    ]);
+  });
+
+  it('should report wrongly typed and wrongly nullable columns', async () => {
+    await alterTable((queryRunner) =>
+      queryRunner.changeColumn(
+        'schema_products',
+        'name_es',
+        new TableColumn({ name: 'name_es', type: 'varchar', length: '100', isNullable: false, default: "''" })
+      )
+    );
+
+    const result = await validateI18nSchema(dataSource);
+
+    expect(result.issues).toEqual([
+      expect.objectContaining({
+        type: 'type',
+        language: 'es',
+        column: 'name_es',
+        expected: 'varchar(255)',
+        actual: 'varchar(100)',
+      }),
+      expect.objectContaining({
+        type: 'nullable',
+        language: 'es',
+        column: 'name_es',
+        expected: true,
+        actual: false,
+      }),
+    ]);
+  });
+
+  it('should report all language columns of a missing table', async () => {
+    await alterTable((queryRunner) => queryRunner.dropTable('schema_products'));
+
+    const result = await validateI18nSchema(dataSource);
+
+    expect(result.issues.map((issue) => `${issue.type}:${issue.column}`)).toEqual([
+      'missing:name',
+      'missing:name_es',
+      'missing:name_it',
+    ]);
+  });
+});
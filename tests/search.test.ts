@@ -0,0 +1,137 @@
+import { Column, DataSource, Entity, PrimaryGeneratedColumn } from 'typeorm';
+import { I18nColumn, I18nValue, getI18nRepository } from '../src';
+import { createE2EDataSource, closeE2EDataSource } from './db-helper';
+
+type Languages = 'en' | 'es' | 'fr';
+
+const languages = { languages: ['en', 'es', 'fr'] as Languages[], default_language: 'en' as const };
+
+@Entity('search_products')
+class SearchProduct {
+  @PrimaryGeneratedColumn()
+  id!: number;
+
+  @I18nColumn({ ...languages, type: 'varchar', length: 255, nullable: true, index: { fulltext: true } })
+  name!: string;
+
+  nameTranslations?: I18nValue<Languages, string>;
+
+  @I18nColumn({ ...languages, type: 'text', nullable: true, index: { fulltext: true } })
+  description!: string;
+
+  descriptionTranslations?: I18nValue<Languages, string>;
+
+  @I18nColumn({ ...languages, type: 'int', nullable: true })
+  rank!: number;
+
+  @Column({ type: 'int', default: 0 })
+  stock!: number;
+}
+
+describe('I18nRepository.search', () => {
+  let dataSource: DataSource;
+
+  beforeEach(async () => {
+    dataSource = await createE2EDataSource([SearchProduct]);
+
+    const repo = getI18nRepository(SearchProduct, dataSource);
+    await repo.save([
+      repo.create({
+        nameTranslations: { en: 'Wooden chair', es: 'Silla de madera', fr: 'Chaise en bois' },
+        descriptionTranslations: {
+          en: 'A wooden chair with a wooden back',
+          es: 'Una silla de madera con respaldo de madera',
+          fr: 'Une chaise en bois',
+        },
+        stock: 1,
+      }),
+      repo.create({
+        nameTranslations: { en: 'Wooden table', es: 'Mesa', fr: 'Table en bois' },
+        descriptionTranslations: { en: 'A table', es: 'Una mesa de madera', fr: 'Une table' },
+        stock: 2,
+      }),
+      repo.create({
+        nameTranslations: { en: 'Lamp', es: 'Lámpara', fr: 'Lampe' },
+        descriptionTranslations: { en: 'A desk lamp', es: 'Una lámpara de escritorio', fr: 'Une lampe' },
+        stock: 3,
+      }),
+    ]);
+  });
+
+  afterEach(async () => {
+    if (dataSource && dataSource.isInitialized) {
+      await closeE2EDataSource(dataSource);
+    }
+  });
+
+  it('should find localized entities in the current language, most relevant first', async () => {
+    const repo = getI18nRepository(SearchProduct, dataSource);
+    repo.setLanguage('es');
+
+    const results = await repo.search('madera');
+
+    expect(results.map(({ entity }) => entity.name)).toEqual(['Silla de madera', 'Mesa']);
+    expect(results[0].score).toBeGreaterThan(results[1].score);
+    expect(results[1].score).toBeGreaterThan(0);
+    expect(results[0].entity.nameTranslations?.en).toBe('Wooden chair');
+  });
+
+  it('should match all words of the query', async () => {
+    const repo = getI18nRepository(SearchProduct, dataSource);
+
+    const results = await repo.search('silla madera', { language: 'es' });
+
+    expect(results.map(({ entity }) => entity.name)).toEqual(['Silla de madera']);
+  });
+
+  it('should only search the columns of the language', async () => {
+    const repo = getI18nRepository(SearchProduct, dataSource);
+
+    expect(await repo.search('wooden', { language: 'es' })).toEqual([]);
+    expect(await repo.search('bois', { language: 'FR' })).toHaveLength(2);
+    expect((await repo.search('wooden')).map(({ entity }) => entity.stock)).toEqual([1, 2]);
+  });
+
+  it('should search the given properties', async () => {
+    const repo = getI18nRepository(SearchProduct, dataSource);
+
+    const results = await repo.search('madera', { language: 'es', properties: ['name'] });
+
+    expect(results.map(({ entity }) => entity.name)).toEqual(['Silla de madera']);
+    await expect(repo.search('madera', { properties: ['stock'] })).rejects.toThrow(
+      '"stock" of SearchProduct is not an I18nColumn with storage "columns" and cannot be searched'
+    );
+  });
+
+  it('should paginate the results', async () => {
+    const repo = getI18nRepository(SearchProduct, dataSource);
+    repo.setLanguage('es');
+
+    const [first] = await repo.search('madera', { take: 1 });
+    const [second] = await repo.search('madera', { skip: 1, take: 1 });
+
+    expect([first.entity.name, second.entity.name]).toEqual(['Silla de madera', 'Mesa']);
+  });
+
+  it('should find updated translations and not deleted entities', async () => {
+    const repo = getI18nRepository(SearchProduct, dataSource);
+    repo.setLanguage('es');
+    const [lamp] = await repo.search('lámpara');
+
+    lamp.entity.nameTranslations = { ...lamp.entity.nameTranslations!, es: 'Lámpara de madera' };
+    await repo.save(lamp.entity);
+    const chair = (await repo.search('silla'))[0].entity;
+    await repo.remove(chair);
+
+    expect((await repo.search('madera')).map(({ entity }) => entity.name).sort()).toEqual([
+      'Lámpara de madera',
+      'Mesa',
+    ]);
+  });
+
+  it('should return nothing for queries without words', async () => {
+    const repo = getI18nRepository(SearchProduct, dataSource);
+
+    expect(await repo.search(' "*" ', { language: 'es' })).toEqual([]);
+  });
+});
@@ -0,0 +1,143 @@
+import { DataSource, Entity, ILike, In, Like, PrimaryGeneratedColumn } from 'typeorm';
+import { I18nColumn, I18nValue, getI18nRepository } from '../src';
+import { createE2EDataSource, closeE2EDataSource } from './db-helper';
+
+type Languages = 'en' | 'fr' | 'de';
+
+const languages = { languages: ['en', 'fr', 'de'] as Languages[], default_language: 'en' as const };
+
+@Entity('searchable_places')
+class SearchablePlace {
+  @PrimaryGeneratedColumn()
+  id!: number;
+
+  @I18nColumn({
+    ...languages,
+    type: 'varchar',
+    length: 255,
+    nullable: true,
+    searchable: { normalize: ['lowercase', 'unaccent'] },
+  })
+  name!: string;
+
+  nameTranslations?: I18nValue<Languages, string>;
+
+  @I18nColumn({ ...languages, type: 'varchar', length: 255, nullable: true, searchable: { normalize: ['lowercase'] } })
+  city!: string;
+
+  cityTranslations?: I18nValue<Languages, string>;
+}
+
+describe('Searchable columns', () => {
+  let dataSource: DataSource;
+
+  beforeEach(async () => {
+    dataSource = await createE2EDataSource([SearchablePlace]);
+
+    const repo = getI18nRepository(SearchablePlace, dataSource);
+    await repo.save([
+      repo.create({
+        nameTranslations: { en: 'Cafe Central', fr: 'Café Central', de: 'Café Zentral' },
+        cityTranslations: { en: 'Zurich', fr: 'Zurich', de: 'Zürich' },
+      }),
+      repo.create({
+        nameTranslations: { en: 'Old Bakery', fr: 'Vieille Boulangerie', de: 'Alte Bäckerei' },
+        cityTranslations: { en: 'Munich', fr: 'Munich', de: 'München' },
+      }),
+    ]);
+  });
+
+  afterEach(async () => {
+    if (dataSource && dataSource.isInitialized) {
+      await closeE2EDataSource(dataSource);
+    }
+  });
+
+  it('should create a hidden search column per language', async () => {
+    const columns = dataSource.getMetadata(SearchablePlace).columns.map((column) => column.databaseName);
+    const repo = getI18nRepository(SearchablePlace, dataSource);
+
+    const [place] = await repo.find({ order: { id: 'ASC' } });
+
+    expect(columns).toEqual(expect.arrayContaining(['name_search', 'name_fr_search', 'name_de_search']));
+    expect(Object.keys(place).filter((key) => key.endsWith('_search'))).toEqual([]);
+  });
+
+  it('should ignore case and accents in Like conditions of the current language', async () => {
+    const repo = getI18nRepository(SearchablePlace, dataSource);
+    repo.setLanguage('fr');
+
+    const places = await repo.find({ where: { name: Like('%cafe%') } });
+
+    expect(places.map((place) => place.name)).toEqual(['Café Central']);
+  });
+
+  it('should normalize ILike patterns', async () => {
+    const repo = getI18nRepository(SearchablePlace, dataSource);
+    repo.setLanguage('de');
+
+    expect((await repo.findBy({ name: ILike('BACKEREI%') })).map((place) => place.name)).toEqual([]);
+    expect((await repo.findBy({ name: ILike('%BACKEREI%') })).map((place) => place.name)).toEqual(['Alte Bäckerei']);
+  });
+
+  it('should search the default language without a current language', async () => {
+    const repo = getI18nRepository(SearchablePlace, dataSource);
+
+    expect(await repo.countBy({ name: Like('%CAFÉ%') })).toBe(1);
+    expect(await repo.countBy({ name: Like('%zentral%') })).toBe(0);
+  });
+
+  it('should only apply the configured normalizations', async () => {
+    const repo = getI18nRepository(SearchablePlace, dataSource);
+    repo.setLanguage('de');
+
+    const row = await dataSource
+      .createQueryBuilder()
+      .select('place.city_de_search', 'search')
+      .from(SearchablePlace, 'place')
+      .where('place.id = :id', { id: 2 })
+      .getRawOne();
+
+    expect(row.search).toBe('münchen');
+    expect((await repo.findBy({ city: Like('MÜNCHEN') })).map((place) => place.city)).toEqual(['München']);
+  });
+
+  it('should compare other conditions with the language column', async () => {
+    const repo = getI18nRepository(SearchablePlace, dataSource);
+    repo.setLanguage('fr');
+
+    expect(await repo.countBy({ name: 'Café Central' })).toBe(1);
+    expect(await repo.countBy({ name: In(['Café Central', 'Vieille Boulangerie']) })).toBe(2);
+  });
+
+  it('should search with QueryBuilder where objects', async () => {
+    const repo = getI18nRepository(SearchablePlace, dataSource);
+    repo.setLanguage('fr');
+
+    const places = await repo.createQueryBuilder('place').where({ name: Like('%BOULANGERIE%') }).getMany();
+
+    expect(places.map((place) => place.name)).toEqual(['Vieille Boulangerie']);
+  });
+
+  it('should update the search columns with the translations', async () => {
+    const repo = getI18nRepository(SearchablePlace, dataSource);
+    repo.setLanguage('fr');
+    const cafe = (await repo.findOneBy({ name: Like('%cafe%') }))!;
+
+    cafe.nameTranslations = { ...cafe.nameTranslations!, fr: 'Brasserie Élysée' };
+    await repo.save(cafe);
+
+    expect(await repo.countBy({ name: Like('%cafe%') })).toBe(0);
+    expect((await repo.findBy({ name: Like('%elysee%') })).map((place) => place.id)).toEqual([cafe.id]);
+  });
+
+  it('should reject search columns on JSON storage', () => {
+    expect(() => {
+      class JsonSearchable {
+        @I18nColumn({ ...languages, storage: 'json', type: 'simple-json', searchable: { normalize: ['lowercase'] } })
+        name!: string;
+      }
+      return JsonSearchable;
+    }).toThrow('I18nColumn on JsonSearchable.name uses storage "json" which does not support the searchable option');
+  });
+});
@@ -0,0 +1,315 @@
+import { Column, DataSource, Entity, ILike, PrimaryGeneratedColumn } from 'typeorm';
+import {
+  getI18nRepository,
+  getI18nTranslationEntity,
+  getResolvedLanguage,
+  I18nColumn,
+  I18nSubscriber,
+  I18nValue,
+  i18nMetadataStorage,
+  isFallback,
+} from '../src';
+import { createE2EDataSource, closeE2EDataSource, seedDatabase } from './db-helper';
+import { TableProduct } from './entities/TableProduct.entity';
+import { tableProductFixtures } from './fixtures/tableProduct.fixtures';
+
+@Entity('table_articles')
+class TableArticle {
+  @PrimaryGeneratedColumn()
+  id!: number;
+
+  @I18nColumn({
+    languages: ['en', 'es', 'fr'],
+    default_language: 'en',
+    storage: 'table',
+    fallbacks: { fr: ['es'], '*': ['es'] },
+    type: 'varchar',
+    length: 255,
+  })
+  title!: string;
+
+  titleTranslations?: I18nValue<'en' | 'es' | 'fr', string>;
+
+  @Column({ default: true })
+  published!: boolean;
+}
+
+describe('Translation Table Storage Strategy', () => {
+  let dataSource: DataSource;
+
+  beforeEach(async () => {
+    dataSource = await createE2EDataSource([
+      TableProduct,
+      getI18nTranslationEntity(TableProduct),
+      TableArticle,
+      getI18nTranslationEntity(TableArticle),
+    ]);
+    await seedDatabase(dataSource, TableProduct, tableProductFixtures);
+  });
+
+  afterEach(async () => {
+    if (dataSource && dataSource.isInitialized) {
+      await closeE2EDataSource(dataSource);
+    }
+  });
+
+  describe('Schema', () => {
+    it('should not create translation columns on the entity table', () => {
+      const columnNames = dataSource
+        .getRepository(TableProduct)
+        .metadata.columns.map((col) => col.databaseName);
+
+      expect(columnNames).not.toContain('name');
+      expect(columnNames).not.toContain('name_es');
+      expect(columnNames).toContain('price');
+    });
+
+    it('should create a translation table keyed by entity and locale', () => {
+      const metadata = dataSource.getMetadata(getI18nTranslationEntity(TableProduct));
+
+      expect(metadata.tableName).toBe('table_product_translations');
+      expect(metadata.primaryColumns.map((col) => col.databaseName).sort()).toEqual(['entity_id', 'locale']);
+      expect(metadata.columns.map((col) => col.databaseName)).toEqual(
+        expect.arrayContaining(['name', 'description'])
+      );
+    });
+
+    it('should store the storage strategy in metadata', () => {
+      const meta = i18nMetadataStorage.getPropertyMetadata(TableProduct, 'name');
+      expect(meta?.options.storage).toBe('table');
+    });
+
+    it('should throw for entities without table storage', () => {
+      class PlainEntity {}
+      expect(() => getI18nTranslationEntity(PlainEntity)).toThrow('has no I18nColumn with storage "table"');
+    });
+  });
+
+  describe('Loading', () => {
+    it('should populate translations from the translation table', async () => {
+      const repo = getI18nRepository(TableProduct, dataSource);
+
+      const product = await repo.findOne({ where: { price: 999.99 } });
+
+      expect(product?.nameTranslations).toEqual({
+        en: 'Laptop',
+        es: 'Portátil',
+        fr: 'Ordinateur portable',
+      });
+      expect(product?.descriptionTranslations?.es).toBe('Ordenador portátil');
+      expect(product?.name).toBe('Laptop');
+      expect((product as any)?.i18nTranslations).toBeUndefined();
+    });
+
+    it('should set the single-value property to the current language', async () => {
+      const repo = getI18nRepository(TableProduct, dataSource);
+      repo.setLanguage('fr');
+
+      const products = await repo.find();
+
+      expect(products.map((p) => p.name).sort()).toEqual(['Clavier', 'Ordinateur portable', 'Souris']);
+    });
+
+    it('should load translations through the QueryBuilder', async () => {
+      const repo = getI18nRepository(TableProduct, dataSource);
+      repo.setLanguage('es');
+
+      const product = await repo
+        .createQueryBuilder('product')
+        .where('product.price < :price', { price: 100 })
+        .getOne();
+
+      expect(product?.name).toBe('Ratón');
+      expect(product?.descriptionTranslations).toEqual({ es: 'Dispositivo apuntador' });
+    });
+
+    it('should only join the translations of the current language', async () => {
+      const repo = getI18nRepository(TableProduct, dataSource);
+      repo.setLanguage('fr');
+
+      const product = await repo.findOneBy({ price: 29.99 });
+
+      expect(product?.name).toBe('Souris');
+      expect(product?.nameTranslations).toEqual({ fr: 'Souris' });
+    });
+
+    it('should join the translations of the fallback chain of the current language', async () => {
+      const repo = getI18nRepository(TableArticle, dataSource);
+      await repo.save(repo.create({ titleTranslations: { en: 'News', es: 'Noticias' } }));
+
+      repo.setLanguage('fr');
+      const article = await repo.findOneOrFail({ where: {} });
+
+      expect(article.title).toBe('Noticias');
+      expect(article.titleTranslations).toEqual({ es: 'Noticias' });
+      expect(getResolvedLanguage(article, 'title')).toBe('es');
+      expect(isFallback(article, 'title')).toBe(true);
+    });
+
+    it('should join the fallback chain of languages the column does not have', async () => {
+      const repo = getI18nRepository(TableArticle, dataSource);
+      await repo.save(repo.create({ titleTranslations: { en: 'News', es: 'Noticias' } }));
+
+      repo.setLanguage('de');
+      const article = await repo.findOneOrFail({ where: {} });
+
+      expect(article.title).toBe('Noticias');
+      expect(article.titleTranslations).toEqual({ en: 'News', es: 'Noticias' });
+    });
+
+    it('should load all translations without a current language', async () => {
+      const repo = getI18nRepository(TableProduct, dataSource);
+      repo.setLanguage('es').clearLanguage();
+
+      const products = await repo
+        .createQueryBuilder('product')
+        .where('product.price < :price', { price: 100 })
+        .getMany();
+
+      expect(products[0].nameTranslations).toEqual({ en: 'Mouse', es: 'Ratón', fr: 'Souris' });
+    });
+
+    it('should require the translation entity in the DataSource entities', async () => {
+      const otherDataSource = new DataSource({
+        type: 'better-sqlite3',
+        database: ':memory:',
+        synchronize: true,
+        entities: [TableProduct],
+        subscribers: [I18nSubscriber],
+      });
+
+      await expect(otherDataSource.initialize()).rejects.toThrow('Entity metadata for TableProduct#');
+    });
+  });
+
+  describe('Where clauses', () => {
+    it('should match the default language without a language set', async () => {
+      const repo = getI18nRepository(TableProduct, dataSource);
+
+      const products = await repo.find({ where: { name: 'Mouse' } as any });
+
+      expect(products).toHaveLength(1);
+      expect(products[0].nameTranslations?.es).toBe('Ratón');
+    });
+
+    it('should match the current language combined with other conditions', async () => {
+      const repo = getI18nRepository(TableProduct, dataSource);
+      repo.setLanguage('es');
+
+      const product = await repo.findOneBy({ name: 'Teclado', price: 149.99 } as any);
+      const missing = await repo.findOneBy({ name: 'Keyboard' } as any);
+
+      expect(product?.name).toBe('Teclado');
+      expect(missing).toBeNull();
+    });
+
+    it('should support find operators and multiple translated properties', async () => {
+      const repo = getI18nRepository(TableProduct, dataSource);
+      repo.setLanguage('fr');
+
+      const count = await repo.count({
+        where: { name: ILike('%SOURIS%'), description: ILike('%pointage%') } as any,
+      });
+
+      expect(count).toBe(1);
+    });
+
+    it('should translate where objects in the QueryBuilder', async () => {
+      const repo = getI18nRepository(TableProduct, dataSource);
+      repo.setLanguage('fr');
+
+      const products = await repo
+        .createQueryBuilder('product')
+        .where({ name: 'Clavier' })
+        .getMany();
+
+      expect(products).toHaveLength(1);
+      expect(products[0].name).toBe('Clavier');
+    });
+  });
+
+  describe('Ordering', () => {
+    it('should order and paginate find results by the current language', async () => {
+      const repo = getI18nRepository(TableProduct, dataSource);
+      repo.setLanguage('es');
+
+      const [products, count] = await repo.findAndCount({
+        order: { name: 'ASC' } as any,
+        take: 2,
+      });
+
+      expect(count).toBe(3);
+      expect(products.map((p) => p.name)).toEqual(['Portátil', 'Ratón']);
+    });
+
+    it('should order QueryBuilder results by the current language', async () => {
+      const repo = getI18nRepository(TableProduct, dataSource);
+      repo.setLanguage('fr');
+
+      const products = await repo
+        .createQueryBuilder('product')
+        .orderBy('product.name', 'DESC')
+        .getMany();
+
+      expect(products.map((p) => p.name)).toEqual(['Souris', 'Ordinateur portable', 'Clavier']);
+    });
+  });
+
+  describe('Saving', () => {
+    it('should update translations through the repository', async () => {
+      const repo = getI18nRepository(TableProduct, dataSource);
+      repo.setLanguage('es');
+
+      const product = await repo.findOneByOrFail({ name: 'Ratón' } as any);
+      product.nameTranslations = { en: 'Wireless Mouse', es: 'Ratón inalámbrico', fr: 'Souris sans fil' };
+      const saved = await repo.save(product);
+
+      expect(saved.name).toBe('Ratón inalámbrico');
+
+      const reloaded = await repo.clearLanguage().findOneByOrFail({ id: product.id });
+      expect(reloaded.nameTranslations).toEqual({
+        en: 'Wireless Mouse',
+        es: 'Ratón inalámbrico',
+        fr: 'Souris sans fil',
+      });
+      expect(reloaded.descriptionTranslations?.en).toBe('Pointing device');
+    });
+
+    it('should write the current language when setting the single value', async () => {
+      const repo = getI18nRepository(TableProduct, dataSource);
+      repo.setLanguage('fr');
+
+      const product = await repo.findOneByOrFail({ name: 'Clavier' } as any);
+      product.nameTranslations = undefined;
+      product.name = 'Clavier sans fil';
+      await repo.save(product);
+
+      const reloaded = await repo.clearLanguage().findOneByOrFail({ id: product.id });
+      expect(reloaded.nameTranslations?.fr).toBe('Clavier sans fil');
+      expect(reloaded.nameTranslations?.en).toBe('Keyboard');
+    });
+
+    it('should keep the translations of languages that were not loaded', async () => {
+      const repo = getI18nRepository(TableProduct, dataSource);
+      repo.setLanguage('es');
+
+      const product = await repo.findOneByOrFail({ name: 'Teclado' } as any);
+      product.nameTranslations = { ...product.nameTranslations!, es: 'Teclado mecánico' };
+      await repo.save(product);
+
+      const reloaded = await repo.clearLanguage().findOneByOrFail({ id: product.id });
+      expect(reloaded.nameTranslations).toEqual({ en: 'Keyboard', es: 'Teclado mecánico', fr: 'Clavier' });
+    });
+
+    it('should delete translations with the entity', async () => {
+      const repo = getI18nRepository(TableProduct, dataSource);
+      const translationRepo = dataSource.getRepository(getI18nTranslationEntity(TableProduct));
+
+      const product = await repo.findOneByOrFail({ name: 'Laptop' } as any);
+      await repo.remove(product);
+
+      const remaining = await translationRepo.count();
+      expect(remaining).toBe(6);
+    });
+  });
+});
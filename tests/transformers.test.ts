@@ -0,0 +1,192 @@
+import { DataSource, Entity, PrimaryGeneratedColumn, ValueTransformer } from 'typeorm';
+import { I18N_LANGUAGE_KEY, I18nColumn, I18nValue, getI18nRepository, getI18nTranslationEntity } from '../src';
+import { createE2EDataSource, closeE2EDataSource } from './db-helper';
+
+type Languages = 'en' | 'de';
+
+interface Blurb {
+  headline: string;
+  bullets: string[];
+}
+
+/** Reversible stand-in for encryption */
+const sealed: ValueTransformer = {
+  to: (value: unknown) => (typeof value === 'string' ? `sealed:${Buffer.from(value).toString('base64')}` : value),
+  from: (value: unknown) =>
+    typeof value === 'string' && value.startsWith('sealed:')
+      ? Buffer.from(value.slice('sealed:'.length), 'base64').toString()
+      : value,
+};
+
+const trimmed: ValueTransformer = {
+  to: (value: unknown) => (typeof value === 'string' ? value.trim() : value),
+  from: (value: unknown) => value,
+};
+
+const serialized: ValueTransformer = {
+  to: (value: unknown) => (value && typeof value === 'object' ? JSON.stringify(value) : value),
+  from: (value: unknown) => (typeof value === 'string' ? JSON.parse(value) : value),
+};
+
+const languages = { languages: ['en', 'de'] as Languages[], default_language: 'en' as const };
+
+@Entity('transformer_contracts')
+class Contract {
+  @PrimaryGeneratedColumn()
+  id!: number;
+
+  @I18nColumn({ ...languages, type: 'text', nullable: true, transformer: sealed })
+  terms!: string;
+
+  termsTranslations?: I18nValue<Languages, string>;
+
+  @I18nColumn({ ...languages, type: 'varchar', length: 255, nullable: true, transformer: [trimmed, sealed] })
+  title!: string;
+
+  titleTranslations?: I18nValue<Languages, string>;
+
+  @I18nColumn({ ...languages, storage: 'json', type: 'simple-json', nullable: true, transformer: sealed })
+  summary!: string;
+
+  summaryTranslations?: I18nValue<Languages, string>;
+
+  @I18nColumn({ ...languages, storage: 'json', type: 'simple-json', nullable: true, transformer: serialized })
+  blurb!: Blurb;
+
+  blurbTranslations?: I18nValue<Languages, Blurb>;
+
+  @I18nColumn({ ...languages, storage: 'table', type: 'text', transformer: sealed })
+  notice!: string;
+
+  noticeTranslations?: I18nValue<Languages, string>;
+}
+
+const sealedValue = (value: string) => sealed.to(value);
+
+describe('Value Transformers', () => {
+  let dataSource: DataSource;
+
+  beforeEach(async () => {
+    dataSource = await createE2EDataSource([Contract, getI18nTranslationEntity(Contract)]);
+  });
+
+  afterEach(async () => {
+    if (dataSource && dataSource.isInitialized) {
+      await closeE2EDataSource(dataSource);
+    }
+  });
+
+  async function readRaw(id: number): Promise<{ row: Record<string, any>; notices: Record<string, any>[] }> {
+    const row = await dataSource
+      .createQueryBuilder()
+      .select('*')
+      .from('transformer_contracts', 'contract')
+      .where('contract.id = :id', { id })
+      .getRawOne();
+    const notices = await dataSource
+      .createQueryBuilder()
+      .select('*')
+      .from('contract_translation', 'translation')
+      .where('translation.entity_id = :id', { id })
+      .orderBy('translation.locale')
+      .getRawMany();
+    return { row, notices };
+  }
+
+  async function saveContract(): Promise<Contract> {
+    const repo = getI18nRepository(Contract, dataSource);
+    return repo.save(
+      repo.create({
+        termsTranslations: { en: 'Terms', de: 'Bedingungen' },
+        titleTranslations: { en: ' Lease ', de: ' Miete ' },
+        summaryTranslations: { en: 'Short', de: 'Kurz' },
+        blurbTranslations: {
+          en: { headline: 'Flexible', bullets: ['Monthly'] },
+          de: { headline: 'Flexibel', bullets: ['Monatlich'] },
+        },
+        noticeTranslations: { en: 'Notice', de: 'Hinweis' },
+      })
+    );
+  }
+
+  describe('Writing', () => {
+    it('should transform every language on insert', async () => {
+      const contract = await saveContract();
+      const { row, notices } = await readRaw(contract.id);
+
+      expect(row.terms).toBe(sealedValue('Terms'));
+      expect(row.terms_de).toBe(sealedValue('Bedingungen'));
+      expect(row.title).toBe(sealedValue('Lease'));
+      expect(row.title_de).toBe(sealedValue('Miete'));
+      expect(JSON.parse(row.summary)).toEqual({ en: sealedValue('Short'), de: sealedValue('Kurz') });
+      expect(JSON.parse(row.blurb).de).toBe(JSON.stringify({ headline: 'Flexibel', bullets: ['Monatlich'] }));
+      expect(notices.map((notice) => notice.notice)).toEqual([sealedValue('Hinweis'), sealedValue('Notice')]);
+    });
+
+    it('should transform every language on updates through the subscriber', async () => {
+      const repo = getI18nRepository(Contract, dataSource);
+      const { id } = await saveContract();
+      const contract = await repo.findOneByOrFail({ id });
+
+      contract.terms = 'New terms';
+      contract.termsTranslations = { en: 'New terms', de: 'Neue Bedingungen' };
+      contract.summaryTranslations = { en: 'Shorter', de: 'Kürzer' };
+      contract.noticeTranslations = { en: 'Notice', de: 'Neuer Hinweis' };
+      await dataSource.manager.save(contract);
+
+      const { row, notices } = await readRaw(id);
+      expect(row.terms).toBe(sealedValue('New terms'));
+      expect(row.terms_de).toBe(sealedValue('Neue Bedingungen'));
+      expect(JSON.parse(row.summary)).toEqual({ en: sealedValue('Shorter'), de: sealedValue('Kürzer') });
+      expect(notices.map((notice) => notice.notice)).toEqual([sealedValue('Neuer Hinweis'), sealedValue('Notice')]);
+    });
+
+    it('should transform single values saved in the current language', async () => {
+      const contract = Object.assign(new Contract(), {
+        terms: 'Allgemeine Bedingungen',
+        summary: 'Zusammenfassung',
+        [I18N_LANGUAGE_KEY]: 'de',
+      });
+      await dataSource.manager.save(contract);
+
+      const { row } = await readRaw(contract.id);
+      expect(row.terms_de).toBe(sealedValue('Allgemeine Bedingungen'));
+      expect(JSON.parse(row.summary)).toEqual({ de: sealedValue('Zusammenfassung') });
+      expect(contract.summary).toBe('Zusammenfassung');
+    });
+  });
+
+  describe('Reading', () => {
+    it('should restore every language on load', async () => {
+      const repo = getI18nRepository(Contract, dataSource);
+      const { id } = await saveContract();
+      repo.setLanguage('de');
+
+      const contract = await repo.findOneByOrFail({ id });
+
+      expect(contract.termsTranslations).toEqual({ en: 'Terms', de: 'Bedingungen' });
+      expect(contract.titleTranslations).toEqual({ en: 'Lease', de: 'Miete' });
+      expect(contract.summaryTranslations).toEqual({ en: 'Short', de: 'Kurz' });
+      expect(contract.blurb).toEqual({ headline: 'Flexibel', bullets: ['Monatlich'] });
+      expect(contract.notice).toBe('Hinweis');
+    });
+
+    it('should restore the values of saved entities', async () => {
+      const contract = await saveContract();
+
+      expect(contract.summary).toBe('Short');
+      expect(contract.summaryTranslations).toEqual({ en: 'Short', de: 'Kurz' });
+      expect(contract.blurb).toEqual({ headline: 'Flexible', bullets: ['Monthly'] });
+    });
+
+    it('should transform query values of every language', async () => {
+      const repo = getI18nRepository(Contract, dataSource);
+      await saveContract();
+      repo.setLanguage('de');
+
+      const [contract] = await repo.find({ where: { terms: 'Bedingungen' } });
+
+      expect(contract.terms).toBe('Bedingungen');
+    });
+  });
+});
@@ -0,0 +1,148 @@
+import { DataSource, Entity, Column, PrimaryGeneratedColumn } from 'typeorm';
+import {
+  I18nColumn,
+  I18nTranslations,
+  I18nValue,
+  I18nWhere,
+  WithI18n,
+  getI18nRepository,
+  i18nWhere,
+} from '../src';
+import { createE2EDataSource, closeE2EDataSource } from './db-helper';
+
+type Languages = 'en' | 'es' | 'fr';
+
+const languages = { languages: ['en', 'es', 'fr'] as Languages[], default_language: 'en' as const };
+
+@Entity('typed_products')
+class TypedProduct {
+  @PrimaryGeneratedColumn()
+  id!: number;
+
+  @I18nColumn({ ...languages, type: 'varchar', length: 255, nullable: true })
+  name!: string;
+
+  @I18nColumn({ ...languages, type: 'text', nullable: true })
+  description!: string;
+
+  @Column({ type: 'int', default: 0 })
+  stock!: number;
+}
+
+// The translations properties are derived instead of declared by hand
+interface TypedProduct extends I18nTranslations<TypedProduct, 'name' | 'description', Languages> {}
+
+@Entity('typed_categories')
+class TypedCategory {
+  @PrimaryGeneratedColumn()
+  id!: number;
+
+  @I18nColumn({ ...languages, type: 'varchar', length: 255, nullable: true })
+  title!: string;
+}
+
+type LocalizedCategory = WithI18n<TypedCategory, 'title', Languages>;
+
+describe('Typed Entities', () => {
+  let dataSource: DataSource;
+
+  beforeEach(async () => {
+    dataSource = await createE2EDataSource([TypedProduct, TypedCategory]);
+  });
+
+  afterEach(async () => {
+    if (dataSource && dataSource.isInitialized) {
+      await closeE2EDataSource(dataSource);
+    }
+  });
+
+  describe('I18nTranslations', () => {
+    it('should type the translations properties of merged entities', async () => {
+      const repo = getI18nRepository<TypedProduct, Languages>(TypedProduct, dataSource);
+
+      const product = repo.create({
+        nameTranslations: { en: 'Laptop', es: 'Portátil', fr: 'Ordinateur portable' },
+        descriptionTranslations: { en: 'A laptop', es: 'Un portátil', fr: 'Un ordinateur' },
+      });
+      await repo.save(product);
+
+      repo.setLanguage('es');
+      const [loaded] = await repo.find();
+      const translations: I18nValue<Languages, string> | undefined = loaded.nameTranslations;
+
+      expect(loaded.name).toBe('Portátil');
+      expect(translations?.fr).toBe('Ordinateur portable');
+    });
+
+    it('should reject translations in other languages at compile time', () => {
+      const product = new TypedProduct();
+
+      // @ts-expect-error 'sp' is not a language of the entity
+      product.nameTranslations = { en: 'Laptop', es: 'Portátil', fr: 'Ordinateur', sp: 'Portátil' };
+      // @ts-expect-error stock is not an I18n property
+      void product.stockTranslations;
+
+      expect(product.nameTranslations?.en).toBe('Laptop');
+    });
+  });
+
+  describe('WithI18n', () => {
+    it('should type repositories of entity types with translations', async () => {
+      const repo = getI18nRepository<LocalizedCategory, Languages>(TypedCategory, dataSource);
+
+      await repo.save(repo.create({ titleTranslations: { en: 'Books', es: 'Libros', fr: 'Livres' } }));
+      // @ts-expect-error 'sp' is not a language of the repository
+      expect(() => repo.create({ titleTranslations: { en: 'Music', sp: 'Música' } })).not.toThrow();
+
+      repo.setLanguage('FR');
+      const [category] = await repo.find();
+
+      expect(category.title).toBe('Livres');
+      expect(category.titleTranslations?.es).toBe('Libros');
+    });
+  });
+
+  describe('Languages', () => {
+    it('should accept the languages of the repository in any case and with regions', () => {
+      const repo = getI18nRepository<TypedProduct, Languages>(TypedProduct, dataSource);
+
+      expect(repo.setLanguage('ES').getLanguage()).toBe('es');
+      expect(repo.setLanguage('fr-CA').getLanguage()).toBe('fr-CA');
+      expect(repo.setLanguage('en_gb').getLanguage()).toBe('en-GB');
+
+      // @ts-expect-error 'sp' is not a language of the repository
+      repo.setLanguage('sp');
+    });
+
+    it('should accept any language without a language union', () => {
+      const repo = getI18nRepository(TypedProduct, dataSource);
+
+      expect(repo.setLanguage('sp').getLanguage()).toBe('sp');
+    });
+  });
+
+  describe('I18nWhere', () => {
+    it('should query I18n properties by their values', async () => {
+      const repo = getI18nRepository<TypedProduct, Languages>(TypedProduct, dataSource);
+      await repo.save(repo.create({ nameTranslations: { en: 'Mouse', es: 'Ratón', fr: 'Souris' }, stock: 3 }));
+
+      repo.setLanguage('es');
+      const products = await repo.find({ where: i18nWhere<TypedProduct, Languages>({ name: 'Ratón', stock: 3 }) });
+
+      expect(products).toHaveLength(1);
+    });
+
+    it('should leave out translations properties and other languages', () => {
+      type ProductWhere = I18nWhere<{ name: I18nValue<Languages>; nameTranslations?: I18nValue<Languages> }, Languages>;
+      type OtherWhere = I18nWhere<{ name: I18nValue<'en' | 'de'> }, Languages>;
+
+      const where: ProductWhere = { name: 'Laptop' };
+      // @ts-expect-error translations cannot be queried
+      const translationsWhere: ProductWhere = { nameTranslations: { en: 'Laptop', es: 'Portátil', fr: 'Laptop' } };
+      // @ts-expect-error the value of another language union is not flattened
+      const otherWhere: OtherWhere = { name: 'Laptop' };
+
+      expect([where, translationsWhere, otherWhere]).toHaveLength(3);
+    });
+  });
+});
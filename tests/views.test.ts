@@ -0,0 +1,187 @@
+import { Column, DataSource, Entity, PrimaryGeneratedColumn } from 'typeorm';
+import {
+  I18nColumn,
+  I18nMigrationQuery,
+  I18nRelation,
+  I18nUnknownLanguageError,
+  I18nValue,
+  generateI18nViews,
+  getI18nRepository,
+  getI18nTranslationEntity,
+} from '../src';
+import { createE2EDataSource, closeE2EDataSource } from './db-helper';
+
+type Languages = 'en' | 'es' | 'fr';
+
+const languages = { languages: ['en', 'es', 'fr'] as Languages[], default_language: 'en' as const };
+
+class ViewSeo {
+  @I18nColumn({ ...languages, type: 'varchar', length: 160, nullable: true })
+  title!: string;
+
+  titleTranslations?: I18nValue<Languages, string>;
+}
+
+@Entity('view_images')
+class ViewImage {
+  @PrimaryGeneratedColumn()
+  id!: number;
+}
+
+@Entity('view_products')
+class ViewProduct {
+  @PrimaryGeneratedColumn()
+  id!: number;
+
+  @I18nColumn({ ...languages, type: 'varchar', length: 255, nullable: true })
+  name!: string;
+
+  nameTranslations?: I18nValue<Languages, string>;
+
+  @I18nColumn({ ...languages, storage: 'json', type: 'simple-json', nullable: true })
+  description!: string;
+
+  descriptionTranslations?: I18nValue<Languages, string>;
+
+  @I18nColumn({ ...languages, storage: 'table', type: 'text', nullable: true })
+  body!: string;
+
+  bodyTranslations?: I18nValue<Languages, string>;
+
+  @I18nRelation(() => ViewImage, { ...languages, joinColumn: 'image_id', nullable: true })
+  image!: ViewImage | null;
+
+  imageTranslations?: I18nValue<Languages, ViewImage | null>;
+
+  @Column(() => ViewSeo)
+  seo!: ViewSeo;
+
+  @Column({ type: 'int', default: 0 })
+  stock!: number;
+}
+
+@Entity('view_archived')
+class ViewArchived {
+  @PrimaryGeneratedColumn()
+  id!: number;
+
+  @I18nColumn({ ...languages, archived: ['fr'], type: 'varchar', length: 255, nullable: true })
+  label!: string;
+}
+
+describe('generateI18nViews', () => {
+  let dataSource: DataSource;
+  let images: ViewImage[];
+
+  beforeEach(async () => {
+    dataSource = await createE2EDataSource([
+      ViewImage,
+      ViewProduct,
+      ViewArchived,
+      getI18nTranslationEntity(ViewProduct),
+    ]);
+
+    const imageRepo = dataSource.getRepository(ViewImage);
+    images = await imageRepo.save([imageRepo.create(), imageRepo.create()]);
+
+    const repo = getI18nRepository(ViewProduct, dataSource);
+    await repo.save(
+      repo.create({
+        nameTranslations: { en: 'Chair', es: 'Silla', fr: null as any },
+        descriptionTranslations: { en: 'A chair', es: 'Una silla', fr: null as any },
+        bodyTranslations: { en: 'Wood', es: 'Madera', fr: null as any },
+        imageTranslations: { en: images[0], es: images[1], fr: null },
+        seo: Object.assign(new ViewSeo(), { titleTranslations: { en: 'Chairs', es: 'Sillas', fr: 'Chaises' } }),
+        stock: 4,
+      })
+    );
+  });
+
+  afterEach(async () => {
+    if (dataSource && dataSource.isInitialized) {
+      await closeE2EDataSource(dataSource);
+    }
+  });
+
+  async function runQueries(queries: I18nMigrationQuery[]): Promise<void> {
+    for (const query of queries) {
+      await dataSource.query(query.query, query.parameters);
+    }
+  }
+
+  async function readView(view: string): Promise<Record<string, any>> {
+    return (await dataSource.createQueryBuilder().select('*').from(view, 'view').getRawOne())!;
+  }
+
+  it('should create a view per language of each entity', () => {
+    const migration = generateI18nViews(dataSource, { timestamp: 1700000000000 });
+
+    expect(migration.name).toBe('I18nViews1700000000000');
+    expect(migration.views).toEqual([
+      'view_products_en',
+      'view_products_es',
+      'view_products_fr',
+      'view_archived_en',
+      'view_archived_es',
+    ]);
+    expect(migration.source).toContain('export class I18nViews1700000000000 implements MigrationInterface');
+    expect(migration.source).toContain('CREATE VIEW');
+  });
+
+  it('should expose the language columns under their base names', async () => {
+    const migration = generateI18nViews(dataSource);
+    await runQueries(migration.upQueries);
+
+    const row = await readView('view_products_es');
+
+    expect(Object.keys(row).sort()).toEqual(['body', 'description', 'id', 'image_id', 'name', 'seoTitle', 'stock']);
+    expect(row).toMatchObject({
+      name: 'Silla',
+      description: 'Una silla',
+      body: 'Madera',
+      image_id: images[1].id,
+      seoTitle: 'Sillas',
+      stock: 4,
+    });
+  });
+
+  it('should fall back to the default language', async () => {
+    await runQueries(generateI18nViews(dataSource, { languages: ['fr'] }).upQueries);
+    const withoutFallback = await readView('view_products_fr');
+
+    await runQueries(generateI18nViews(dataSource, { languages: ['fr'], fallback: true }).upQueries);
+    const withFallback = await readView('view_products_fr');
+
+    expect(withoutFallback).toMatchObject({ name: null, description: null, body: null, image_id: null });
+    expect(withFallback).toMatchObject({
+      name: 'Chair',
+      description: 'A chair',
+      body: 'Wood',
+      image_id: images[0].id,
+      seoTitle: 'Chaises',
+    });
+  });
+
+  it('should drop the views on down', async () => {
+    const viewName = (table: string, language: string) => `${language}_${table}`;
+    const migration = generateI18nViews(dataSource, { languages: ['es'], viewName });
+    await runQueries(migration.upQueries);
+
+    expect(migration.views).toEqual(['es_view_products', 'es_view_archived']);
+    expect((await readView('es_view_products')).name).toBe('Silla');
+
+    await runQueries(migration.downQueries);
+    await expect(readView('es_view_products')).rejects.toThrow();
+  });
+
+  it('should match the requested languages to the configured ones', () => {
+    const migration = generateI18nViews(dataSource, { languages: ['ES', 'fr_CA'] });
+
+    expect(migration.views).toEqual(['view_products_es', 'view_products_fr', 'view_archived_es']);
+  });
+
+  it('should reject languages no entity has', () => {
+    expect(() => generateI18nViews(dataSource, { languages: ['es', 'sp'] })).toThrow(I18nUnknownLanguageError);
+    expect(() => generateI18nViews(dataSource, { languages: ['sp'] })).toThrow('Unknown I18n language "sp"');
+  });
+});